@@ -0,0 +1,71 @@
+/**
+ * @jest-environment node
+ */
+import {
+  formatConfigErrors,
+  getDefaultConfig,
+  parseConfig
+} from "@/app/api/github-webhook/_lib/config"
+
+// The config module reads files through the GitHub client
+jest.mock("@/app/api/github-webhook/_lib/github", () => ({
+  getFileContent: jest.fn()
+}))
+
+describe("agent config", () => {
+  it("uses defaults for an empty file", () => {
+    expect(parseConfig("")).toEqual(getDefaultConfig())
+    expect(getDefaultConfig().review.blockingSeverity).toBe("blocker")
+  })
+
+  it("reads the blocking severity", () => {
+    expect(
+      parseConfig("review:\n  blockingSeverity: major\n").review
+        .blockingSeverity
+    ).toBe("major")
+  })
+
+  it("merges partial sections with the defaults", () => {
+    const config = parseConfig(`
+labels:
+  review: needs-review
+tests:
+  unit:
+    directory: test
+    framework: vitest
+models:
+  review: gpt-4o
+review:
+  guidelines: Prefer early returns.
+`)
+    expect(config.labels).toEqual({
+      review: "needs-review",
+      testGeneration: "agent-generate-tests"
+    })
+    expect(config.tests.unit).toEqual({
+      directory: "test",
+      framework: "vitest"
+    })
+    expect(config.tests.e2e).toEqual({})
+    expect(config.triggers.review).toEqual(["opened", "synchronize", "labeled"])
+    expect(config.models.review).toBe("gpt-4o")
+    expect(config.review.guidelines).toBe("Prefer early returns.")
+  })
+
+  it("reports YAML syntax errors", () => {
+    expect(() => parseConfig("labels: [unclosed")).toThrow()
+  })
+
+  it("reports invalid values with their path", () => {
+    expect(() =>
+      parseConfig("review:\n  blockingSeverity: sometimes\n")
+    ).toThrow(/review\.blockingSeverity/)
+  })
+
+  it("formats config errors as a warning for PR comments", () => {
+    expect(formatConfigErrors([])).toBe("")
+    expect(formatConfigErrors(["Invalid .github/ai-agent.yml: x"])).toContain(
+      "> - Invalid .github/ai-agent.yml: x"
+    )
+  })
+})
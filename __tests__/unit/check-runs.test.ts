@@ -0,0 +1,135 @@
+/**
+ * @jest-environment node
+ */
+import {
+  CheckAnnotation,
+  completeCheckRun,
+  startCheckRun
+} from "@/app/api/github-webhook/_lib/checks"
+
+const mockCreate = jest.fn()
+const mockUpdate = jest.fn()
+
+jest.mock("@/app/api/github-webhook/_lib/github", () => ({
+  octokit: {
+    checks: {
+      create: (...args: any[]) => mockCreate(...args),
+      update: (...args: any[]) => mockUpdate(...args)
+    }
+  }
+}))
+
+const annotation = (line: number): CheckAnnotation => ({
+  path: "src/index.ts",
+  start_line: line,
+  end_line: line,
+  annotation_level: "warning",
+  message: `Finding on line ${line}`
+})
+
+describe("check runs", () => {
+  beforeEach(() => {
+    jest.resetAllMocks()
+    mockCreate.mockResolvedValue({ data: { id: 7 } })
+    mockUpdate.mockResolvedValue({ data: {} })
+  })
+
+  it("completes the check first, then appends annotations in batches of 50", async () => {
+    const annotations = Array.from({ length: 120 }, (_, i) => annotation(i + 1))
+
+    await completeCheckRun("octo-org", "octo-repo", 7, {
+      conclusion: "failure",
+      title: "Changes requested",
+      summary: "Three findings",
+      annotations
+    })
+
+    const updates = mockUpdate.mock.calls.map(([params]) => params)
+    expect(updates.map(u => u.output.annotations.length)).toEqual([50, 50, 20])
+    expect(updates.map(u => u.status)).toEqual([
+      "completed",
+      undefined,
+      undefined
+    ])
+    expect(updates[0].conclusion).toBe("failure")
+    // Every annotation is sent exactly once
+    expect(
+      updates
+        .flatMap(u => u.output.annotations.map((a: any) => a.start_line))
+        .sort((a, b) => a - b)
+    ).toEqual(annotations.map(a => a.start_line))
+  })
+
+  it("completes the check without annotations when GitHub rejects them", async () => {
+    mockUpdate
+      .mockRejectedValueOnce(new Error("Validation Failed"))
+      .mockResolvedValue({ data: {} })
+
+    await completeCheckRun("octo-org", "octo-repo", 7, {
+      conclusion: "failure",
+      title: "Changes requested",
+      summary: "One finding",
+      annotations: [annotation(1)]
+    })
+
+    const updates = mockUpdate.mock.calls.map(([params]) => params)
+    expect(updates).toHaveLength(2)
+    expect(updates[1]).toMatchObject({
+      status: "completed",
+      conclusion: "failure",
+      output: { annotations: [] }
+    })
+  })
+
+  it("keeps the check completed when a later annotation batch fails", async () => {
+    mockUpdate
+      .mockResolvedValueOnce({ data: {} })
+      .mockRejectedValueOnce(new Error("Validation Failed"))
+      .mockResolvedValue({ data: {} })
+
+    await completeCheckRun("octo-org", "octo-repo", 7, {
+      conclusion: "neutral",
+      title: "Comments",
+      summary: "Many findings",
+      annotations: Array.from({ length: 120 }, (_, i) => annotation(i + 1))
+    })
+
+    const updates = mockUpdate.mock.calls.map(([params]) => params)
+    expect(updates[0].status).toBe("completed")
+    // The failed batch doesn't stop the next one
+    expect(updates).toHaveLength(3)
+  })
+
+  it("truncates summaries GitHub would reject", async () => {
+    await completeCheckRun("octo-org", "octo-repo", 7, {
+      conclusion: "success",
+      title: "Approved",
+      summary: "x".repeat(70000)
+    })
+
+    const { summary } = mockUpdate.mock.calls[0][0].output
+    expect(summary.length).toBeLessThan(65535)
+    expect(summary).toMatch(/_\(Summary truncated\.\)_$/)
+  })
+
+  it("does nothing when the check run couldn't be created", async () => {
+    await completeCheckRun("octo-org", "octo-repo", undefined, {
+      conclusion: "success",
+      title: "Approved",
+      summary: "Looks good"
+    })
+
+    expect(mockUpdate).not.toHaveBeenCalled()
+  })
+
+  it("puts the check run of an earlier attempt back in progress", async () => {
+    await expect(
+      startCheckRun("octo-org", "octo-repo", "abc1234", "AI Code Review", 3)
+    ).resolves.toBe(3)
+    expect(mockUpdate.mock.calls[0][0]).toMatchObject({
+      check_run_id: 3,
+      status: "in_progress"
+    })
+    expect(mockCreate).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,189 @@
+/**
+ * @jest-environment node
+ */
+import {
+  estimateTokens,
+  extractSurroundingLines,
+  findImportedFiles,
+  getContextWindow,
+  getPromptBudget,
+  groupFilesIntoBatches,
+  packChangedFiles,
+  packExistingTests,
+  scoreFileRelevance
+} from "@/app/api/github-webhook/_lib/context-builder"
+
+// A 100-line file where line 50 was changed
+const content = Array.from({ length: 100 }, (_, i) => `line ${i + 1}`).join(
+  "\n"
+)
+const patch = "@@ -50,1 +50,1 @@\n-old line 50\n+line 50"
+
+const changedFile = (filename: string, overrides = {}) => ({
+  filename,
+  status: "modified",
+  patch,
+  additions: 1,
+  deletions: 1,
+  content,
+  ...overrides
+})
+
+describe("context builder", () => {
+  it("looks up context windows and estimates tokens per model", () => {
+    const model = (modelId: string) => ({ provider: "test", modelId })
+    expect(getContextWindow(model("gpt-4o-mini"))).toBe(128000)
+    expect(getContextWindow(model("claude-3-5-sonnet-latest"))).toBe(200000)
+    expect(getContextWindow(model("some-local-model"))).toBe(32000)
+    expect(estimateTokens("x".repeat(36), "gpt-4o")).toBe(10)
+    expect(getPromptBudget(model("gpt-4"), "x".repeat(3200))).toBe(
+      8192 - 2048 - 1000
+    )
+  })
+
+  it("ranks source files with churn and a matching test above docs", () => {
+    const related = ["__tests__/unit/utils.test.ts"]
+    const source = scoreFileRelevance(
+      changedFile("lib/utils.ts", { additions: 30 }),
+      related
+    )
+    const docs = scoreFileRelevance(
+      changedFile("README.md", { additions: 30 }),
+      related
+    )
+    const unrelated = scoreFileRelevance(
+      changedFile("lib/other.ts", { additions: 30 }),
+      related
+    )
+    expect(source).toBeGreaterThan(unrelated)
+    expect(unrelated).toBeGreaterThan(docs)
+  })
+
+  it("extracts the lines around each hunk", () => {
+    const lines = extractSurroundingLines(content, patch).split("\n")
+    expect(lines[0]).toBe("30: line 30")
+    expect(lines[lines.length - 1]).toBe("70: line 70")
+  })
+
+  it("includes everything in full when it fits", () => {
+    const packed = packChangedFiles([changedFile("lib/a.ts")], {
+      modelId: "gpt-4o",
+      budget: 100000
+    })
+    expect(packed.files.map(f => f.detail)).toEqual(["full"])
+    expect(packed.text).toContain("Current Content:\nline 1\n")
+  })
+
+  it("degrades the least relevant files first when the budget is tight", () => {
+    const files = [
+      changedFile("README.md"),
+      changedFile("lib/a.ts", { additions: 40 })
+    ]
+    const fullTokens = estimateTokens(content, "gpt-4o")
+    const packed = packChangedFiles(files, {
+      modelId: "gpt-4o",
+      budget: fullTokens + 200
+    })
+
+    expect(packed.files).toEqual([
+      expect.objectContaining({ filename: "lib/a.ts", detail: "full" }),
+      expect.objectContaining({ filename: "README.md", detail: "patch" })
+    ])
+    expect(packed.tokens).toBeLessThanOrEqual(packed.budget)
+  })
+
+  it("falls back to filenames only and keeps excluded files as excluded", () => {
+    const packed = packChangedFiles(
+      [
+        changedFile("lib/a.ts"),
+        changedFile("yarn.lock", {
+          excluded: true,
+          excludedReason: "lockfile",
+          content: undefined
+        })
+      ],
+      { modelId: "gpt-4o", budget: 0 }
+    )
+    expect(packed.files.map(f => f.detail)).toEqual(["name", "name"])
+    expect(packed.text).toContain("[OMITTED: did not fit")
+    expect(packed.text).toContain("[EXCLUDED FROM PROMPT: lockfile]")
+  })
+
+  it("puts tests of changed files first when packing existing tests", () => {
+    const tests = [
+      { filename: "__tests__/unit/other.test.ts", content: "x".repeat(400) },
+      { filename: "__tests__/unit/a.test.ts", content: "y".repeat(400) }
+    ]
+    const packed = packExistingTests(tests, ["lib/a.ts"], {
+      modelId: "gpt-4o",
+      budget: 150
+    })
+    expect(packed.files).toEqual([
+      expect.objectContaining({
+        filename: "__tests__/unit/a.test.ts",
+        detail: "full"
+      }),
+      expect.objectContaining({
+        filename: "__tests__/unit/other.test.ts",
+        detail: "name"
+      })
+    ])
+  })
+
+  it("never packs existing tests beyond the budget", () => {
+    const tests = [
+      { filename: "__tests__/unit/a.test.ts", content: "y".repeat(4000) },
+      ...Array.from({ length: 20 }, (_, i) => ({
+        filename: `__tests__/unit/other${i}.test.ts`,
+        content: "x"
+      }))
+    ]
+    const packed = packExistingTests(tests, ["lib/a.ts"], {
+      modelId: "gpt-4o",
+      budget: 100
+    })
+
+    // The test of the changed file is larger than the whole budget
+    expect(packed.files[0]).toMatchObject({
+      filename: "__tests__/unit/a.test.ts",
+      detail: "name"
+    })
+    expect(packed.tokens).toBeLessThanOrEqual(100)
+    expect(estimateTokens(packed.text, "gpt-4o")).toBeLessThanOrEqual(100)
+    expect(packed.text).not.toContain("yyy")
+  })
+
+  it("resolves relative and aliased imports between changed files", () => {
+    const filenames = new Set([
+      "lib/db.ts",
+      "lib/utils/index.ts",
+      "app/page.tsx"
+    ])
+    const file = changedFile("app/page.tsx", {
+      content: `import { db } from "@/lib/db"\nimport { cn } from "../lib/utils"\nimport React from "react"\n`
+    })
+    expect(findImportedFiles(file, filenames).sort()).toEqual([
+      "lib/db.ts",
+      "lib/utils/index.ts"
+    ])
+  })
+
+  it("batches files that import each other together", () => {
+    const fileTokens = estimateTokens(content, "gpt-4o")
+    const files = [
+      changedFile("app/a/page.tsx", {
+        content: `import { x } from "@/lib/z"\n${content}`
+      }),
+      changedFile("app/b/page.tsx"),
+      changedFile("lib/z.ts")
+    ]
+    const batches = groupFilesIntoBatches(files, {
+      modelId: "gpt-4o",
+      budget: fileTokens * 2 + 100
+    })
+    expect(batches.map(b => b.map(f => f.filename))).toEqual([
+      ["app/a/page.tsx", "lib/z.ts"],
+      ["app/b/page.tsx"]
+    ])
+  })
+})
@@ -0,0 +1,101 @@
+/**
+ * @jest-environment node
+ */
+import { readFileSync } from "fs"
+import path from "path"
+import {
+  computeChangedLineCoverage,
+  describeUncoveredLines,
+  formatCoverageChange,
+  formatLineRanges,
+  getChangedLines
+} from "@/app/api/github-webhook/_lib/coverage"
+
+// Statements on lines 2, 3, 4 and 6 of lib/a.ts; only the one on line 3 ran
+const report = {
+  "/work/lib/a.ts": {
+    statementMap: {
+      "0": { start: { line: 2 } },
+      "1": { start: { line: 3 } },
+      "2": { start: { line: 4 } },
+      "3": { start: { line: 6 } }
+    },
+    s: { "0": 0, "1": 4, "2": 0, "3": 0 }
+  }
+}
+
+// Written by jest --coverageProvider=v8 for a file with a comment, an interface and
+// blank lines, where a test only ran the early return
+const v8Report = JSON.parse(
+  readFileSync(
+    path.join(__dirname, "../fixtures/jest/v8-coverage-final.json"),
+    "utf8"
+  )
+)
+
+describe("changed-line coverage", () => {
+  it("reads the added lines from each patch", () => {
+    const changed = getChangedLines([
+      {
+        filename: "lib/a.ts",
+        patch: "@@ -1,2 +1,5 @@\n x\n+a\n+b\n+c\n-y\n+d"
+      },
+      { filename: "lib/b.ts", patch: "@@ -1,1 +0,0 @@\n-gone" },
+      { filename: "lib/c.ts" }
+    ])
+
+    expect(changed).toEqual(new Map([["lib/a.ts", [2, 3, 4, 5]]]))
+  })
+
+  it("counts only changed lines that hold a statement", () => {
+    const coverage = computeChangedLineCoverage(
+      report,
+      new Map([
+        ["lib/a.ts", [1, 2, 3, 4]],
+        ["lib/missing.ts", [1]]
+      ]),
+      "/work"
+    )
+
+    expect(coverage).toEqual({
+      files: [{ filename: "lib/a.ts", lines: [2, 3, 4], uncovered: [2, 4] }],
+      covered: 1,
+      total: 3
+    })
+  })
+
+  it("describes the uncovered ranges and the change in coverage", () => {
+    const before = computeChangedLineCoverage(
+      report,
+      new Map([["lib/a.ts", [2, 3, 4, 6]]]),
+      "/work"
+    )
+    const after = {
+      files: [{ filename: "lib/a.ts", lines: [2, 3, 4, 6], uncovered: [6] }],
+      covered: 3,
+      total: 4
+    }
+
+    expect(formatLineRanges([2, 4, 5, 6, 9])).toBe("2, 4-6, 9")
+    expect(describeUncoveredLines(before)).toContain(
+      "- lib/a.ts: lines 2, 4, 6"
+    )
+    expect(formatCoverageChange(before, after)).toContain(
+      "25% (1 of 4 lines) → 75% (3 of 4 lines)"
+    )
+    expect(formatCoverageChange(before, after)).toContain(
+      "| `lib/a.ts` | 1/4 | 3/4 |"
+    )
+  })
+
+  it("leaves out v8 reports, which count every line as a statement", () => {
+    // Lines 1-5 are a comment, an interface and a blank line
+    const coverage = computeChangedLineCoverage(
+      v8Report,
+      new Map([["lib/discount.ts", [1, 2, 3, 4, 5, 11, 12]]]),
+      "/work"
+    )
+
+    expect(coverage).toEqual({ files: [], covered: 0, total: 0 })
+  })
+})
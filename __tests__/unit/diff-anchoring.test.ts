@@ -0,0 +1,91 @@
+import {
+  anchorRangeExactly,
+  anchorToDiff,
+  diffLines,
+  parsePatch
+} from "@/app/api/github-webhook/_lib/diff"
+
+// Patch in the format GitHub returns in pulls.listFiles (changedFiles[].patch)
+const patch = `@@ -1,5 +1,6 @@
+ import { sum } from "./sum"
+-const total = sum(1, 2)
++const total = sum(1, 2, 3)
++const average = total / 3
+ 
+ export default total
+ // end
+@@ -20,3 +21,4 @@ function later() {
+   return 1
+ }
++export { later }
+\\ No newline at end of file`
+
+describe("parsePatch", () => {
+  it("tracks line numbers on both sides of each hunk", () => {
+    const [first, second] = parsePatch(patch)
+    expect(first.added).toEqual([2, 3])
+    expect(first.removed).toEqual([2])
+    expect(first.right).toEqual([1, 2, 3, 4, 5, 6])
+    expect(first.left).toEqual([1, 2, 3, 4, 5])
+    expect(second.added).toEqual([23])
+    expect(second.right).toEqual([21, 22, 23])
+  })
+})
+
+describe("anchorToDiff", () => {
+  it("anchors a single added line", () => {
+    expect(
+      anchorToDiff(patch, { startLine: 3, endLine: 3, side: "RIGHT" })
+    ).toEqual({ line: 3, side: "RIGHT" })
+  })
+
+  it("anchors a multi-line range within one hunk", () => {
+    expect(
+      anchorToDiff(patch, { startLine: 2, endLine: 3, side: "RIGHT" })
+    ).toEqual({ line: 3, side: "RIGHT", start_line: 2, start_side: "RIGHT" })
+  })
+
+  it("anchors removed lines on the LEFT side", () => {
+    expect(
+      anchorToDiff(patch, { startLine: 2, endLine: 2, side: "LEFT" })
+    ).toEqual({ line: 2, side: "LEFT" })
+  })
+
+  it("narrows a range that extends outside the diff to the visible lines", () => {
+    expect(
+      anchorToDiff(patch, { startLine: 18, endLine: 22, side: "RIGHT" })
+    ).toEqual({ line: 22, side: "RIGHT", start_line: 21, start_side: "RIGHT" })
+  })
+
+  it("returns undefined for lines that aren't in the diff", () => {
+    expect(
+      anchorToDiff(patch, { startLine: 10, endLine: 15, side: "RIGHT" })
+    ).toBeUndefined()
+  })
+})
+
+describe("anchorRangeExactly", () => {
+  it("only anchors ranges that are fully visible in one hunk", () => {
+    expect(anchorRangeExactly(patch, 2, 4)).toEqual({
+      line: 4,
+      side: "RIGHT",
+      start_line: 2,
+      start_side: "RIGHT"
+    })
+    expect(anchorRangeExactly(patch, 18, 22)).toBeUndefined()
+    expect(anchorRangeExactly(patch, 6, 21)).toBeUndefined()
+  })
+})
+
+describe("diffLines", () => {
+  it("finds replaced, inserted and removed lines", () => {
+    expect(diffLines("a\nb\nc\nd\n", "a\nB\nc\nd\ne\n")).toEqual([
+      { startLine: 2, endLine: 2, lines: ["B"] },
+      { startLine: 5, endLine: 4, lines: ["e"] }
+    ])
+    expect(diffLines("a\nb\nc", "a\nc")).toEqual([
+      { startLine: 2, endLine: 2, lines: [] }
+    ])
+    expect(diffLines("a\n", "a\n")).toEqual([])
+  })
+})
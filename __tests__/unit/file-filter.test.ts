@@ -0,0 +1,90 @@
+import {
+  formatExcludedFiles,
+  getContentExclusionReason,
+  getGitAttribute,
+  getPathExclusionReason,
+  matchGlobList,
+  parseGitAttributes
+} from "@/app/api/github-webhook/_lib/file-filter"
+
+const noFilters = { include: [], exclude: [] }
+
+describe("file filter", () => {
+  it("matches globs in order, with negation re-including files", () => {
+    const patterns = ["dist/**", "!dist/keep.js"]
+    expect(matchGlobList("dist/bundle.js", patterns)).toBe("dist/**")
+    expect(matchGlobList("dist/keep.js", patterns)).toBeUndefined()
+    expect(matchGlobList("src/index.ts", patterns)).toBeUndefined()
+  })
+
+  it("excludes files outside of the include globs", () => {
+    const files = { include: ["src/**", "!src/legacy/**"], exclude: [] }
+    expect(getPathExclusionReason("src/a.ts", files, [])).toBeUndefined()
+    expect(getPathExclusionReason("src/legacy/a.ts", files, [])).toBe(
+      "not matched by `files.include`"
+    )
+    expect(getPathExclusionReason("docs/a.md", files, [])).toBe(
+      "not matched by `files.include`"
+    )
+  })
+
+  it("names the exclude pattern that matched", () => {
+    const files = { include: [], exclude: ["**/*.min.js"] }
+    expect(getPathExclusionReason("public/app.min.js", files, [])).toBe(
+      "matches exclude pattern `**/*.min.js`"
+    )
+  })
+
+  it("honors linguist attributes from .gitattributes", () => {
+    const rules = parseGitAttributes(`
+# Generated code
+*.pb.ts linguist-generated=true
+/third_party/** linguist-vendored
+third_party/ours/** -linguist-vendored
+`)
+    expect(
+      getGitAttribute("src/api/user.pb.ts", rules, "linguist-generated")
+    ).toBe(true)
+    expect(
+      getPathExclusionReason("third_party/lib/x.js", noFilters, rules)
+    ).toBe("marked `linguist-vendored` in .gitattributes")
+    expect(
+      getPathExclusionReason("third_party/ours/x.js", noFilters, rules)
+    ).toBeUndefined()
+  })
+
+  it("detects binary files by extension and content", () => {
+    expect(getPathExclusionReason("public/logo.PNG", noFilters, [])).toBe(
+      "binary file"
+    )
+    expect(getContentExclusionReason("GIF89a\u0000\u0001")).toBe("binary file")
+  })
+
+  it("detects generated headers and minified code", () => {
+    expect(
+      getContentExclusionReason("// Code generated by protoc. DO NOT EDIT.\n")
+    ).toBe("generated file (header says so)")
+    expect(getContentExclusionReason(`var a=1;${"b();".repeat(500)}`)).toBe(
+      "minified file"
+    )
+    expect(
+      getContentExclusionReason("export const add = (a, b) => a + b\n")
+    ).toBeUndefined()
+  })
+
+  it("lists excluded files with their reasons, leaving out removed files", () => {
+    const markdown = formatExcludedFiles([
+      { filename: "yarn.lock", status: "modified", excludedReason: "lockfile" },
+      {
+        filename: "old.ts",
+        status: "removed",
+        excludedReason: "file was removed"
+      },
+      { filename: "src/a.ts", status: "modified" }
+    ])
+    expect(markdown).toContain("1 file(s) not analyzed")
+    expect(markdown).toContain("- `yarn.lock`: lockfile")
+    expect(markdown).not.toContain("old.ts")
+    expect(formatExcludedFiles([])).toBe("")
+  })
+})
@@ -0,0 +1,108 @@
+/**
+ * @jest-environment node
+ */
+import {
+  BranchMovedError,
+  commitFiles
+} from "@/app/api/github-webhook/_lib/git-data"
+
+const mockGit = {
+  getRef: jest.fn(),
+  getCommit: jest.fn(),
+  createTree: jest.fn(),
+  createCommit: jest.fn(),
+  updateRef: jest.fn()
+}
+const mockGetContent = jest.fn()
+
+// Read lazily, the mock factory runs before the constants above are initialized
+jest.mock("@/app/api/github-webhook/_lib/github", () => ({
+  octokit: {
+    get git() {
+      return mockGit
+    },
+    repos: { getContent: (...args: any[]) => mockGetContent(...args) }
+  }
+}))
+
+// Files that exist at the head commit
+const existing = new Set(["__tests__/unit/a.test.ts", "tests/old.test.ts"])
+
+const options = {
+  branch: "feature",
+  expectedHeadSha: "head123",
+  title: "Add AI-generated tests for #7",
+  changes: [
+    { filename: "__tests__/unit/a.test.ts", content: "updated" },
+    { filename: "__tests__/unit/b.test.ts", content: "created" },
+    {
+      filename: "tests/new.test.ts",
+      content: "renamed",
+      previousFilename: "tests/old.test.ts"
+    }
+  ]
+}
+
+describe("atomic commits", () => {
+  beforeEach(() => {
+    jest.resetAllMocks()
+    mockGit.getRef.mockResolvedValue({ data: { object: { sha: "head123" } } })
+    mockGit.getCommit.mockResolvedValue({ data: { tree: { sha: "tree123" } } })
+    mockGit.createTree.mockResolvedValue({ data: { sha: "tree456" } })
+    mockGit.createCommit.mockResolvedValue({ data: { sha: "commit456" } })
+    mockGit.updateRef.mockResolvedValue({ data: {} })
+    mockGetContent.mockImplementation(async ({ path }: { path: string }) => {
+      if (existing.has(path)) return { data: { type: "file" } }
+      throw Object.assign(new Error("Not Found"), { status: 404 })
+    })
+  })
+
+  it("puts every file into one tree and one commit", async () => {
+    const summary = await commitFiles("o", "r", options)
+
+    expect(summary).toEqual({
+      sha: "commit456",
+      created: ["__tests__/unit/b.test.ts"],
+      updated: ["__tests__/unit/a.test.ts"],
+      renamed: [{ from: "tests/old.test.ts", to: "tests/new.test.ts" }],
+      deleted: []
+    })
+    expect(mockGit.createTree).toHaveBeenCalledTimes(1)
+    expect(mockGit.createTree.mock.calls[0][0]).toMatchObject({
+      base_tree: "tree123",
+      tree: expect.arrayContaining([
+        expect.objectContaining({ path: "tests/old.test.ts", sha: null })
+      ])
+    })
+    expect(mockGit.createCommit).toHaveBeenCalledWith(
+      expect.objectContaining({
+        parents: ["head123"],
+        message: expect.stringContaining(
+          "Renamed:\n- tests/old.test.ts -> tests/new.test.ts"
+        )
+      })
+    )
+    expect(mockGit.updateRef).toHaveBeenCalledWith(
+      expect.objectContaining({ sha: "commit456", force: false })
+    )
+  })
+
+  it("refuses to commit when the branch already moved", async () => {
+    mockGit.getRef.mockResolvedValue({ data: { object: { sha: "newer" } } })
+
+    await expect(commitFiles("o", "r", options)).rejects.toThrow(
+      BranchMovedError
+    )
+    expect(mockGit.createCommit).not.toHaveBeenCalled()
+  })
+
+  it("doesn't clobber commits pushed while the commit was built", async () => {
+    mockGit.updateRef.mockRejectedValue(
+      Object.assign(new Error("Update is not a fast forward"), { status: 422 })
+    )
+
+    await expect(commitFiles("o", "r", options)).rejects.toThrow(
+      "Branch feature moved from head123"
+    )
+  })
+})
@@ -0,0 +1,142 @@
+/**
+ * @jest-environment node
+ */
+import {
+  handlePullRequestIncremental,
+  PullRequestContext
+} from "@/app/api/github-webhook/_lib/handlers"
+import {
+  anchorFindings,
+  ReviewFinding
+} from "@/app/api/github-webhook/_lib/review-agent"
+
+const mockCompareCommits = jest.fn()
+const mockListPullRequestFiles = jest.fn()
+
+// The config and .gitattributes aren't in the repo; every file reads as "content"
+jest.mock("@/app/api/github-webhook/_lib/github", () => ({
+  compareCommits: (...args: any[]) => mockCompareCommits(...args),
+  listPullRequestFiles: (...args: any[]) => mockListPullRequestFiles(...args),
+  getFileContent: async (_owner: string, _repo: string, path: string) =>
+    path.startsWith(".") ? undefined : "export const value = 1\n"
+}))
+
+// The review agent talks to GitHub and the models through these modules
+jest.mock("@/app/api/github-webhook/_lib/comments", () => ({}))
+jest.mock("@/app/api/github-webhook/_lib/checks", () => ({}))
+jest.mock("@/app/api/github-webhook/_lib/llm", () => ({}))
+
+const file = (filename: string) => ({
+  filename,
+  status: "modified",
+  patch: "@@ -1 +1 @@\n-export const value = 0\n+export const value = 1",
+  additions: 1,
+  deletions: 1
+})
+
+const payload = {
+  repository: { name: "octo-repo", owner: { login: "octo-org" } },
+  pull_request: {
+    number: 42,
+    title: "Add value",
+    head: { ref: "feature", sha: "new1234", repo: { fork: false } },
+    base: { ref: "main" },
+    labels: []
+  }
+}
+
+describe("incremental review context", () => {
+  beforeEach(() => {
+    jest.resetAllMocks()
+  })
+
+  it("leaves out base branch changes merged into the PR", async () => {
+    // The new head merges main, which changed lib/from-main.ts
+    mockCompareCommits.mockResolvedValue({
+      status: "ahead",
+      commits: [{ commit: { message: "Merge branch 'main' into feature" } }],
+      files: [file("lib/feature.ts"), file("lib/from-main.ts")],
+      filesTruncated: false
+    })
+    mockListPullRequestFiles.mockResolvedValue([file("lib/feature.ts")])
+
+    const context = await handlePullRequestIncremental(payload, {
+      headSha: "old1234"
+    })
+
+    expect(context.changedFiles.map(f => f.filename)).toEqual([
+      "lib/feature.ts"
+    ])
+    expect(mockListPullRequestFiles).toHaveBeenCalledWith(
+      "octo-org",
+      "octo-repo",
+      42
+    )
+  })
+})
+
+describe("incremental review comments", () => {
+  // The PR changed lines 2 and 10 against its base; the latest push only line 10
+  const pullRequestPatch =
+    "@@ -1,3 +1,3 @@\n a\n-b\n+B\n c\n@@ -8,3 +8,3 @@\n h\n-i\n+I\n j"
+  const pushPatch = "@@ -4,3 +4,3 @@\n h\n-i2\n+I\n j"
+
+  const context = {
+    changedFiles: [
+      {
+        filename: "lib/a.ts",
+        patch: pushPatch,
+        status: "modified",
+        additions: 1,
+        deletions: 1
+      }
+    ],
+    previousReview: { headSha: "old1234" },
+    pullRequestPatches: { "lib/a.ts": pullRequestPatch }
+  } as unknown as PullRequestContext
+
+  const finding = (overrides: Partial<ReviewFinding>): ReviewFinding => ({
+    path: "lib/a.ts",
+    startLine: 10,
+    endLine: 10,
+    side: "RIGHT",
+    severity: "minor",
+    category: "bug",
+    comment: "Check this.",
+    ...overrides
+  })
+
+  it("anchors new-file lines to the PR's diff against its base", () => {
+    const { comments, unanchored } = anchorFindings(context, [
+      finding({}),
+      // Line 3 is a context line of the PR's diff, but not of the push's
+      finding({ startLine: 3, endLine: 3 })
+    ])
+
+    expect(comments).toEqual([
+      expect.objectContaining({ path: "lib/a.ts", line: 10, side: "RIGHT" }),
+      expect.objectContaining({ path: "lib/a.ts", line: 3, side: "RIGHT" })
+    ])
+    expect(unanchored).toEqual([])
+  })
+
+  it("doesn't anchor old-file lines, which refer to the previous head", () => {
+    const { comments, unanchored } = anchorFindings(context, [
+      finding({ side: "LEFT", startLine: 5, endLine: 5 })
+    ])
+
+    expect(comments).toEqual([])
+    expect(unanchored).toHaveLength(1)
+  })
+
+  it("anchors full reviews to the changed files' own patches", () => {
+    const { comments } = anchorFindings(
+      { ...context, pullRequestPatches: undefined, previousReview: undefined },
+      [finding({ side: "LEFT", startLine: 5, endLine: 5 })]
+    )
+
+    expect(comments).toEqual([
+      expect.objectContaining({ line: 5, side: "LEFT" })
+    ])
+  })
+})
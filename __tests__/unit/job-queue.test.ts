@@ -0,0 +1,89 @@
+/**
+ * @jest-environment node
+ */
+import {
+  AgentJob,
+  createFileJobQueue
+} from "@/app/api/github-webhook/_lib/queue"
+import {
+  getRetryDelayMs,
+  processNextJob
+} from "@/app/api/github-webhook/_lib/worker"
+import { mkdtempSync, rmSync } from "fs"
+import os from "os"
+import path from "path"
+
+// The worker imports the agents, which need GitHub credentials at import time
+jest.mock("@/app/api/github-webhook/_lib/handlers", () => ({}))
+jest.mock("@/app/api/github-webhook/_lib/review-agent", () => ({}))
+jest.mock("@/app/api/github-webhook/_lib/test-agent", () => ({}))
+
+describe("file job queue and worker", () => {
+  let dataDir: string
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(path.join(os.tmpdir(), "agent-queue-"))
+    jest.spyOn(console, "log").mockImplementation(() => {})
+    jest.spyOn(console, "warn").mockImplementation(() => {})
+    jest.spyOn(console, "error").mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    rmSync(dataDir, { recursive: true, force: true })
+  })
+
+  it("persists jobs across queue instances", async () => {
+    const filePath = path.join(dataDir, "jobs.json")
+    const job = await createFileJobQueue(filePath).enqueue({
+      agent: "review",
+      payload: { number: 1 }
+    })
+
+    const claimed = await createFileJobQueue(filePath).claimNext()
+    expect(claimed?.id).toBe(job.id)
+    expect(claimed?.status).toBe("running")
+    expect(claimed?.attempts).toBe(1)
+
+    // A claimed job isn't handed out twice
+    expect(await createFileJobQueue(filePath).claimNext()).toBeUndefined()
+  })
+
+  it("completes jobs whose agent succeeds", async () => {
+    const queue = createFileJobQueue(path.join(dataDir, "jobs.json"))
+    const run = jest.fn(async (_job: AgentJob) => {})
+    await queue.enqueue({ agent: "review", payload: {} })
+
+    await processNextJob(queue, { review: run, "test-generation": run })
+
+    expect(run).toHaveBeenCalledTimes(1)
+    expect(await queue.list("completed")).toHaveLength(1)
+  })
+
+  it("retries failed jobs with backoff, then dead-letters them", async () => {
+    const queue = createFileJobQueue(path.join(dataDir, "jobs.json"))
+    const run = jest.fn(async (_job: AgentJob) => {
+      throw new Error("model timed out")
+    })
+    const runners = { review: run, "test-generation": run }
+    await queue.enqueue({ agent: "review", payload: {}, maxAttempts: 2 })
+
+    // First failure schedules a retry in the future
+    await processNextJob(queue, runners)
+    const [retrying] = await queue.list("queued")
+    expect(retrying.lastError).toBe("model timed out")
+    expect(new Date(retrying.runAt).getTime()).toBeGreaterThan(Date.now())
+    expect(await processNextJob(queue, runners)).toBeUndefined()
+
+    // Once due, the last attempt fails and the job is dead-lettered
+    await queue.claimNext(new Date(Date.now() + getRetryDelayMs(1) + 1000))
+    await queue.fail(retrying.id, "model timed out")
+    expect(await queue.list("dead")).toHaveLength(1)
+  })
+
+  it("grows the retry delay exponentially up to a cap", () => {
+    expect(getRetryDelayMs(1)).toBe(30000)
+    expect(getRetryDelayMs(2)).toBe(60000)
+    expect(getRetryDelayMs(3)).toBe(120000)
+    expect(getRetryDelayMs(20)).toBe(30 * 60 * 1000)
+  })
+})
@@ -0,0 +1,177 @@
+/**
+ * @jest-environment node
+ */
+import { APICallError, generateText, RetryError } from "ai"
+import {
+  classifyLLMError,
+  describeLLMError,
+  getLLMRetryDelayMs,
+  runWithPromptShrinking,
+  withCallPolicy
+} from "@/app/api/github-webhook/_lib/llm-call"
+
+const apiError = (
+  statusCode: number,
+  message: string,
+  responseHeaders?: Record<string, string>
+) =>
+  new APICallError({
+    message,
+    url: "https://llm.example.com/v1/chat/completions",
+    requestBodyValues: {},
+    statusCode,
+    responseHeaders,
+    isRetryable: statusCode === 429 || statusCode >= 500
+  })
+
+const timeoutError = () =>
+  new DOMException("The operation was aborted due to timeout", "TimeoutError")
+
+const modelWith = (doGenerate: (options: any) => Promise<any>) =>
+  ({
+    specificationVersion: "v1",
+    provider: "test",
+    modelId: "test-model",
+    defaultObjectGenerationMode: undefined,
+    doGenerate: jest.fn(doGenerate),
+    doStream: jest.fn()
+  }) as any
+
+const answer = {
+  text: "hello",
+  finishReason: "stop",
+  usage: { promptTokens: 1, completionTokens: 1 },
+  rawCall: { rawPrompt: null, rawSettings: {} }
+}
+
+describe("LLM call policy", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "warn").mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it("classifies errors by what can be done about them", () => {
+    expect(classifyLLMError(apiError(429, "Too Many Requests"))).toBe(
+      "transient"
+    )
+    expect(classifyLLMError(apiError(503, "Service Unavailable"))).toBe(
+      "transient"
+    )
+    expect(classifyLLMError(timeoutError())).toBe("transient")
+    expect(classifyLLMError(apiError(401, "Incorrect API key provided"))).toBe(
+      "auth"
+    )
+    expect(
+      classifyLLMError(new Error("Missing OPENAI_API_KEY for OpenAI usage."))
+    ).toBe("auth")
+    expect(
+      classifyLLMError(
+        apiError(
+          400,
+          "This model's maximum context length is 8192 tokens. However, your messages resulted in 9000 tokens."
+        )
+      )
+    ).toBe("context-length")
+    expect(
+      classifyLLMError(apiError(400, "Invalid value for temperature"))
+    ).toBe("other")
+    expect(
+      classifyLLMError(
+        new RetryError({
+          message: "Failed after 3 attempts",
+          reason: "maxRetriesExceeded",
+          errors: [apiError(500, "Internal Server Error")]
+        })
+      )
+    ).toBe("transient")
+    expect(describeLLMError(new Error("boom"))).toBeUndefined()
+  })
+
+  it("backs off exponentially unless the provider says how long to wait", () => {
+    expect(getLLMRetryDelayMs(apiError(503, "Unavailable"), 0)).toBe(2000)
+    expect(getLLMRetryDelayMs(apiError(503, "Unavailable"), 2)).toBe(8000)
+    expect(
+      getLLMRetryDelayMs(
+        apiError(429, "Rate limited", { "retry-after": "7" }),
+        0
+      )
+    ).toBe(7000)
+    expect(getLLMRetryDelayMs(apiError(401, "Unauthorized"), 0)).toBeUndefined()
+    expect(getLLMRetryDelayMs(timeoutError(), 0)).toBeUndefined()
+  })
+
+  it("retries transient errors and returns the answer", async () => {
+    const model = modelWith(async () => answer)
+    model.doGenerate
+      .mockRejectedValueOnce(
+        apiError(429, "Rate limited", { "retry-after-ms": "1" })
+      )
+      .mockRejectedValueOnce(
+        apiError(502, "Bad Gateway", { "retry-after-ms": "1" })
+      )
+
+    const { text } = await generateText({
+      model: withCallPolicy(model, { timeoutMs: 1000 }),
+      prompt: "hi",
+      maxRetries: 0
+    })
+    expect(text).toBe("hello")
+    expect(model.doGenerate).toHaveBeenCalledTimes(3)
+  })
+
+  it("gives up on calls that time out without retrying them", async () => {
+    // Never answers unless the call is aborted
+    const model = modelWith(
+      ({ abortSignal }) =>
+        new Promise((_, reject) =>
+          abortSignal.addEventListener("abort", () =>
+            reject(abortSignal.reason)
+          )
+        )
+    )
+
+    await expect(
+      generateText({
+        model: withCallPolicy(model, { timeoutMs: 10 }),
+        prompt: "hi",
+        maxRetries: 0
+      })
+    ).rejects.toThrow("timeout")
+    expect(model.doGenerate).toHaveBeenCalledTimes(1)
+  })
+
+  it("doesn't retry auth errors", async () => {
+    const model = modelWith(async () => {
+      throw apiError(401, "Incorrect API key provided")
+    })
+
+    await expect(
+      generateText({
+        model: withCallPolicy(model, { timeoutMs: 1000 }),
+        prompt: "hi",
+        maxRetries: 0
+      })
+    ).rejects.toThrow("Incorrect API key")
+    expect(model.doGenerate).toHaveBeenCalledTimes(1)
+  })
+
+  it("shrinks prompts that are too long for the model", async () => {
+    const run = jest
+      .fn()
+      .mockRejectedValueOnce(apiError(400, "prompt is too long: 210000 tokens"))
+      .mockRejectedValueOnce(apiError(413, "Payload Too Large"))
+      .mockResolvedValueOnce("done")
+
+    await expect(runWithPromptShrinking("review", run)).resolves.toBe("done")
+    expect(run.mock.calls).toEqual([[1], [0.5], [0.25]])
+
+    const failing = jest.fn().mockRejectedValue(apiError(401, "Unauthorized"))
+    await expect(runWithPromptShrinking("review", failing)).rejects.toThrow(
+      "Unauthorized"
+    )
+    expect(failing).toHaveBeenCalledTimes(1)
+  })
+})
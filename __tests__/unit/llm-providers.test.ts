@@ -0,0 +1,94 @@
+/**
+ * @jest-environment node
+ */
+import { getContextWindow } from "@/app/api/github-webhook/_lib/context-builder"
+import {
+  getLLMModel,
+  getModelCapabilities,
+  registerLLMProvider,
+  resolveModelName
+} from "@/app/api/github-webhook/_lib/llm"
+import { supportsStructuredOutput } from "@/app/api/github-webhook/_lib/structured-output"
+
+describe("LLM provider registry", () => {
+  const env = process.env
+
+  beforeEach(() => {
+    process.env = { ...env }
+    delete process.env.LLM_PROVIDER
+    delete process.env.LLM_MODEL
+    delete process.env.LLM_BASE_URL
+    delete process.env.LLM_CONTEXT_WINDOW
+    delete process.env.LLM_STRUCTURED_OUTPUT
+  })
+
+  afterAll(() => {
+    process.env = env
+  })
+
+  it("picks the provider from a model name prefix or LLM_PROVIDER", () => {
+    process.env.LLM_PROVIDER = "anthropic"
+
+    expect(resolveModelName("ollama:qwen2.5-coder:32b")).toMatchObject({
+      provider: { name: "ollama" },
+      modelId: "qwen2.5-coder:32b"
+    })
+    // "llama3" isn't a provider, so the colon belongs to the model ID
+    expect(resolveModelName("llama3:8b")).toMatchObject({
+      provider: { name: "anthropic" },
+      modelId: "llama3:8b"
+    })
+
+    process.env.LLM_PROVIDER = "nope"
+    expect(() => resolveModelName()).toThrow('Unknown LLM_PROVIDER "nope"')
+  })
+
+  it("talks to local OpenAI-compatible servers with their declared capabilities", () => {
+    process.env.LLM_PROVIDER = "ollama"
+    process.env.LLM_MODEL = "qwen2.5-coder:7b"
+
+    const model = getLLMModel()
+
+    expect(model.modelId).toBe("qwen2.5-coder:7b")
+    expect(model.provider).toContain("ollama")
+    expect(getModelCapabilities(model)).toEqual({
+      contextWindow: 4096,
+      structuredOutput: true,
+      toolCalling: false
+    })
+    expect(getContextWindow(model)).toBe(4096)
+    // The same model ID served by another provider is a different model
+    expect(
+      getModelCapabilities({ provider: "openai.chat", modelId: model.modelId })
+    ).toBeUndefined()
+    expect(supportsStructuredOutput(model)).toBe(true)
+
+    // A model without JSON mode or tool calls gets the XML prompts
+    process.env.LLM_STRUCTURED_OUTPUT = "false"
+    expect(supportsStructuredOutput(getLLMModel("vllm:my-model"))).toBe(false)
+    expect(() => getLLMModel("openai-compatible:my-model")).toThrow(
+      "Missing LLM_BASE_URL for the openai-compatible provider."
+    )
+  })
+
+  it("accepts providers registered at runtime", () => {
+    const createModel = jest.fn(
+      (modelId: string) => ({ modelId, provider: "custom" }) as any
+    )
+    registerLLMProvider({
+      name: "custom",
+      defaultModel: "house-model",
+      capabilities: () => ({
+        contextWindow: 65536,
+        structuredOutput: false,
+        toolCalling: true
+      }),
+      createModel
+    })
+
+    const model = getLLMModel("custom:")
+
+    expect(createModel).toHaveBeenCalledWith("house-model")
+    expect(getContextWindow(model)).toBe(65536)
+  })
+})
@@ -0,0 +1,103 @@
+/**
+ * @jest-environment node
+ */
+import { parseConfig } from "@/app/api/github-webhook/_lib/config"
+import {
+  getModelChain,
+  runWithModelFallback
+} from "@/app/api/github-webhook/_lib/model-router"
+
+const mockGetLLMModel = jest.fn()
+
+// The config module reads files through the GitHub client
+jest.mock("@/app/api/github-webhook/_lib/github", () => ({
+  getFileContent: jest.fn()
+}))
+
+jest.mock("@/app/api/github-webhook/_lib/llm", () => ({
+  getLLMModel: (...args: any[]) => mockGetLLMModel(...args),
+  getModelCapabilities: () => undefined
+}))
+
+const fakeModel = {
+  specificationVersion: "v1",
+  provider: "test",
+  defaultObjectGenerationMode: undefined,
+  doGenerate: jest.fn(),
+  doStream: jest.fn()
+} as any
+
+describe("model routing", () => {
+  beforeEach(() => {
+    jest.resetAllMocks()
+    mockGetLLMModel.mockImplementation((name?: string) => ({
+      ...fakeModel,
+      modelId: name ?? "default"
+    }))
+    jest.spyOn(console, "warn").mockImplementation(() => {})
+  })
+
+  it("routes steps to their own models, then to their agent's", () => {
+    const { models } = parseConfig(`
+models:
+  testGeneration: [gpt-4o, ollama:qwen2.5-coder:32b]
+  steps:
+    testGating: gpt-4o-mini
+`)
+    expect(getModelChain(models, "testGating")).toEqual(["gpt-4o-mini"])
+    expect(getModelChain(models, "testRepair")).toEqual([
+      "gpt-4o",
+      "ollama:qwen2.5-coder:32b"
+    ])
+    expect(getModelChain(models, "reviewSummary")).toEqual([undefined])
+    expect(models.timeoutSeconds).toBe(300)
+  })
+
+  it("falls back to the next model when one fails", async () => {
+    const config = parseConfig("models:\n  review: [primary, backup]")
+    const run = jest
+      .fn()
+      .mockRejectedValueOnce(new Error("503 Service Unavailable"))
+      .mockResolvedValueOnce("review")
+
+    await expect(runWithModelFallback(config, "review", run)).resolves.toBe(
+      "review"
+    )
+    expect(run.mock.calls.map(([model]) => model.modelId)).toEqual([
+      "primary",
+      "backup"
+    ])
+  })
+
+  it("shrinks the prompt before giving up on a model", async () => {
+    const config = parseConfig("models:\n  review: [primary, backup]")
+    const run = jest
+      .fn()
+      .mockRejectedValueOnce(
+        new Error("This model's maximum context length is 4096 tokens")
+      )
+      .mockResolvedValueOnce("review")
+
+    await expect(runWithModelFallback(config, "review", run)).resolves.toBe(
+      "review"
+    )
+    expect(
+      run.mock.calls.map(([model, scale]) => [model.modelId, scale])
+    ).toEqual([
+      ["primary", 1],
+      ["primary", 0.5]
+    ])
+  })
+
+  it("throws the last error when every model fails", async () => {
+    const config = parseConfig("models:\n  review: [primary, backup]")
+    const run = jest
+      .fn()
+      .mockRejectedValueOnce(new Error("first"))
+      .mockRejectedValueOnce(new Error("second"))
+
+    await expect(runWithModelFallback(config, "review", run)).rejects.toThrow(
+      "second"
+    )
+  })
+})
@@ -0,0 +1,115 @@
+/**
+ * @jest-environment node
+ */
+import {
+  formatMutationScores,
+  generateMutants,
+  runMutationTests
+} from "@/app/api/github-webhook/_lib/mutation"
+
+const mockRunCommand = jest.fn()
+const mockWriteWorkspaceFiles = jest.fn()
+
+jest.mock("@/app/api/github-webhook/_lib/sandbox", () => ({
+  ...jest.requireActual("@/app/api/github-webhook/_lib/sandbox"),
+  runCommand: (...args: any[]) => mockRunCommand(...args),
+  writeWorkspaceFiles: (...args: any[]) => mockWriteWorkspaceFiles(...args)
+}))
+
+const source = `export function clamp(value: number, max: number) {
+  if (value > max) {
+    log("clamped")
+    return max
+  }
+  return value
+}
+
+export function untouched(flag: boolean) {
+  return flag ? 1 : 2
+}
+`
+
+describe("mutation testing", () => {
+  beforeEach(() => {
+    jest.resetAllMocks()
+  })
+
+  it("mutates only the functions with changed lines, changed lines first", () => {
+    const mutants = generateMutants("lib/clamp.ts", source, [4], 10)
+
+    expect(
+      mutants.map(({ kind, line, description }) => ({
+        kind,
+        line,
+        description
+      }))
+    ).toEqual([
+      {
+        kind: "alter-return",
+        line: 4,
+        description: "returned undefined instead of `max`"
+      },
+      {
+        kind: "flip-conditional",
+        line: 2,
+        description: "negated `value > max`"
+      },
+      {
+        kind: "drop-call",
+        line: 3,
+        description: 'removed the call `log("clamped")`'
+      },
+      {
+        kind: "alter-return",
+        line: 6,
+        description: "returned undefined instead of `value`"
+      }
+    ])
+    expect(mutants[1].content).toContain("if (!(value > max)) {")
+    expect(mutants[2].content).toContain("    ;\n    return max")
+    expect(generateMutants("lib/clamp.ts", source, [4], 2)).toHaveLength(2)
+  })
+
+  it("counts the mutants each test kills and the ones that survive", async () => {
+    // The first test fails on every mutant, the second never does
+    mockRunCommand.mockImplementation(
+      async (_command: string, args: string[]) => ({
+        exitCode: args.includes("__tests__/unit/strict.test.ts") ? 1 : 0,
+        output: "",
+        timedOut: false
+      })
+    )
+
+    const report = await runMutationTests(
+      "/work",
+      [{ filename: "lib/clamp.ts", content: source, changedLines: [2] }],
+      [
+        { filename: "__tests__/unit/strict.test.ts", runner: "jest" },
+        { filename: "__tests__/unit/loose.test.ts", runner: "jest" }
+      ],
+      { maxMutantsPerFile: 10, timeoutMs: 1000 }
+    )
+
+    expect(report.kills).toEqual(
+      new Map([
+        ["__tests__/unit/strict.test.ts", 4],
+        ["__tests__/unit/loose.test.ts", 0]
+      ])
+    )
+    expect(report.scores).toEqual([
+      expect.objectContaining({
+        filename: "lib/clamp.ts",
+        killed: 4,
+        total: 4,
+        survivors: []
+      })
+    ])
+    // The original source is put back at the end
+    expect(mockWriteWorkspaceFiles).toHaveBeenLastCalledWith("/work", [
+      { filename: "lib/clamp.ts", content: source }
+    ])
+    expect(formatMutationScores(report.scores)).toContain(
+      "| `lib/clamp.ts` | 4/4 | 100% |"
+    )
+  })
+})
@@ -0,0 +1,100 @@
+import {
+  getPrimaryRateLimitDelayMs,
+  getRateLimitRetryDelayMs,
+  installRateLimitHandling
+} from "@/app/api/github-webhook/_lib/rate-limit"
+
+const now = Date.UTC(2025, 0, 1, 12, 0, 0)
+const resetIn = (seconds: number) => String(now / 1000 + seconds)
+
+const rateLimitError = (
+  status: number,
+  headers: Record<string, string>,
+  message = "Forbidden"
+) => Object.assign(new Error(message), { status, response: { headers } })
+
+describe("GitHub rate limits", () => {
+  it("pauses when the primary rate limit is nearly used up", () => {
+    expect(
+      getPrimaryRateLimitDelayMs(
+        { "x-ratelimit-remaining": "4000", "x-ratelimit-reset": resetIn(60) },
+        now
+      )
+    ).toBe(0)
+    expect(
+      getPrimaryRateLimitDelayMs(
+        { "x-ratelimit-remaining": "3", "x-ratelimit-reset": resetIn(60) },
+        now
+      )
+    ).toBe(60000)
+    expect(getPrimaryRateLimitDelayMs({}, now)).toBe(0)
+  })
+
+  it("retries secondary rate limits after retry-after or with backoff", () => {
+    expect(
+      getRateLimitRetryDelayMs(rateLimitError(403, { "retry-after": "30" }), 0)
+    ).toBe(30000)
+    expect(
+      getRateLimitRetryDelayMs(
+        rateLimitError(403, {}, "You have exceeded a secondary rate limit"),
+        2
+      )
+    ).toBe(240000)
+    expect(
+      getRateLimitRetryDelayMs(
+        rateLimitError(403, {
+          "x-ratelimit-remaining": "0",
+          "x-ratelimit-reset": resetIn(10)
+        }),
+        0,
+        now
+      )
+    ).toBe(10000)
+  })
+
+  it("doesn't treat other errors as rate limits", () => {
+    expect(
+      getRateLimitRetryDelayMs(
+        rateLimitError(403, {}, "Resource not accessible"),
+        0
+      )
+    ).toBeUndefined()
+    expect(getRateLimitRetryDelayMs(rateLimitError(404, {}), 0)).toBeUndefined()
+  })
+
+  it("retries a request that hit a secondary rate limit", async () => {
+    let wrapped: any
+    installRateLimitHandling({
+      hook: { wrap: (_name: string, fn: any) => (wrapped = fn) }
+    } as any)
+
+    const request = jest
+      .fn()
+      .mockRejectedValueOnce(rateLimitError(429, { "retry-after": "0" }))
+      .mockResolvedValueOnce({ status: 200, headers: {}, data: "ok" })
+
+    const response = await wrapped(request, { method: "GET", url: "/x" })
+    expect(response.data).toBe("ok")
+    expect(request).toHaveBeenCalledTimes(2)
+  })
+
+  it("doesn't wait or retry requests that opted out", async () => {
+    let wrapped: any
+    installRateLimitHandling({
+      hook: { wrap: (_name: string, fn: any) => (wrapped = fn) }
+    } as any)
+
+    const request = jest
+      .fn()
+      .mockRejectedValueOnce(rateLimitError(429, { "retry-after": "0" }))
+
+    await expect(
+      wrapped(request, {
+        method: "GET",
+        url: "/x",
+        request: { rateLimitWait: false }
+      })
+    ).rejects.toMatchObject({ status: 429 })
+    expect(request).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,115 @@
+/**
+ * @jest-environment node
+ */
+import { mapWithConcurrency } from "@/app/api/github-webhook/_lib/concurrency"
+import {
+  dedupeFindings,
+  mergeReviews,
+  reviewBatches,
+  ReviewFinding
+} from "@/app/api/github-webhook/_lib/review-agent"
+import { determineReviewEvent } from "@/app/api/github-webhook/_lib/severity"
+
+// The review agent talks to GitHub through these modules
+jest.mock("@/app/api/github-webhook/_lib/github", () => ({ octokit: {} }))
+jest.mock("@/app/api/github-webhook/_lib/comments", () => ({}))
+jest.mock("@/app/api/github-webhook/_lib/checks", () => ({}))
+jest.mock("@/app/api/github-webhook/_lib/handlers", () => ({}))
+jest.mock("@/app/api/github-webhook/_lib/llm", () => ({}))
+
+const finding = (overrides: Partial<ReviewFinding>): ReviewFinding => ({
+  path: "lib/a.ts",
+  startLine: 10,
+  endLine: 12,
+  side: "RIGHT",
+  severity: "minor",
+  category: "bug",
+  comment: "Possible null dereference.",
+  ...overrides
+})
+
+describe("batched review", () => {
+  it("keeps the most severe of overlapping findings", () => {
+    const findings = dedupeFindings([
+      finding({ severity: "minor" }),
+      finding({ severity: "major", startLine: 12, endLine: 14 }),
+      finding({ startLine: 30, endLine: 30 }),
+      finding({ category: "style" })
+    ])
+    expect(findings).toEqual([
+      finding({ severity: "major", startLine: 12, endLine: 14 }),
+      finding({ startLine: 30, endLine: 30 }),
+      finding({ category: "style" })
+    ])
+  })
+
+  it("merges batch reviews and drops repeated suggestions", () => {
+    const merged = mergeReviews([
+      {
+        summary: "Part one",
+        fileAnalyses: [{ path: "lib/a.ts", analysis: "ok" }],
+        overallSuggestions: ["Add tests"],
+        findings: [finding({})]
+      },
+      {
+        summary: "Part two",
+        fileAnalyses: [{ path: "lib/b.ts", analysis: "ok" }],
+        overallSuggestions: ["add tests ", "Document the API"],
+        findings: [finding({ severity: "nit" })]
+      }
+    ])
+    expect(merged.fileAnalyses.map(f => f.path)).toEqual([
+      "lib/a.ts",
+      "lib/b.ts"
+    ])
+    expect(merged.overallSuggestions).toEqual(["Add tests", "Document the API"])
+    expect(merged.findings).toEqual([finding({})])
+  })
+
+  it("marks the merged review incomplete when a batch fails", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => {})
+    const batches = [
+      [{ filename: "lib/a.ts" }],
+      [{ filename: "lib/b.ts" }]
+    ] as any[]
+    const reviews = await reviewBatches(batches, 2, async (_, i) => {
+      if (i === 1) throw new Error("503 Service Unavailable")
+      return {
+        summary: "Part one",
+        fileAnalyses: [{ path: "lib/a.ts", analysis: "ok" }],
+        overallSuggestions: [],
+        findings: []
+      }
+    })
+
+    const merged = mergeReviews(reviews)
+    expect(reviews[1].summary).toBe("Files `lib/b.ts` could not be reviewed.")
+    expect(merged.incomplete).toBe(true)
+    expect(
+      determineReviewEvent(merged.findings, "blocker", !merged.incomplete)
+    ).toBe("COMMENT")
+  })
+
+  it("fails the review when every batch fails", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => {})
+    await expect(
+      reviewBatches([[{ filename: "lib/a.ts" }]] as any[], 1, async () => {
+        throw new Error("401 Unauthorized")
+      })
+    ).rejects.toThrow("401 Unauthorized")
+  })
+
+  it("runs at most the given number of tasks at once, keeping result order", async () => {
+    let running = 0
+    let maxRunning = 0
+    const results = await mapWithConcurrency([30, 10, 20, 5], 2, async ms => {
+      running++
+      maxRunning = Math.max(maxRunning, running)
+      await new Promise(resolve => setTimeout(resolve, ms))
+      running--
+      return ms * 2
+    })
+    expect(results).toEqual([60, 20, 40, 10])
+    expect(maxRunning).toBe(2)
+  })
+})
@@ -0,0 +1,57 @@
+import {
+  determineReviewEvent,
+  formatFindingLabel,
+  getWorstSeverity,
+  parseCategory,
+  parseSeverity
+} from "@/app/api/github-webhook/_lib/severity"
+
+describe("review severity", () => {
+  it("normalizes severities and categories from the AI output", () => {
+    expect(parseSeverity(" Major ")).toBe("major")
+    expect(parseSeverity("critical")).toBe("minor")
+    expect(parseCategory("Test Gap")).toBe("test-gap")
+    expect(parseCategory("security")).toBe("security")
+    expect(parseCategory(undefined)).toBe("bug")
+  })
+
+  it("finds the worst severity", () => {
+    expect(getWorstSeverity([{ severity: "nit" }, { severity: "major" }])).toBe(
+      "major"
+    )
+    expect(getWorstSeverity([])).toBeUndefined()
+  })
+
+  it("approves when there are no findings", () => {
+    expect(determineReviewEvent([], "blocker")).toBe("APPROVE")
+  })
+
+  it("only comments when a review without findings can't approve", () => {
+    expect(determineReviewEvent([], "blocker", false)).toBe("COMMENT")
+    expect(
+      determineReviewEvent([{ severity: "blocker" }], "blocker", false)
+    ).toBe("REQUEST_CHANGES")
+  })
+
+  it("requests changes when a finding reaches the blocking severity", () => {
+    const findings = [
+      { severity: "nit" as const },
+      { severity: "major" as const }
+    ]
+    expect(determineReviewEvent(findings, "major")).toBe("REQUEST_CHANGES")
+    expect(determineReviewEvent(findings, "minor")).toBe("REQUEST_CHANGES")
+    expect(determineReviewEvent(findings, "blocker")).toBe("COMMENT")
+  })
+
+  it("never requests changes when blocking is disabled", () => {
+    expect(determineReviewEvent([{ severity: "blocker" }], "none")).toBe(
+      "COMMENT"
+    )
+  })
+
+  it("labels findings with severity and category", () => {
+    expect(
+      formatFindingLabel({ severity: "blocker", category: "security" })
+    ).toBe("🔴 blocker · security")
+  })
+})
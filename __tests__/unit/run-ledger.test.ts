@@ -0,0 +1,143 @@
+/**
+ * @jest-environment node
+ */
+import {
+  cancelSupersededRuns,
+  claimDelivery,
+  createRunGuard,
+  getPreviousCompletedRun,
+  getRun,
+  RunCancelledError,
+  setRunCheckRunId,
+  setRunCommentId,
+  setRunDelivered,
+  startRun,
+  updateRunStatus
+} from "@/app/api/github-webhook/_lib/ledger"
+import { mkdtempSync, rmSync } from "fs"
+import os from "os"
+import path from "path"
+
+const pull = {
+  owner: "octo-org",
+  repo: "octo-repo",
+  pullNumber: 7,
+  agent: "review" as const
+}
+
+describe("delivery and run ledger", () => {
+  let dataDir: string
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(path.join(os.tmpdir(), "agent-ledger-"))
+    process.env.AGENT_DATA_DIR = dataDir
+  })
+
+  afterEach(() => {
+    rmSync(dataDir, { recursive: true, force: true })
+    delete process.env.AGENT_DATA_DIR
+  })
+
+  it("accepts a delivery ID only once", async () => {
+    const delivery = { deliveryId: "abc", event: "pull_request" }
+    expect(await claimDelivery(delivery)).toBe(true)
+    expect(await claimDelivery(delivery)).toBe(false)
+  })
+
+  it("deduplicates runs for the same PR, head commit and agent", async () => {
+    const first = await startRun({ ...pull, headSha: "aaa1111" })
+    const second = await startRun({ ...pull, headSha: "aaa1111" })
+    expect(first.duplicate).toBe(false)
+    expect(second.duplicate).toBe(true)
+    expect(second.run.id).toBe(first.run.id)
+
+    // Other agents for the same commit are independent
+    const tests = await startRun({
+      ...pull,
+      agent: "test-generation",
+      headSha: "aaa1111"
+    })
+    expect(tests.duplicate).toBe(false)
+  })
+
+  it("allows a new run for a commit whose previous run failed", async () => {
+    const first = await startRun({ ...pull, headSha: "aaa1111" })
+    await updateRunStatus(first.run.id, "failed")
+    expect((await startRun({ ...pull, headSha: "aaa1111" })).duplicate).toBe(
+      false
+    )
+  })
+
+  it("cancels in-flight runs when a newer commit arrives", async () => {
+    const old = await startRun({ ...pull, headSha: "aaa1111" })
+    await updateRunStatus(old.run.id, "running")
+    const guard = createRunGuard(old.run.id)
+    await expect(guard.throwIfCancelled()).resolves.toBeUndefined()
+
+    await startRun({ ...pull, headSha: "bbb2222" })
+
+    expect((await getRun(old.run.id))?.status).toBe("cancelled")
+    await expect(guard.throwIfCancelled()).rejects.toBeInstanceOf(
+      RunCancelledError
+    )
+
+    // A late status update from the superseded worker doesn't resurrect it
+    await updateRunStatus(old.run.id, "completed")
+    expect((await getRun(old.run.id))?.status).toBe("cancelled")
+  })
+
+  it("cancels every agent's in-flight runs for older commits on a new push", async () => {
+    const review = await startRun({ ...pull, headSha: "aaa1111" })
+    await updateRunStatus(review.run.id, "completed")
+    const tests = await startRun({
+      ...pull,
+      agent: "test-generation",
+      headSha: "aaa1111"
+    })
+    await updateRunStatus(tests.run.id, "running")
+
+    // The push only starts a review, which doesn't supersede the test generation run
+    const newReview = await startRun({ ...pull, headSha: "bbb2222" })
+    expect((await getRun(tests.run.id))?.status).toBe("running")
+
+    expect(
+      await cancelSupersededRuns({
+        owner: pull.owner,
+        repo: pull.repo,
+        pullNumber: pull.pullNumber,
+        headSha: "bbb2222"
+      })
+    ).toBe(1)
+    expect((await getRun(tests.run.id))?.status).toBe("cancelled")
+    expect((await getRun(tests.run.id))?.cancelReason).toBe(
+      "Superseded by bbb2222"
+    )
+    // Runs for the new commit and finished runs are left alone
+    expect((await getRun(newReview.run.id))?.status).toBe("pending")
+    expect((await getRun(review.run.id))?.status).toBe("completed")
+  })
+
+  it("finds the previous completed review to build an incremental review on", async () => {
+    const first = await startRun({ ...pull, headSha: "aaa1111" })
+    await updateRunStatus(first.run.id, "completed")
+    await setRunCommentId(first.run.id, 42)
+
+    const second = await startRun({ ...pull, headSha: "bbb2222" })
+    const previous = await getPreviousCompletedRun(second.run.id)
+
+    expect(previous?.headSha).toBe("aaa1111")
+    expect(previous?.commentId).toBe(42)
+  })
+
+  it("remembers what a run posted so a retried job can reuse it", async () => {
+    const { run } = await startRun({ ...pull, headSha: "ccc3333" })
+    await setRunCommentId(run.id, 7)
+    await setRunCheckRunId(run.id, 99)
+    await setRunDelivered(run.id)
+
+    const stored = await getRun(run.id)
+    expect(stored?.commentId).toBe(7)
+    expect(stored?.checkRunId).toBe(99)
+    expect(stored?.deliveredAt).toBeDefined()
+  })
+})
@@ -0,0 +1,170 @@
+/**
+ * @jest-environment node
+ */
+import { existsSync } from "fs"
+import { chmod, mkdtemp } from "fs/promises"
+import os from "os"
+import path from "path"
+import {
+  getTestCommand,
+  isPathInsideRepo,
+  parseTypeErrors,
+  removeWorkspace,
+  runCommand,
+  verifyTestFiles,
+  writeWorkspaceFiles
+} from "@/app/api/github-webhook/_lib/sandbox"
+
+describe("test sandbox", () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "sandbox-test-"))
+  })
+
+  afterEach(async () => {
+    await removeWorkspace(dir)
+  })
+
+  it("runs commands without the agent's secrets", async () => {
+    process.env.OPENAI_API_KEY = "sk-secret"
+    const result = await runCommand(
+      "node",
+      ["-e", "console.log(process.env.OPENAI_API_KEY ?? 'no key')"],
+      { cwd: dir, timeoutMs: 10000 }
+    )
+    delete process.env.OPENAI_API_KEY
+
+    expect(result.exitCode).toBe(0)
+    expect(result.output.trim()).toBe("no key")
+  })
+
+  it("gives each command a throwaway home directory", async () => {
+    const result = await runCommand(
+      "node",
+      ["-e", "console.log(require('os').homedir())"],
+      { cwd: dir, timeoutMs: 10000 }
+    )
+
+    const home = result.output.trim()
+    expect(home).not.toBe(os.homedir())
+    expect(existsSync(home)).toBe(false)
+  })
+
+  it("kills everything a command started when it times out", async () => {
+    // The background sleep holds the output open long after the shell is killed
+    const started = Date.now()
+    const result = await runCommand("sh", ["-c", "sleep 30 & wait"], {
+      cwd: dir,
+      timeoutMs: 200
+    })
+
+    expect(result.timedOut).toBe(true)
+    expect(result.exitCode).not.toBe(0)
+    expect(Date.now() - started).toBeLessThan(4000)
+  })
+
+  it("refuses paths outside of the repository", async () => {
+    expect(isPathInsideRepo("__tests__/unit/a.test.ts")).toBe(true)
+    expect(isPathInsideRepo("__tests__/../../etc/passwd")).toBe(false)
+    expect(isPathInsideRepo("/etc/passwd")).toBe(false)
+    await expect(
+      writeWorkspaceFiles(dir, [{ filename: "../escape.ts", content: "" }])
+    ).rejects.toThrow("outside of the workspace")
+  })
+
+  it("attributes tsc errors to the generated files", () => {
+    const output = [
+      "__tests__/unit/a.test.ts(3,7): error TS2304: Cannot find name 'x'.",
+      "lib/other.ts(1,1): error TS1005: ';' expected.",
+      "__tests__/unit/a.test.ts(9,1): error TS2322: Type 'string' is not assignable to type 'number'."
+    ].join("\n")
+    const errors = parseTypeErrors(output, [
+      "__tests__/unit/a.test.ts",
+      "__tests__/unit/b.test.ts"
+    ])
+    expect(errors.get("__tests__/unit/a.test.ts")).toHaveLength(2)
+    expect(errors.has("__tests__/unit/b.test.ts")).toBe(false)
+  })
+
+  it("runs a single file with the configured runner", () => {
+    expect(getTestCommand("__tests__/unit/a.test.ts", "jest")).toEqual([
+      "npx",
+      [
+        "--no-install",
+        "jest",
+        "--ci",
+        "--coverage=false",
+        "--runTestsByPath",
+        "__tests__/unit/a.test.ts"
+      ]
+    ])
+  })
+
+  it("reports which test files pass and which fail", async () => {
+    await writeWorkspaceFiles(dir, [
+      {
+        filename: "tests/pass.test.mjs",
+        content: 'import test from "node:test"\ntest("ok", () => {})\n'
+      },
+      {
+        filename: "tests/fail.test.mjs",
+        content:
+          'import test from "node:test"\ntest("broken", () => { throw new Error("boom") })\n'
+      }
+    ])
+
+    const results = await verifyTestFiles(
+      dir,
+      [
+        { filename: "tests/pass.test.mjs", runner: "node-test" },
+        { filename: "tests/fail.test.mjs", runner: "node-test" }
+      ],
+      30000
+    )
+
+    expect(results[0]).toEqual({
+      filename: "tests/pass.test.mjs",
+      passed: true
+    })
+    expect(results[1]).toMatchObject({
+      filename: "tests/fail.test.mjs",
+      passed: false,
+      reason: "tests failed"
+    })
+    expect(results[1].output).toContain("boom")
+  })
+
+  it("finds the generated files' type errors behind a long list of existing ones", async () => {
+    // A stand-in tsc that reports the generated file first, then >8000 characters of unrelated errors
+    const unrelated = Array.from(
+      { length: 300 },
+      (_, i) => `lib/legacy${i}.ts(1,1): error TS2304: Cannot find name 'y'.`
+    )
+    await writeWorkspaceFiles(dir, [
+      { filename: "tsconfig.json", content: "{}" },
+      {
+        filename: "__tests__/unit/a.test.ts",
+        content: "const n: number = x\n"
+      },
+      {
+        filename: "node_modules/.bin/tsc",
+        content: `#!/bin/sh\ncat <<'EOF'\n${[
+          "__tests__/unit/a.test.ts(1,19): error TS2304: Cannot find name 'x'.",
+          ...unrelated
+        ].join("\n")}\nEOF\nexit 2\n`
+      }
+    ])
+    await chmod(path.join(dir, "node_modules/.bin/tsc"), 0o755)
+    expect(unrelated.join("\n").length).toBeGreaterThan(8000)
+
+    const [result] = await verifyTestFiles(
+      dir,
+      [{ filename: "__tests__/unit/a.test.ts", runner: "jest" }],
+      30000
+    )
+
+    expect(result).toMatchObject({ passed: false, reason: "type errors" })
+    expect(result.output).toContain("Cannot find name 'x'")
+  })
+})
@@ -0,0 +1,57 @@
+import {
+  classifySourceFile,
+  describeChangedFileKinds,
+  isInTestScope
+} from "@/app/api/github-webhook/_lib/source-kinds"
+
+describe("source file kinds", () => {
+  it("tells front-end code from back-end code", () => {
+    expect(classifySourceFile("app/about/page.tsx")).toBe("page")
+    expect(classifySourceFile("components/Button.tsx")).toBe("component")
+    expect(
+      classifySourceFile("hooks/use-toast.ts", 'import * as React from "react"')
+    ).toBe("component")
+    expect(classifySourceFile("app/api/github-webhook/route.ts")).toBe(
+      "route-handler"
+    )
+    expect(classifySourceFile("pages/api/hello.ts")).toBe("route-handler")
+    expect(
+      classifySourceFile(
+        "actions/save.ts",
+        '"use server"\n\nexport async function save() {}'
+      )
+    ).toBe("server-action")
+    expect(classifySourceFile("app/api/github-webhook/_lib/diff.ts")).toBe(
+      "module"
+    )
+    expect(classifySourceFile("__tests__/unit/sum.test.ts")).toBe("test")
+    expect(classifySourceFile("jest.config.ts")).toBe("other")
+    expect(classifySourceFile("README.md")).toBe("other")
+  })
+
+  it("limits test generation to the configured scope", () => {
+    expect(isInTestScope("route-handler", "all")).toBe(true)
+    expect(isInTestScope("route-handler", "frontend")).toBe(false)
+    expect(isInTestScope("component", "backend")).toBe(false)
+    expect(isInTestScope("module", "backend")).toBe(true)
+    expect(isInTestScope("test", "all")).toBe(false)
+  })
+
+  it("lists the changed code files for the prompts", () => {
+    const text = describeChangedFileKinds(
+      [
+        { filename: "app/api/items/route.ts", status: "modified" },
+        { filename: "components/List.tsx", status: "added" },
+        { filename: "README.md", status: "modified" },
+        { filename: "lib/old.ts", status: "removed" }
+      ],
+      "backend"
+    )
+    expect(text).toBe(
+      [
+        "- app/api/items/route.ts: Next.js route handler (back-end)",
+        "- components/List.tsx: React component or hook (front-end) (out of scope, don't test)"
+      ].join("\n")
+    )
+  })
+})
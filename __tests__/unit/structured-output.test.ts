@@ -0,0 +1,102 @@
+/**
+ * @jest-environment node
+ */
+import { NoObjectGeneratedError } from "ai"
+import { z } from "zod"
+import {
+  generateValidatedObject,
+  repairObjectText,
+  StructuredOutputError,
+  supportsStructuredOutput
+} from "@/app/api/github-webhook/_lib/structured-output"
+
+const mockGenerateObject = jest.fn()
+
+jest.mock("ai", () => ({
+  ...jest.requireActual("ai"),
+  generateObject: (...args: any[]) => mockGenerateObject(...args)
+}))
+
+const schema = z.object({ decision: z.enum(["yes", "no"]) })
+const model = { defaultObjectGenerationMode: "json" } as any
+
+const invalid = (text: string, problem: string) =>
+  new NoObjectGeneratedError({
+    text,
+    cause: new Error(problem),
+    response: {} as any,
+    usage: {} as any
+  })
+
+describe("structured output", () => {
+  beforeEach(() => {
+    jest.resetAllMocks()
+  })
+
+  it("recovers objects wrapped in prose or code fences", () => {
+    expect(
+      repairObjectText('Sure!\n```json\n{"decision": "yes"}\n```', schema)
+    ).toEqual({ decision: "yes" })
+    expect(repairObjectText('{"decision": "maybe"}', schema)).toBeUndefined()
+    expect(repairObjectText("no JSON here", schema)).toBeUndefined()
+  })
+
+  it("re-asks with the validation error until the answer matches", async () => {
+    mockGenerateObject
+      .mockRejectedValueOnce(
+        invalid('{"decision": "maybe"}', "Invalid enum value at decision")
+      )
+      .mockResolvedValueOnce({ object: { decision: "no" } })
+
+    const result = await generateValidatedObject({
+      model,
+      schema,
+      schemaName: "decision",
+      schemaDescription: "A decision",
+      prompt: "Decide."
+    })
+
+    expect(result).toEqual({ decision: "no" })
+    const retryPrompt = mockGenerateObject.mock.calls[1][0].prompt
+    expect(retryPrompt).toContain("Decide.")
+    expect(retryPrompt).toContain("Invalid enum value at decision")
+    expect(retryPrompt).toContain('{"decision": "maybe"}')
+  })
+
+  it("gives up after the last attempt and passes API errors through", async () => {
+    mockGenerateObject.mockRejectedValue(invalid("???", "Not JSON"))
+    await expect(
+      generateValidatedObject({
+        model,
+        schema,
+        schemaName: "decision",
+        schemaDescription: "A decision",
+        prompt: "Decide.",
+        maxAttempts: 2
+      })
+    ).rejects.toThrow(StructuredOutputError)
+    expect(mockGenerateObject).toHaveBeenCalledTimes(2)
+
+    mockGenerateObject.mockReset()
+    mockGenerateObject.mockRejectedValue(new Error("429 Too Many Requests"))
+    await expect(
+      generateValidatedObject({
+        model,
+        schema,
+        schemaName: "decision",
+        schemaDescription: "A decision",
+        prompt: "Decide."
+      })
+    ).rejects.toThrow("429 Too Many Requests")
+    expect(mockGenerateObject).toHaveBeenCalledTimes(1)
+  })
+
+  it("falls back to text only for models without tool or JSON support", () => {
+    expect(supportsStructuredOutput(model)).toBe(true)
+    expect(
+      supportsStructuredOutput({
+        defaultObjectGenerationMode: undefined
+      } as any)
+    ).toBe(false)
+  })
+})
@@ -0,0 +1,45 @@
+/**
+ * @jest-environment node
+ */
+import {
+  containsJsx,
+  getSyntaxErrors
+} from "@/app/api/github-webhook/_lib/syntax"
+
+const componentTest = `import { render, screen } from "@testing-library/react"
+import Page from "@/app/page"
+
+it("renders", () => {
+  render(<Page />)
+  expect(screen.getByRole("heading")).toBeInTheDocument()
+})
+`
+
+const utilityTest = `import { sum } from "@/lib/sum"
+
+it("adds", () => {
+  const total = <number>sum(1, 2)
+  expect(total).toBe(3)
+})
+`
+
+describe("syntax checks", () => {
+  it("detects JSX from the test itself, not from how it looks", () => {
+    expect(containsJsx(componentTest)).toBe(true)
+    expect(containsJsx("const el = <>{items}</>")).toBe(true)
+    // A type assertion looks like an element but parses without JSX support
+    expect(containsJsx(utilityTest)).toBe(false)
+    expect(containsJsx('it("is broken", () => {')).toBe(false)
+  })
+
+  it("validates the content under the file's extension", () => {
+    expect(getSyntaxErrors("page.test.tsx", componentTest)).toEqual([])
+    expect(
+      getSyntaxErrors("page.test.ts", componentTest).length
+    ).toBeGreaterThan(0)
+    expect(getSyntaxErrors("sum.test.ts", utilityTest)).toEqual([])
+    expect(getSyntaxErrors("sum.test.tsx", utilityTest).length).toBeGreaterThan(
+      0
+    )
+  })
+})
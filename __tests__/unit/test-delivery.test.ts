@@ -0,0 +1,238 @@
+/**
+ * @jest-environment node
+ */
+import { parseConfig } from "@/app/api/github-webhook/_lib/config"
+import { PullRequestContextWithTests } from "@/app/api/github-webhook/_lib/handlers"
+import {
+  buildSuggestionComments,
+  deliverTests,
+  resolveDeliveryMode
+} from "@/app/api/github-webhook/_lib/test-delivery"
+
+const mockCommitFiles = jest.fn()
+const mockOctokit = {
+  git: { createRef: jest.fn(), updateRef: jest.fn() },
+  pulls: {
+    list: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    createReview: jest.fn()
+  }
+}
+
+// Read lazily, the mock factories run before the constants above are initialized
+jest.mock("@/app/api/github-webhook/_lib/github", () => ({
+  get octokit() {
+    return mockOctokit
+  }
+}))
+jest.mock("@/app/api/github-webhook/_lib/git-data", () => ({
+  commitFiles: (...args: any[]) => mockCommitFiles(...args)
+}))
+
+const config = parseConfig(`
+tests:
+  delivery:
+    mode: push
+    labels:
+      ai-tests-as-pr: stacked-pr
+      ai-tests-as-suggestions: suggestions
+`)
+
+const context = (overrides: Partial<PullRequestContextWithTests> = {}) =>
+  ({
+    owner: "o",
+    repo: "r",
+    pullNumber: 12,
+    headRef: "feature",
+    headSha: "1a2b3c4d5e6f",
+    baseRef: "main",
+    title: "Add feature",
+    labels: [],
+    isFork: false,
+    changedFiles: [],
+    commitMessages: [],
+    config,
+    configErrors: [],
+    existingTestFiles: [],
+    ...overrides
+  }) as PullRequestContextWithTests
+
+const changes = [{ filename: "__tests__/unit/a.test.ts", content: "test" }]
+const gating = {
+  reason: "New branching logic in lib/a.ts",
+  recommendation: "Cover the error path"
+}
+
+describe("test delivery", () => {
+  beforeEach(() => {
+    jest.resetAllMocks()
+    mockCommitFiles.mockResolvedValue({
+      sha: "c0ffee",
+      created: ["__tests__/unit/a.test.ts"],
+      updated: [],
+      renamed: [],
+      deleted: []
+    })
+    mockOctokit.pulls.list.mockResolvedValue({ data: [] })
+    mockOctokit.pulls.create.mockResolvedValue({
+      data: { number: 13, html_url: "https://github.com/o/r/pull/13" }
+    })
+  })
+
+  it("picks the mode from labels and only suggests tests to fork PRs", () => {
+    expect(resolveDeliveryMode(context())).toBe("push")
+    expect(resolveDeliveryMode(context({ labels: ["ai-tests-as-pr"] }))).toBe(
+      "stacked-pr"
+    )
+    expect(resolveDeliveryMode(context({ isFork: true }))).toBe("suggestions")
+    expect(
+      resolveDeliveryMode(context({ isFork: true, labels: ["ai-tests-as-pr"] }))
+    ).toBe("suggestions")
+  })
+
+  it("pushes to the PR's branch on top of its head commit", async () => {
+    const delivery = await deliverTests(context(), changes, gating)
+
+    expect(delivery).toMatchObject({ mode: "push", branch: "feature" })
+    expect(mockCommitFiles).toHaveBeenCalledWith(
+      "o",
+      "r",
+      expect.objectContaining({
+        branch: "feature",
+        expectedHeadSha: "1a2b3c4d5e6f"
+      })
+    )
+    expect(mockOctokit.pulls.create).not.toHaveBeenCalled()
+  })
+
+  it("opens a stacked PR against the PR's branch", async () => {
+    const delivery = await deliverTests(
+      context({ labels: ["ai-tests-as-pr"] }),
+      changes,
+      gating
+    )
+
+    expect(mockOctokit.git.createRef).toHaveBeenCalledWith(
+      expect.objectContaining({
+        ref: "refs/heads/ai-tests/12-1a2b3c4",
+        sha: "1a2b3c4d5e6f"
+      })
+    )
+    const request = mockOctokit.pulls.create.mock.calls[0][0]
+    expect(request).toMatchObject({
+      head: "ai-tests/12-1a2b3c4",
+      base: "feature"
+    })
+    expect(request.body).toContain("Tests generated for #12")
+    expect(request.body).toContain("New branching logic in lib/a.ts")
+    expect(request.body).toContain("- Created `__tests__/unit/a.test.ts`")
+    expect(delivery.pullRequest).toEqual({
+      number: 13,
+      url: "https://github.com/o/r/pull/13",
+      base: "feature"
+    })
+  })
+
+  it("reuses the stacked PR opened for the same commit", async () => {
+    mockOctokit.git.createRef.mockRejectedValue(
+      Object.assign(new Error("Reference already exists"), { status: 422 })
+    )
+    mockOctokit.pulls.list.mockResolvedValue({
+      data: [{ number: 20, html_url: "https://github.com/o/r/pull/20" }]
+    })
+
+    const delivery = await deliverTests(
+      context({ labels: ["ai-tests-as-pr"] }),
+      changes,
+      gating
+    )
+
+    expect(mockOctokit.git.updateRef).toHaveBeenCalledWith(
+      expect.objectContaining({ ref: "heads/ai-tests/12-1a2b3c4", force: true })
+    )
+    expect(mockOctokit.pulls.create).not.toHaveBeenCalled()
+    expect(mockOctokit.pulls.update.mock.calls[0][0].body).toContain(
+      "Tests generated for #12"
+    )
+    expect(delivery.pullRequest).toMatchObject({ number: 20, base: "feature" })
+  })
+
+  it("suggests edits inside the diff and nothing if an edit falls outside it", () => {
+    // The test file was added in the PR, so all three lines are in the diff
+    const patch = "@@ -0,0 +1,3 @@\n+a\n+b\n+c"
+    expect(
+      buildSuggestionComments("t.test.ts", patch, "a\nb\nc\n", "a\nB\nc\nd\n")
+    ).toEqual([
+      {
+        path: "t.test.ts",
+        body: "```suggestion\nB\n```",
+        line: 2,
+        side: "RIGHT"
+      },
+      {
+        path: "t.test.ts",
+        body: "```suggestion\nc\nd\n```",
+        line: 3,
+        side: "RIGHT"
+      }
+    ])
+    expect(
+      buildSuggestionComments(
+        "t.test.ts",
+        "@@ -1,1 +1,1 @@\n-x\n+a",
+        "a\nb\n",
+        "a\nB\n"
+      )
+    ).toBeUndefined()
+  })
+
+  it("posts suggestions for test files in the diff and attaches new files", async () => {
+    mockOctokit.pulls.createReview.mockResolvedValue({
+      data: { html_url: "https://github.com/o/r/pull/12#pullrequestreview-1" }
+    })
+
+    const delivery = await deliverTests(
+      context({
+        labels: ["ai-tests-as-suggestions"],
+        changedFiles: [
+          {
+            filename: "__tests__/unit/a.test.ts",
+            patch: "@@ -0,0 +1,2 @@\n+a\n+b",
+            status: "added",
+            additions: 2,
+            deletions: 0,
+            content: "a\nb\n"
+          }
+        ]
+      }),
+      [
+        { filename: "__tests__/unit/a.test.ts", content: "a\nB\n" },
+        { filename: "__tests__/unit/new.test.ts", content: "new test\n" }
+      ],
+      gating
+    )
+
+    const request = mockOctokit.pulls.createReview.mock.calls[0][0]
+    expect(request).toMatchObject({
+      commit_id: "1a2b3c4d5e6f",
+      event: "COMMENT"
+    })
+    expect(request.comments).toEqual([
+      expect.objectContaining({
+        path: "__tests__/unit/a.test.ts",
+        line: 2,
+        body: "```suggestion\nB\n```"
+      })
+    ])
+    expect(request.body).toContain(
+      "<code>__tests__/unit/new.test.ts</code> (new file)"
+    )
+    expect(mockCommitFiles).not.toHaveBeenCalled()
+    expect(delivery.review).toEqual({
+      url: "https://github.com/o/r/pull/12#pullrequestreview-1",
+      suggested: ["__tests__/unit/a.test.ts"],
+      attached: ["__tests__/unit/new.test.ts"]
+    })
+  })
+})
@@ -0,0 +1,101 @@
+/**
+ * @jest-environment node
+ */
+import { getDefaultConfig } from "@/app/api/github-webhook/_lib/config"
+import {
+  describeTestSetup,
+  detectTestSetup,
+  getTestFileEnding
+} from "@/app/api/github-webhook/_lib/test-frameworks"
+
+// The config module reads files through the GitHub client
+jest.mock("@/app/api/github-webhook/_lib/github", () => ({
+  getFileContent: jest.fn()
+}))
+
+const { tests } = getDefaultConfig()
+
+describe("test framework detection", () => {
+  it("falls back to Jest and Playwright in __tests__", () => {
+    const setup = detectTestSetup(
+      ["tsconfig.json", "lib/a.ts"],
+      undefined,
+      tests
+    )
+    expect(setup.unit).toEqual({
+      framework: "jest",
+      directory: "__tests__/unit",
+      suffix: "test"
+    })
+    expect(setup.e2e).toEqual({
+      framework: "playwright",
+      directory: "__tests__/e2e",
+      suffix: "spec"
+    })
+    expect(setup.typescript).toBe(true)
+  })
+
+  it("detects Vitest with co-located spec files and Cypress", () => {
+    const setup = detectTestSetup(
+      [
+        "vitest.config.ts",
+        "cypress.config.ts",
+        "src/Button.tsx",
+        "src/Button.spec.tsx",
+        "src/utils.ts",
+        "src/utils.spec.ts",
+        "cypress/e2e/login.cy.ts",
+        "node_modules/x/a.test.js"
+      ],
+      JSON.stringify({ devDependencies: { typescript: "^5.0.0" } }),
+      tests
+    )
+    expect(setup.unit).toEqual({
+      framework: "vitest",
+      directory: undefined,
+      suffix: "spec"
+    })
+    expect(setup.e2e).toEqual({
+      framework: "cypress",
+      directory: "cypress/e2e",
+      suffix: "cy"
+    })
+    expect(getTestFileEnding(setup, "unit", true)).toBe(".spec.tsx")
+    expect(describeTestSetup(setup)).toContain(
+      "`lib/utils.ts` is tested in `lib/utils.spec.ts`"
+    )
+  })
+
+  it("detects node:test and Mocha from package.json in JavaScript repos", () => {
+    const nodeTest = detectTestSetup(
+      ["package.json", "test/a.test.js"],
+      JSON.stringify({ scripts: { test: "node --test test/" } }),
+      tests
+    )
+    expect(nodeTest.unit).toMatchObject({
+      framework: "node-test",
+      directory: "test"
+    })
+    expect(getTestFileEnding(nodeTest, "unit", false)).toBe(".test.js")
+
+    const mocha = detectTestSetup(
+      ["package.json"],
+      JSON.stringify({ devDependencies: { mocha: "^10.0.0" } }),
+      tests
+    )
+    expect(mocha.unit.framework).toBe("mocha")
+  })
+
+  it("lets the repo config override what is detected", () => {
+    const setup = detectTestSetup(
+      ["vitest.config.ts", "src/a.spec.ts"],
+      undefined,
+      { ...tests, unit: { framework: "jest", directory: "spec/unit" } }
+    )
+    expect(setup.unit).toMatchObject({
+      framework: "jest",
+      directory: "spec/unit"
+    })
+    expect(setup.evidence).toContain("unit framework jest from config")
+  })
+})
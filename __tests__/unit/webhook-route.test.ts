@@ -0,0 +1,178 @@
+/**
+ * @jest-environment node
+ */
+import { POST } from "@/app/api/github-webhook/route"
+import { getJobQueue } from "@/app/api/github-webhook/_lib/queue"
+import { createHmac } from "crypto"
+import { readFileSync } from "fs"
+import { NextRequest } from "next/server"
+import path from "path"
+
+const mockEnqueue = jest.fn(async (input: any) => ({ id: "job-1", ...input }))
+
+jest.mock("@/app/api/github-webhook/_lib/queue", () => ({
+  getJobQueue: jest.fn(() => ({ enqueue: mockEnqueue }))
+}))
+const mockClaimDelivery = jest.fn(async () => true)
+const mockStartRun = jest.fn(async (input: any) => ({
+  run: { id: "run-1", ...input },
+  duplicate: false
+}))
+
+jest.mock("@/app/api/github-webhook/_lib/ledger", () => ({
+  cancelSupersededRuns: jest.fn(async () => 0),
+  claimDelivery: () => mockClaimDelivery(),
+  releaseDelivery: jest.fn(async () => {}),
+  startRun: (input: any) => mockStartRun(input),
+  updateRunStatus: jest.fn(async () => {})
+}))
+// The repo has no .github/ai-agent.yml, so the default triggers and labels apply
+const mockGetFileContent = jest.fn(
+  async (..._args: any[]): Promise<string | undefined> => undefined
+)
+
+jest.mock("@/app/api/github-webhook/_lib/github", () => ({
+  getFileContent: (...args: any[]) => mockGetFileContent(...args)
+}))
+
+const rawBody = readFileSync(
+  path.join(__dirname, "../fixtures/github/pull-request-labeled.json"),
+  "utf8"
+)
+const recordedSignature =
+  "sha256=b0505dba92f31e4ab994645be1f3f96ed0a520a64d0936742293efed1b03b16d"
+
+const sign = (body: string) =>
+  `sha256=${createHmac("sha256", "test-webhook-secret").update(body).digest("hex")}`
+
+function buildRequest(signature?: string) {
+  const headers: Record<string, string> = {
+    "content-type": "application/json",
+    "x-github-event": "pull_request",
+    "x-github-delivery": "72d3162e-cc78-11e3-81ab-4c9367dc0958"
+  }
+  if (signature) headers["x-hub-signature-256"] = signature
+  return new NextRequest("http://localhost/api/github-webhook", {
+    method: "POST",
+    headers,
+    body: rawBody
+  })
+}
+
+describe("POST /api/github-webhook", () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    process.env.GH_WEBHOOK_SECRET = "test-webhook-secret"
+    jest.spyOn(console, "warn").mockImplementation(() => {})
+  })
+
+  it("returns 401 without enqueueing anything when the signature is missing", async () => {
+    const response = await POST(buildRequest())
+    expect(response.status).toBe(401)
+    expect(getJobQueue).not.toHaveBeenCalled()
+  })
+
+  it("returns 401 when the signature was made with another secret", async () => {
+    process.env.GH_WEBHOOK_SECRET = "some-other-secret"
+    const response = await POST(buildRequest(recordedSignature))
+    expect(response.status).toBe(401)
+    expect(mockEnqueue).not.toHaveBeenCalled()
+  })
+
+  it("enqueues a job for a correctly signed delivery and returns 202", async () => {
+    const response = await POST(buildRequest(recordedSignature))
+    expect(response.status).toBe(202)
+    expect(mockEnqueue).toHaveBeenCalledTimes(1)
+    expect(mockEnqueue).toHaveBeenCalledWith(
+      expect.objectContaining({
+        agent: "review",
+        deliveryId: "72d3162e-cc78-11e3-81ab-4c9367dc0958",
+        runId: "run-1"
+      })
+    )
+    expect(await response.json()).toEqual({
+      message: "Accepted",
+      jobIds: ["job-1"]
+    })
+  })
+
+  it("acknowledges a redelivery without enqueueing anything", async () => {
+    mockClaimDelivery.mockResolvedValueOnce(false)
+    const response = await POST(buildRequest(recordedSignature))
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ message: "Duplicate delivery" })
+    expect(mockEnqueue).not.toHaveBeenCalled()
+  })
+
+  it("skips agents that already have a run for the head commit", async () => {
+    mockStartRun.mockResolvedValueOnce({
+      run: { id: "run-0", headSha: "6dcb09b" },
+      duplicate: true
+    })
+    jest.spyOn(console, "log").mockImplementation(() => {})
+    const response = await POST(buildRequest(recordedSignature))
+    expect(response.status).toBe(200)
+    expect(mockStartRun).toHaveBeenCalledWith(
+      expect.objectContaining({
+        owner: "octo-org",
+        repo: "octo-repo",
+        pullNumber: 7,
+        agent: "review",
+        headSha: "6dcb09b5b57875f334f61aebed695e2e4193db5e"
+      })
+    )
+    expect(mockEnqueue).not.toHaveBeenCalled()
+  })
+
+  it("uses the labels from the repository config", async () => {
+    mockGetFileContent.mockResolvedValueOnce(
+      "labels:\n  review: needs-ai-review\n"
+    )
+    const response = await POST(buildRequest(recordedSignature))
+
+    // The delivery adds "agent-review-pr", which this repo doesn't use
+    expect(response.status).toBe(200)
+    expect(mockGetFileContent).toHaveBeenCalledWith(
+      "octo-org",
+      "octo-repo",
+      ".github/ai-agent.yml",
+      "main",
+      { timeoutMs: 3000 }
+    )
+    expect(mockEnqueue).not.toHaveBeenCalled()
+  })
+
+  it("falls back to the default config when it can't be read", async () => {
+    mockGetFileContent.mockRejectedValueOnce(new Error("Bad credentials"))
+    const response = await POST(buildRequest(recordedSignature))
+
+    expect(response.status).toBe(202)
+    expect(mockGetFileContent).toHaveBeenCalledWith(
+      "octo-org",
+      "octo-repo",
+      ".github/ai-agent.yml",
+      "main",
+      { timeoutMs: 3000 }
+    )
+    expect(mockEnqueue).toHaveBeenCalledTimes(1)
+  })
+
+  it("ignores actions that can't trigger an agent without calling GitHub", async () => {
+    const closed = JSON.stringify({ ...JSON.parse(rawBody), action: "closed" })
+    const response = await POST(
+      new NextRequest("http://localhost/api/github-webhook", {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          "x-github-event": "pull_request",
+          "x-hub-signature-256": sign(closed)
+        },
+        body: closed
+      })
+    )
+
+    expect(response.status).toBe(200)
+    expect(mockGetFileContent).not.toHaveBeenCalled()
+    expect(mockEnqueue).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,67 @@
+import {
+  signWebhookBody,
+  verifyWebhookSignature
+} from "@/app/api/github-webhook/_lib/signature"
+import { readFileSync } from "fs"
+import path from "path"
+
+// Recorded delivery body and the X-Hub-Signature-256 header GitHub sent with it
+const rawBody = readFileSync(
+  path.join(__dirname, "../fixtures/github/pull-request-labeled.json"),
+  "utf8"
+)
+const recordedSignature =
+  "sha256=b0505dba92f31e4ab994645be1f3f96ed0a520a64d0936742293efed1b03b16d"
+const recordedSignatureWithPreviousSecret =
+  "sha256=5215e67def6c2e3e6277e0ec985c52f0a18470c58f7b6d0dd7b7af49537a41bb"
+
+describe("verifyWebhookSignature", () => {
+  it("accepts a recorded delivery signed with the active secret", () => {
+    expect(
+      verifyWebhookSignature(rawBody, recordedSignature, [
+        "test-webhook-secret"
+      ])
+    ).toBe(true)
+  })
+
+  it("accepts a delivery signed with the previous secret while rotating", () => {
+    expect(
+      verifyWebhookSignature(rawBody, recordedSignatureWithPreviousSecret, [
+        "test-webhook-secret",
+        "previous-webhook-secret"
+      ])
+    ).toBe(true)
+  })
+
+  it("rejects a missing or malformed signature header", () => {
+    expect(verifyWebhookSignature(rawBody, null, ["test-webhook-secret"])).toBe(
+      false
+    )
+    expect(
+      verifyWebhookSignature(rawBody, "sha1=abc", ["test-webhook-secret"])
+    ).toBe(false)
+    expect(
+      verifyWebhookSignature(rawBody, "sha256=abc", ["test-webhook-secret"])
+    ).toBe(false)
+  })
+
+  it("rejects a body that was modified after signing", () => {
+    const tampered = rawBody.replace("agent-review-pr", "agent-generate-tests")
+    expect(
+      verifyWebhookSignature(tampered, recordedSignature, [
+        "test-webhook-secret"
+      ])
+    ).toBe(false)
+  })
+
+  it("rejects everything when no secret is configured", () => {
+    jest.spyOn(console, "error").mockImplementation(() => {})
+    expect(verifyWebhookSignature(rawBody, recordedSignature, [])).toBe(false)
+  })
+
+  it("produces signatures in the format GitHub sends", () => {
+    expect(signWebhookBody(rawBody, "test-webhook-secret")).toBe(
+      recordedSignature
+    )
+  })
+})
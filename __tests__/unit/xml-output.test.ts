@@ -0,0 +1,51 @@
+/**
+ * @jest-environment node
+ */
+import { parseReviewXml } from "@/app/api/github-webhook/_lib/review-agent"
+import { StructuredOutputError } from "@/app/api/github-webhook/_lib/structured-output"
+import { parseTestXml } from "@/app/api/github-webhook/_lib/test-agent"
+
+// The agents talk to GitHub and the models through these modules
+jest.mock("@/app/api/github-webhook/_lib/github", () => ({ octokit: {} }))
+jest.mock("@/app/api/github-webhook/_lib/comments", () => ({}))
+jest.mock("@/app/api/github-webhook/_lib/checks", () => ({}))
+jest.mock("@/app/api/github-webhook/_lib/handlers", () => ({}))
+jest.mock("@/app/api/github-webhook/_lib/llm", () => ({}))
+
+describe("XML output of text-only models", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "warn").mockImplementation(() => {})
+  })
+
+  it("parses a complete review", async () => {
+    const review = await parseReviewXml(
+      "Here you go:\n<review><summary>Looks fine</summary></review>"
+    )
+    expect(review.summary).toBe("Looks fine")
+    expect(review.incomplete).toBeUndefined()
+  })
+
+  it("reports a review that was cut off instead of parsing part of it", async () => {
+    const review = await parseReviewXml(
+      "<review><summary>Looks fine</summary><findings><finding><path>lib/a.ts</path>"
+    )
+    expect(review.summary).toMatch(/cut off/)
+    expect(review.incomplete).toBe(true)
+    expect(review.findings).toEqual([])
+  })
+
+  it("parses complete test proposals", async () => {
+    const proposals = await parseTestXml(
+      "<tests><testProposals><proposal><filename>__tests__/unit/a.test.ts</filename><testType>unit</testType><testContent>test()</testContent></proposal></testProposals></tests>"
+    )
+    expect(proposals.map(p => p.filename)).toEqual(["__tests__/unit/a.test.ts"])
+  })
+
+  it("rejects test proposals that were cut off", async () => {
+    await expect(
+      parseTestXml(
+        "<tests><testProposals><proposal><filename>__tests__/unit/a.test.ts</filename><testContent>test("
+      )
+    ).rejects.toBeInstanceOf(StructuredOutputError)
+  })
+})
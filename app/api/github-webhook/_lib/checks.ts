@@ -0,0 +1,189 @@
+/*
+<ai_context>
+This file contains functions for publishing agent runs as GitHub Check Runs on the PR's head commit.
+A check is created as in_progress when an agent starts and completed with a conclusion,
+a markdown summary and annotations when it finishes, so results show up in the PR checks UI
+and can be required by branch protection.
+</ai_context>
+*/
+
+import { octokit } from "./github"
+
+// Names of the checks as they appear in the PR checks UI
+export const REVIEW_CHECK_NAME = "AI Code Review"
+export const TEST_GENERATION_CHECK_NAME = "AI Test Generation"
+
+// GitHub accepts at most 50 annotations per request
+const ANNOTATIONS_PER_REQUEST = 50
+
+// GitHub rejects check summaries longer than 65535 characters
+const MAX_SUMMARY_LENGTH = 65000
+
+export type CheckConclusion =
+  | "success"
+  | "failure"
+  | "neutral"
+  | "cancelled"
+  | "skipped"
+  | "action_required"
+
+/**
+ * An annotation on a line range of a file at the head commit.
+ */
+export interface CheckAnnotation {
+  path: string
+  start_line: number
+  end_line: number
+  annotation_level: "notice" | "warning" | "failure"
+  title?: string
+  message: string
+}
+
+/**
+ * The final state of a check run.
+ */
+export interface CheckResult {
+  conclusion: CheckConclusion
+  title: string
+  summary: string
+  annotations?: CheckAnnotation[]
+}
+
+/**
+ * Creates an in_progress check run on a commit, or puts the check run of an
+ * earlier attempt of the same job back in progress so retries don't leave
+ * orphaned checks behind.
+ * Failures are logged and swallowed, so a missing "checks: write" permission
+ * never stops the agent itself.
+ *
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param headSha - The commit to attach the check to
+ * @param name - The check name
+ * @param checkRunId - The check run of an earlier attempt, if any
+ * @returns The check run ID, or undefined if it couldn't be created
+ */
+export async function startCheckRun(
+  owner: string,
+  repo: string,
+  headSha: string,
+  name: string,
+  checkRunId?: number
+): Promise<number | undefined> {
+  if (checkRunId !== undefined) {
+    try {
+      await octokit.checks.update({
+        owner,
+        repo,
+        check_run_id: checkRunId,
+        status: "in_progress",
+        output: {
+          title: `${name} in progress`,
+          summary: "🤖 The agent is working on this commit again..."
+        }
+      })
+      return checkRunId
+    } catch (err) {
+      console.error(`Error restarting check run ${checkRunId}:`, err)
+    }
+  }
+
+  try {
+    const { data } = await octokit.checks.create({
+      owner,
+      repo,
+      name,
+      head_sha: headSha,
+      status: "in_progress",
+      started_at: new Date().toISOString(),
+      output: {
+        title: `${name} in progress`,
+        summary: "🤖 The agent is working on this commit..."
+      }
+    })
+    return data.id
+  } catch (err) {
+    console.error(`Error creating check run "${name}":`, err)
+    return undefined
+  }
+}
+
+/**
+ * Completes a check run with a conclusion, summary and annotations.
+ * The completing update goes first so a rejected annotation can never leave the
+ * check in progress (and a required check blocking the PR): if GitHub rejects
+ * it, it's retried without annotations. The remaining annotations are then
+ * appended best-effort in batches, since GitHub limits them per request.
+ *
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param checkRunId - The check run to complete (no-op if undefined)
+ * @param result - The conclusion and output to publish
+ */
+export async function completeCheckRun(
+  owner: string,
+  repo: string,
+  checkRunId: number | undefined,
+  result: CheckResult
+) {
+  if (checkRunId === undefined) return
+
+  const summary =
+    result.summary.length > MAX_SUMMARY_LENGTH
+      ? `${result.summary.slice(0, MAX_SUMMARY_LENGTH)}\n\n_(Summary truncated.)_`
+      : result.summary
+  const annotations = result.annotations ?? []
+
+  const complete = (batch: CheckAnnotation[]) =>
+    octokit.checks.update({
+      owner,
+      repo,
+      check_run_id: checkRunId,
+      status: "completed",
+      conclusion: result.conclusion,
+      completed_at: new Date().toISOString(),
+      output: { title: result.title, summary, annotations: batch }
+    })
+
+  // The completing update carries the first batch
+  try {
+    await complete(annotations.slice(0, ANNOTATIONS_PER_REQUEST))
+  } catch (err) {
+    if (annotations.length === 0) {
+      console.error(`Error completing check run ${checkRunId}:`, err)
+      return
+    }
+    console.error(
+      `Error completing check run ${checkRunId} with annotations, retrying without them:`,
+      err
+    )
+    try {
+      await complete([])
+    } catch (retryErr) {
+      console.error(`Error completing check run ${checkRunId}:`, retryErr)
+    }
+    return
+  }
+
+  // Each later update appends its batch to the annotations already on the check
+  for (
+    let i = ANNOTATIONS_PER_REQUEST;
+    i < annotations.length;
+    i += ANNOTATIONS_PER_REQUEST
+  ) {
+    try {
+      await octokit.checks.update({
+        owner,
+        repo,
+        check_run_id: checkRunId,
+        output: {
+          title: result.title,
+          summary,
+          annotations: annotations.slice(i, i + ANNOTATIONS_PER_REQUEST)
+        }
+      })
+    } catch (err) {
+      console.error(`Error adding annotations to check run ${checkRunId}:`, err)
+    }
+  }
+}
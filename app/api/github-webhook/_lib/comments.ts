@@ -12,19 +12,31 @@ import { octokit } from "./github"
  * Creates an initial placeholder comment on a GitHub pull request.
  * This is typically used to show that an operation (like review or test generation)
  * is in progress, and will be updated later with the final results.
+ * When a retried job passes the comment of its earlier attempt, that comment is
+ * reset to the placeholder instead, so retries don't post duplicate comments.
  *
  * @param owner - The GitHub username or organization that owns the repository
  * @param repo - The name of the repository
  * @param pullNumber - The number of the pull request
  * @param placeholderMessage - The initial message to display
+ * @param commentId - The comment of an earlier attempt, reused if it still exists
  * @returns The ID of the created comment, which can be used later to update it
  */
 export async function createPlaceholderComment(
   owner: string,
   repo: string,
   pullNumber: number,
-  placeholderMessage: string
+  placeholderMessage: string,
+  commentId?: number
 ): Promise<number> {
+  if (
+    commentId !== undefined &&
+    (await getCommentBody(owner, repo, commentId)) !== undefined
+  ) {
+    await updateComment(owner, repo, commentId, placeholderMessage)
+    return commentId
+  }
+
   // Create a new comment on the PR (GitHub calls PRs "issues" in the API)
   const { data } = await octokit.issues.createComment({
     owner,
@@ -37,6 +49,36 @@ export async function createPlaceholderComment(
   return data.id
 }
 
+/**
+ * Fetches the current body of a comment on a GitHub pull request.
+ * Used when a later run appends to a comment instead of posting a new one.
+ *
+ * @param owner - The GitHub username or organization that owns the repository
+ * @param repo - The name of the repository
+ * @param commentId - The ID of the comment to read
+ * @returns The comment body, or undefined if the comment no longer exists
+ */
+export async function getCommentBody(
+  owner: string,
+  repo: string,
+  commentId: number
+): Promise<string | undefined> {
+  try {
+    const { data } = await octokit.issues.getComment({
+      owner,
+      repo,
+      comment_id: commentId
+    })
+    return data.body ?? ""
+  } catch (err: any) {
+    // The comment may have been deleted by a user
+    if (err.status === 404) {
+      return undefined
+    }
+    throw err
+  }
+}
+
 /**
  * Updates an existing comment on a GitHub pull request.
  * This is used to replace the placeholder message with the final results
@@ -0,0 +1,37 @@
+/*
+<ai_context>
+This file contains a small helper for running async work over a list with a concurrency limit,
+used for parallel AI calls and batched GitHub API requests.
+</ai_context>
+*/
+
+/**
+ * Maps over items with at most `limit` calls of fn running at once.
+ * Results keep the order of the input. If any call rejects, the returned
+ * promise rejects, but calls that already started are left to finish.
+ *
+ * @param items - The items to process
+ * @param limit - Maximum number of concurrent calls (at least 1)
+ * @param fn - Async function called with each item and its index
+ * @returns The results in input order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  let next = 0
+
+  // Each worker picks the next unprocessed item until none are left
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await fn(items[index], index)
+    }
+  }
+
+  const workerCount = Math.max(1, Math.min(limit, items.length))
+  await Promise.all(Array.from({ length: workerCount }, worker))
+  return results
+}
@@ -0,0 +1,271 @@
+/*
+<ai_context>
+This file contains the per-repository agent configuration.
+Repositories can add a .github/ai-agent.yml file on their base branch to tune how the agents behave:
+which files are analyzed, which labels and events trigger each agent, where tests live and how they are delivered,
+which models each agent and step uses (with fallbacks), and custom review guidelines.
+The file is validated with zod, and anything not set falls back to the defaults below.
+</ai_context>
+*/
+
+import { parse as parseYaml } from "yaml"
+import { z } from "zod"
+import { getFileContent } from "./github"
+
+// Where the config file lives in the repository
+export const CONFIG_PATH = ".github/ai-agent.yml"
+
+// Default label that triggers the review process when added to a PR
+export const REVIEW_LABEL = "agent-review-pr"
+
+// Default label that triggers the test generation process when added to a PR
+export const TEST_GENERATION_LABEL = "agent-generate-tests"
+
+// pull_request actions that can trigger an agent ("labeled" means the agent's label was added)
+const triggerSchema = z.enum([
+  "opened",
+  "reopened",
+  "synchronize",
+  "ready_for_review",
+  "labeled"
+])
+
+// How generated tests reach the PR: "push" commits them to the PR's branch,
+// "stacked-pr" opens a separate PR that targets the PR's branch and
+// "suggestions" posts them in a review for the author to accept
+const testDeliveryModeSchema = z.enum(["push", "stacked-pr", "suggestions"])
+
+// A model name, or a list of them to fall back through in order when one fails or times out
+const modelChainSchema = z.union([
+  z.string().min(1),
+  z.array(z.string().min(1)).min(1)
+])
+
+// Zod schema for the config file
+const configSchema = z.object({
+  files: z
+    .object({
+      // If set, only files matching these globs are analyzed.
+      // Both lists are read in order and a "!pattern" re-includes earlier matches.
+      include: z.array(z.string()).default([]),
+      // Files matching these globs are never sent to the model
+      exclude: z
+        .array(z.string())
+        .default([
+          "**/package-lock.json",
+          "**/yarn.lock",
+          "**/pnpm-lock.yaml",
+          "**/*.min.js",
+          "**/*.min.css",
+          "**/*.map",
+          "**/*.snap",
+          "**/__snapshots__/**",
+          "**/dist/**",
+          "**/build/**",
+          "**/vendor/**",
+          "**/node_modules/**",
+          "**/*.svg"
+        ])
+    })
+    .default({}),
+  labels: z
+    .object({
+      review: z.string().min(1).default(REVIEW_LABEL),
+      testGeneration: z.string().min(1).default(TEST_GENERATION_LABEL)
+    })
+    .default({}),
+  triggers: z
+    .object({
+      review: z
+        .array(triggerSchema)
+        .default(["opened", "synchronize", "labeled"]),
+      testGeneration: z.array(triggerSchema).default(["labeled"])
+    })
+    .default({}),
+  tests: z
+    .object({
+      // Which code tests are generated for: React components and pages, route handlers and modules, or both
+      scope: z.enum(["frontend", "backend", "all"]).default("all"),
+      // Anything not set here is detected from package.json, config files and existing tests
+      unit: z
+        .object({
+          directory: z.string().min(1).optional(),
+          framework: z.enum(["jest", "vitest", "mocha", "node-test"]).optional()
+        })
+        .default({}),
+      e2e: z
+        .object({
+          directory: z.string().min(1).optional(),
+          framework: z.enum(["playwright", "cypress"]).optional()
+        })
+        .default({}),
+      // Generated tests are run in a checkout of the PR before they are committed
+      // (never for fork PRs, whose code isn't run on the worker)
+      verification: z
+        .object({
+          enabled: z.boolean().default(true),
+          // How often failing tests are sent back to the model to be fixed
+          maxRepairRounds: z.number().int().min(0).max(5).default(2),
+          // Timeout for each type check or test run
+          timeoutSeconds: z.number().int().min(10).max(1800).default(300)
+        })
+        .default({}),
+      // Changed lines the existing tests don't run are measured with jest --coverage
+      // and pointed out to the model (only for repos whose unit tests run on jest)
+      coverage: z
+        .object({
+          enabled: z.boolean().default(true)
+        })
+        .default({}),
+      // Generated unit tests are run against mutants of the changed functions;
+      // tests that kill none are regenerated once and dropped if they still don't
+      mutation: z
+        .object({
+          enabled: z.boolean().default(false),
+          maxMutantsPerFile: z.number().int().min(1).max(50).default(10)
+        })
+        .default({}),
+      delivery: z
+        .object({
+          mode: testDeliveryModeSchema.default("push"),
+          // Labels that pick the mode for a single PR, e.g. { "ai-tests-as-pr": "stacked-pr" }
+          labels: z.record(z.string(), testDeliveryModeSchema).default({})
+        })
+        .default({})
+    })
+    .default({}),
+  models: z
+    .object({
+      // Model names for each agent, passed to the configured LLM provider
+      review: modelChainSchema.optional(),
+      testGeneration: modelChainSchema.optional(),
+      // Models for single steps of an agent, e.g. a cheap model for gating;
+      // steps not set here use their agent's models
+      steps: z
+        .object({
+          review: modelChainSchema.optional(),
+          reviewSummary: modelChainSchema.optional(),
+          testGating: modelChainSchema.optional(),
+          testGeneration: modelChainSchema.optional(),
+          testRepair: modelChainSchema.optional()
+        })
+        .default({}),
+      // A model call that takes longer is abandoned for the next model in the chain
+      timeoutSeconds: z.number().int().min(10).max(1800).default(300)
+    })
+    .default({}),
+  review: z
+    .object({
+      // Findings at or above this severity make the review request changes
+      blockingSeverity: z
+        .enum(["blocker", "major", "minor", "nit", "none"])
+        .default("blocker"),
+      // Extra instructions for the reviewer, e.g. team conventions
+      guidelines: z.string().optional(),
+      // PRs too large for one prompt are reviewed in batches, this many at a time
+      batchConcurrency: z.number().int().min(1).max(10).default(3)
+    })
+    .default({})
+})
+
+export type AgentConfig = z.infer<typeof configSchema>
+
+export type AgentTrigger = z.infer<typeof triggerSchema>
+
+/**
+ * Checks whether a pull_request action can trigger an agent under any config.
+ *
+ * @param action - The webhook payload's action
+ * @returns true if some config could run an agent for it
+ */
+export function isAgentTrigger(action: unknown): action is AgentTrigger {
+  return triggerSchema.safeParse(action).success
+}
+
+export type TestDeliveryMode = z.infer<typeof testDeliveryModeSchema>
+
+export type ModelStep = keyof AgentConfig["models"]["steps"]
+
+/**
+ * A loaded config together with any problems found in the file.
+ * When the file is invalid, config holds the defaults and errors says why.
+ */
+export interface LoadedConfig {
+  config: AgentConfig
+  errors: string[]
+}
+
+/**
+ * Returns the configuration used when a repository has no config file.
+ *
+ * @returns The default AgentConfig
+ */
+export function getDefaultConfig(): AgentConfig {
+  return configSchema.parse({})
+}
+
+/**
+ * Parses and validates the raw text of a config file.
+ *
+ * @param text - YAML text of the config file
+ * @returns The validated config with defaults applied
+ * @throws Error describing what is wrong with the file
+ */
+export function parseConfig(text: string): AgentConfig {
+  // An empty file is valid and means "use the defaults"
+  const raw = parseYaml(text) ?? {}
+  const result = configSchema.safeParse(raw)
+  if (!result.success) {
+    const issues = result.error.issues
+      .map(issue => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("; ")
+    throw new Error(`Invalid ${CONFIG_PATH}: ${issues}`)
+  }
+  return result.data
+}
+
+/**
+ * Loads the repository's config from the base branch.
+ * Reading it from the base branch means a PR can't change the rules it is reviewed under.
+ * If the file is missing the defaults are used; if it is invalid the defaults are used
+ * and the problems are returned so the agents can report them on the PR.
+ *
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param baseRef - The PR's base branch
+ * @param options.timeoutMs - Give up on reading the file after this long (see getFileContent)
+ * @returns The repository's config and any errors found in it
+ */
+export async function loadRepoConfig(
+  owner: string,
+  repo: string,
+  baseRef: string,
+  options: { timeoutMs?: number } = {}
+): Promise<LoadedConfig> {
+  const text = await getFileContent(owner, repo, CONFIG_PATH, baseRef, options)
+  if (text === undefined) {
+    return { config: getDefaultConfig(), errors: [] }
+  }
+
+  try {
+    return { config: parseConfig(text), errors: [] }
+  } catch (err) {
+    // YAML syntax errors and schema errors both end up here
+    const message = err instanceof Error ? err.message : String(err)
+    console.error("Error loading repository config, using defaults:", message)
+    return { config: getDefaultConfig(), errors: [message] }
+  }
+}
+
+/**
+ * Formats config errors as a warning for PR comments.
+ *
+ * @param errors - The errors returned by loadRepoConfig
+ * @returns Markdown to prepend to a comment, or an empty string if there are no errors
+ */
+export function formatConfigErrors(errors: string[]): string {
+  if (errors.length === 0) return ""
+  return `> ⚠️ **Problems in \`${CONFIG_PATH}\`, the default configuration was used:**\n${errors
+    .map(e => `> - ${e}`)
+    .join("\n")}\n\n`
+}
@@ -0,0 +1,610 @@
+/*
+<ai_context>
+This file contains the context builder that packs changed files (and existing tests)
+into a prompt without overflowing the model's context window.
+Token counts are estimated per model, files are ranked by relevance
+(churn, file type and test proximity), and each file is included at the richest
+level that still fits: full content, patch plus surrounding lines, patch only, or filename only.
+The final composition is logged so it's clear what the model actually saw.
+</ai_context>
+*/
+
+import { parsePatch } from "./diff"
+import { getModelCapabilities, ModelRef } from "./llm"
+
+// How much of a file is included in the prompt, from most to least detail
+export type FileDetail = "full" | "hunks" | "patch" | "name"
+
+// The fields of a changed file the context builder needs
+export interface ContextFile {
+  filename: string
+  status: string
+  patch: string
+  additions: number
+  deletions: number
+  content?: string
+  excluded?: boolean
+  excludedReason?: string
+}
+
+/**
+ * One file as it ended up in the prompt.
+ */
+export interface PackedFile {
+  filename: string
+  detail: FileDetail
+  tokens: number
+  score: number
+}
+
+/**
+ * The packed prompt section and how it was composed.
+ */
+export interface PackedContext {
+  text: string
+  files: PackedFile[]
+  tokens: number
+  budget: number
+  degradedCount: number // Files shown with less detail than was available
+}
+
+// Context windows by model name prefix; the first matching prefix wins
+const CONTEXT_WINDOWS: [prefix: string, tokens: number][] = [
+  ["claude-", 200000],
+  ["o1-mini", 128000],
+  ["o1", 200000],
+  ["o3", 200000],
+  ["o4", 200000],
+  ["gpt-4.1", 1000000],
+  ["gpt-4o", 128000],
+  ["gpt-4-turbo", 128000],
+  ["gpt-4", 8192],
+  ["gpt-3.5", 16385]
+]
+
+// Used for models we don't know, small enough to be safe for most of them
+const DEFAULT_CONTEXT_WINDOW = 32000
+
+// Average characters per token; code tokenizes denser than prose, so these are conservative
+const CHARS_PER_TOKEN: [prefix: string, chars: number][] = [
+  ["claude-", 3.2],
+  ["o1", 3.6],
+  ["o3", 3.6],
+  ["o4", 3.6],
+  ["gpt-4o", 3.6],
+  ["gpt-4.1", 3.6]
+]
+const DEFAULT_CHARS_PER_TOKEN = 3.2
+
+// Tokens kept free for the model's answer (and reasoning, for reasoning models)
+const OUTPUT_TOKEN_RESERVE = 16000
+
+// Lines of the new file shown around each hunk at the "hunks" level
+const SURROUNDING_LINES = 20
+
+// Extensions of source files, which matter most for reviews and tests
+const SOURCE_EXTENSIONS = new Set([
+  "ts",
+  "tsx",
+  "js",
+  "jsx",
+  "mjs",
+  "cjs",
+  "py",
+  "go",
+  "rs",
+  "java",
+  "kt",
+  "rb",
+  "php",
+  "cs",
+  "swift",
+  "sql"
+])
+
+// Matches test files like "foo.test.ts", "foo.spec.tsx" or "__tests__/foo.ts"
+const TEST_FILE = /(\.(test|spec)\.[cm]?[jt]sx?$)|(^|\/)__tests__\//
+
+/**
+ * Looks up the context window of a model.
+ * LLM_CONTEXT_WINDOW overrides the table, e.g. for self-hosted models,
+ * followed by the context window the model's provider declares.
+ *
+ * @param model - The model, e.g. gpt-4o from OpenAI
+ * @returns The context window in tokens
+ */
+export function getContextWindow(model: ModelRef): number {
+  const override = Number(process.env.LLM_CONTEXT_WINDOW)
+  if (override > 0) return override
+  const declared = getModelCapabilities(model)?.contextWindow
+  if (declared) return declared
+
+  const match = CONTEXT_WINDOWS.find(([prefix]) =>
+    model.modelId.startsWith(prefix)
+  )
+  return match ? match[1] : DEFAULT_CONTEXT_WINDOW
+}
+
+/**
+ * Estimates the number of tokens a text uses with a model's tokenizer.
+ *
+ * @param text - The text to estimate
+ * @param modelId - The model name, e.g. "claude-3-5-sonnet-latest"
+ * @returns The estimated token count
+ */
+export function estimateTokens(text: string, modelId: string): number {
+  const match = CHARS_PER_TOKEN.find(([prefix]) => modelId.startsWith(prefix))
+  const charsPerToken = match ? match[1] : DEFAULT_CHARS_PER_TOKEN
+  return Math.ceil(text.length / charsPerToken)
+}
+
+/**
+ * Computes how many tokens are left for files once the fixed parts of a prompt
+ * (instructions, commit messages) and the answer are accounted for.
+ *
+ * @param model - The model
+ * @param fixedPrompt - The prompt without any file sections
+ * @param scale - Share of the budget to use, less than 1 after the model rejected a prompt as too long
+ * @returns The token budget for file sections
+ */
+export function getPromptBudget(
+  model: ModelRef,
+  fixedPrompt: string,
+  scale = 1
+): number {
+  const contextWindow = getContextWindow(model)
+  const reserve = Math.min(OUTPUT_TOKEN_RESERVE, Math.floor(contextWindow / 4))
+  return Math.max(
+    0,
+    Math.floor(
+      (contextWindow - reserve - estimateTokens(fixedPrompt, model.modelId)) *
+        scale
+    )
+  )
+}
+
+/**
+ * Strips the directory and test/spec suffixes from a path, so "src/foo.ts"
+ * and "__tests__/unit/foo.test.tsx" both become "foo".
+ *
+ * @param filename - The path to normalize
+ * @returns The bare module name
+ */
+function getModuleName(filename: string): string {
+  return (filename.split("/").pop() ?? filename)
+    .replace(/\.(test|spec)(?=\.)/, "")
+    .replace(/\.[^.]+$/, "")
+}
+
+/**
+ * Scores how relevant a changed file is for the model. Higher is more relevant.
+ * - churn: more changed lines score higher, on a log scale
+ * - file type: source files beat tests, which beat docs and config
+ * - test proximity: source files with a matching test (and tests for changed
+ *   source files) score higher, since the model can relate the two
+ *
+ * @param file - The changed file to score
+ * @param relatedFilenames - Other changed files and existing tests
+ * @returns The relevance score
+ */
+export function scoreFileRelevance(
+  file: ContextFile,
+  relatedFilenames: string[]
+): number {
+  const churn = Math.log2(1 + file.additions + file.deletions)
+
+  const isTest = TEST_FILE.test(file.filename)
+  const extension = file.filename.split(".").pop()?.toLowerCase() ?? ""
+  const typeScore = isTest ? 2 : SOURCE_EXTENSIONS.has(extension) ? 3 : 0
+
+  const moduleName = getModuleName(file.filename)
+  const hasCounterpart = relatedFilenames.some(
+    other =>
+      other !== file.filename &&
+      TEST_FILE.test(other) !== isTest &&
+      getModuleName(other) === moduleName
+  )
+
+  return churn + typeScore + (hasCounterpart ? 2 : 0)
+}
+
+/**
+ * Extracts the lines of the new file around each hunk of the patch,
+ * merging ranges that overlap.
+ *
+ * @param content - The current content of the file
+ * @param patch - The file's patch
+ * @returns The surrounding lines, each prefixed with its line number
+ */
+export function extractSurroundingLines(
+  content: string,
+  patch: string
+): string {
+  const lines = content.split("\n")
+  const ranges: [number, number][] = []
+
+  for (const hunk of parsePatch(patch)) {
+    if (hunk.right.length === 0) continue
+    const start = Math.max(1, hunk.right[0] - SURROUNDING_LINES)
+    const end = Math.min(
+      lines.length,
+      hunk.right[hunk.right.length - 1] + SURROUNDING_LINES
+    )
+    const last = ranges[ranges.length - 1]
+    if (last && start <= last[1] + 1) {
+      last[1] = Math.max(last[1], end)
+    } else {
+      ranges.push([start, end])
+    }
+  }
+
+  return ranges
+    .map(([start, end]) =>
+      lines
+        .slice(start - 1, end)
+        .map((line, i) => `${start + i}: ${line}`)
+        .join("\n")
+    )
+    .join("\n...\n")
+}
+
+/**
+ * Renders a changed file at a given level of detail.
+ *
+ * @param file - The changed file
+ * @param detail - How much of the file to include
+ * @returns The prompt section for the file
+ */
+function renderFile(file: ContextFile, detail: FileDetail): string {
+  const header = `File: ${file.filename}\nStatus: ${file.status}\n`
+
+  switch (detail) {
+    case "full":
+      return `${header}Patch:\n${file.patch}\nCurrent Content:\n${file.content}\n`
+    case "hunks":
+      return `${header}Patch:\n${file.patch}\nContent Around Changes (the full file didn't fit):\n${extractSurroundingLines(file.content ?? "", file.patch)}\n`
+    case "patch":
+      return `${header}Patch:\n${file.patch}\n`
+    case "name":
+      return file.excluded
+        ? `${header}[EXCLUDED FROM PROMPT: ${file.excludedReason ?? "excluded"}]\n`
+        : `${header}[OMITTED: did not fit in the model's context window]\n`
+  }
+}
+
+/**
+ * Lists the levels of detail a file can be shown at, from most to least.
+ *
+ * @param file - The changed file
+ * @returns The possible levels
+ */
+function getAvailableDetails(file: ContextFile): FileDetail[] {
+  if (file.excluded) return ["name"]
+  const details: FileDetail[] = []
+  if (file.content !== undefined) details.push("full")
+  if (file.content !== undefined && file.patch) details.push("hunks")
+  if (file.patch) details.push("patch")
+  details.push("name")
+  return details
+}
+
+/**
+ * Packs changed files into a prompt section that fits the token budget.
+ * Every file is listed at least by name. Then, from most to least relevant,
+ * each file is upgraded to the richest level of detail that still fits.
+ *
+ * @param files - The PR's changed files
+ * @param options.modelId - The model the prompt is for
+ * @param options.budget - Tokens available for the file sections
+ * @param options.relatedFilenames - Existing test files, used for test proximity
+ * @returns The packed section and its composition
+ */
+export function packChangedFiles(
+  files: ContextFile[],
+  options: { modelId: string; budget: number; relatedFilenames?: string[] }
+): PackedContext {
+  const { modelId, budget } = options
+  const allFilenames = [
+    ...files.map(f => f.filename),
+    ...(options.relatedFilenames ?? [])
+  ]
+  const separatorTokens = estimateTokens("\n---\n", modelId)
+
+  // Rank by relevance; ties keep the order GitHub returned
+  const ranked = files
+    .map(file => ({ file, score: scoreFileRelevance(file, allFilenames) }))
+    .sort((a, b) => b.score - a.score)
+
+  // Start with every file at its smallest level
+  const packed = ranked.map(({ file, score }) => {
+    const text = renderFile(file, "name")
+    return {
+      file,
+      score,
+      detail: "name" as FileDetail,
+      text,
+      tokens: estimateTokens(text, modelId) + separatorTokens
+    }
+  })
+  let used = packed.reduce((sum, p) => sum + p.tokens, 0)
+
+  // Upgrade the most relevant files first
+  for (const entry of packed) {
+    for (const detail of getAvailableDetails(entry.file)) {
+      if (detail === "name") break
+      const text = renderFile(entry.file, detail)
+      const tokens = estimateTokens(text, modelId) + separatorTokens
+      if (used - entry.tokens + tokens <= budget) {
+        used += tokens - entry.tokens
+        Object.assign(entry, { detail, text, tokens })
+        break
+      }
+    }
+  }
+
+  return {
+    text: packed.map(p => p.text).join("\n---\n"),
+    files: packed.map(p => ({
+      filename: p.file.filename,
+      detail: p.detail,
+      tokens: p.tokens,
+      score: p.score
+    })),
+    tokens: used,
+    budget,
+    degradedCount: packed.filter(
+      p => p.detail !== getAvailableDetails(p.file)[0]
+    ).length
+  }
+}
+
+/**
+ * Packs existing test files into a prompt section that fits the token budget.
+ * Tests for the changed files come first. Each test is included in full if it
+ * fits, otherwise by name, and left out when not even its name fits.
+ *
+ * @param tests - Existing test files with their content
+ * @param changedFilenames - The PR's changed files
+ * @param options.modelId - The model the prompt is for
+ * @param options.budget - Tokens available for the test sections
+ * @returns The packed section and its composition
+ */
+export function packExistingTests(
+  tests: { filename: string; content: string }[],
+  changedFilenames: string[],
+  options: { modelId: string; budget: number }
+): PackedContext {
+  const { modelId, budget } = options
+  const changedModules = new Set(changedFilenames.map(getModuleName))
+  const separatorTokens = estimateTokens("\n", modelId)
+
+  // Tests of changed modules first, then the rest in their original order
+  const ranked = tests
+    .map(test => ({
+      test,
+      score: changedModules.has(getModuleName(test.filename)) ? 1 : 0
+    }))
+    .sort((a, b) => b.score - a.score)
+
+  // Most relevant first: in full if it fits, else by name if that fits, else left out
+  let used = 0
+  const packed = ranked.map(({ test, score }) => {
+    const full = `Existing test file: ${test.filename}\n---\n${test.content}\n---\n`
+    const fullTokens = estimateTokens(full, modelId) + separatorTokens
+    if (used + fullTokens <= budget) {
+      used += fullTokens
+      return {
+        test,
+        score,
+        detail: "full" as FileDetail,
+        text: full,
+        tokens: fullTokens
+      }
+    }
+    const name = `Existing test file: ${test.filename} [OMITTED: did not fit in the model's context window]\n`
+    const nameTokens = estimateTokens(name, modelId) + separatorTokens
+    const listed = used + nameTokens <= budget
+    if (listed) used += nameTokens
+    return {
+      test,
+      score,
+      detail: "name" as FileDetail,
+      text: listed ? name : "",
+      tokens: listed ? nameTokens : 0
+    }
+  })
+
+  return {
+    text: packed
+      .filter(p => p.text)
+      .map(p => p.text)
+      .join("\n"),
+    files: packed.map(p => ({
+      filename: p.test.filename,
+      detail: p.detail,
+      tokens: p.tokens,
+      score: p.score
+    })),
+    tokens: used,
+    budget,
+    degradedCount: packed.filter(p => p.detail === "name").length
+  }
+}
+
+/**
+ * Logs which files went into a prompt and at what level of detail.
+ *
+ * @param label - What the prompt is for, e.g. "review"
+ * @param modelId - The model the prompt is for
+ * @param budget - The total token budget for file sections
+ * @param sections - The packed sections of the prompt
+ */
+export function logPromptComposition(
+  label: string,
+  modelId: string,
+  budget: number,
+  sections: PackedContext[]
+) {
+  const used = sections.reduce((sum, s) => sum + s.tokens, 0)
+  const rows = sections
+    .flatMap(s => s.files)
+    .map(
+      f =>
+        `  ${f.detail.padEnd(5)} ${String(f.tokens).padStart(7)}  ${f.filename}`
+    )
+
+  console.log(
+    `\n=== Prompt composition (${label}, ${modelId}): ~${used}/${budget} file tokens ===\n${rows.join("\n")}\n================\n`
+  )
+}
+
+// Matches the module specifier of import/export ... from "x", import("x") and require("x")
+const IMPORT_SPECIFIER =
+  /(?:\bfrom\s+|\bimport\s*\(\s*|\brequire\s*\(\s*|^\s*import\s+)["']([^"']+)["']/gm
+
+// Extensions tried when resolving an import without one
+const RESOLVE_EXTENSIONS = ["ts", "tsx", "js", "jsx", "mjs", "cjs"]
+
+/**
+ * Resolves an import specifier to a repo path, for relative imports and the "@/" root alias.
+ *
+ * @param fromFile - The file containing the import
+ * @param specifier - The imported module, e.g. "./utils" or "@/lib/db"
+ * @returns The path without an extension, or undefined for package imports
+ */
+function resolveImportBase(
+  fromFile: string,
+  specifier: string
+): string | undefined {
+  let segments: string[]
+  if (specifier.startsWith("@/")) {
+    segments = specifier.slice(2).split("/")
+  } else if (specifier.startsWith(".")) {
+    segments = [...fromFile.split("/").slice(0, -1), ...specifier.split("/")]
+  } else {
+    return undefined
+  }
+
+  const resolved: string[] = []
+  for (const segment of segments) {
+    if (segment === "..") resolved.pop()
+    else if (segment !== "." && segment !== "") resolved.push(segment)
+  }
+  return resolved.join("/")
+}
+
+/**
+ * Finds which other changed files a file imports.
+ *
+ * @param file - The file whose imports to check
+ * @param filenames - All changed filenames
+ * @returns The changed files it imports
+ */
+export function findImportedFiles(
+  file: ContextFile,
+  filenames: Set<string>
+): string[] {
+  if (!file.content) return []
+
+  const imported = new Set<string>()
+  for (const match of file.content.matchAll(IMPORT_SPECIFIER)) {
+    const base = resolveImportBase(file.filename, match[1])
+    if (base === undefined) continue
+
+    const candidates = [
+      base,
+      ...RESOLVE_EXTENSIONS.map(ext => `${base}.${ext}`),
+      ...RESOLVE_EXTENSIONS.map(ext => `${base}/index.${ext}`)
+    ]
+    const target = candidates.find(c => filenames.has(c))
+    if (target && target !== file.filename) imported.add(target)
+  }
+  return Array.from(imported)
+}
+
+/**
+ * Splits changed files into batches that each fit the token budget, for reviewing
+ * large PRs in several passes. Files that import each other are kept together,
+ * and groups are packed in directory order so related directories share a batch.
+ * A group too large for one batch is split up.
+ *
+ * @param files - The PR's changed files
+ * @param options.modelId - The model the prompts are for
+ * @param options.budget - Tokens available for the file sections of one prompt
+ * @returns The batches, each a list of files
+ */
+export function groupFilesIntoBatches<T extends ContextFile>(
+  files: T[],
+  options: { modelId: string; budget: number }
+): T[][] {
+  const { modelId, budget } = options
+  const filenames = new Set(files.map(f => f.filename))
+
+  // Union-find over import relations between changed files
+  const parent = new Map(files.map(f => [f.filename, f.filename]))
+  const find = (name: string): string => {
+    const p = parent.get(name) ?? name
+    if (p === name) return name
+    const root = find(p)
+    parent.set(name, root)
+    return root
+  }
+  for (const file of files) {
+    for (const imported of findImportedFiles(file, filenames)) {
+      parent.set(find(file.filename), find(imported))
+    }
+  }
+
+  const groups = new Map<string, T[]>()
+  for (const file of files) {
+    const root = find(file.filename)
+    groups.set(root, [...(groups.get(root) ?? []), file])
+  }
+
+  // Cost of a file is what it takes to include it in full
+  const cost = (file: T) =>
+    estimateTokens(
+      renderFile(file, getAvailableDetails(file)[0]) + "\n---\n",
+      modelId
+    )
+
+  // Sort groups by directory so neighbouring directories end up in the same batch
+  const directoryOf = (group: T[]) =>
+    group[0].filename.split("/").slice(0, -1).join("/")
+  const sortedGroups = Array.from(groups.values())
+    .map(group => group.sort((a, b) => a.filename.localeCompare(b.filename)))
+    .sort((a, b) => directoryOf(a).localeCompare(directoryOf(b)))
+
+  const batches: T[][] = []
+  let current: T[] = []
+  let currentTokens = 0
+
+  const add = (file: T, tokens: number) => {
+    if (current.length > 0 && currentTokens + tokens > budget) {
+      batches.push(current)
+      current = []
+      currentTokens = 0
+    }
+    current.push(file)
+    currentTokens += tokens
+  }
+
+  for (const group of sortedGroups) {
+    const groupTokens = group.reduce((sum, f) => sum + cost(f), 0)
+
+    // Start a new batch rather than splitting a group that fits in one
+    if (
+      current.length > 0 &&
+      groupTokens <= budget &&
+      currentTokens + groupTokens > budget
+    ) {
+      batches.push(current)
+      current = []
+      currentTokens = 0
+    }
+    for (const file of group) add(file, cost(file))
+  }
+  if (current.length > 0) batches.push(current)
+
+  return batches
+}
@@ -0,0 +1,263 @@
+/*
+<ai_context>
+This file contains the coverage measurement used to guide test generation.
+It runs jest with babel (istanbul) coverage in the sandbox workspace, reads the JSON report
+and works out which of the lines a PR added are run by tests and which aren't.
+The uncovered line ranges go into the generation prompt, and the coverage of the
+changed lines before and after the generated tests is reported in the PR comment.
+</ai_context>
+*/
+
+import { existsSync } from "fs"
+import { readFile, rm } from "fs/promises"
+import path from "path"
+import { parsePatch } from "./diff"
+import { runCommand } from "./sandbox"
+
+// Where the coverage report is written inside the workspace, as in this repo's jest config
+const COVERAGE_DIRECTORY = "reports/jest/coverage"
+
+/**
+ * The parts of one file's entry in an istanbul coverage-final.json report we use.
+ */
+export interface IstanbulFileCoverage {
+  statementMap: Record<string, { start: { line: number } }>
+  s: Record<string, number> // Hit count of each statement
+  all?: boolean // Only set by the v8 provider, whose "statements" are source lines
+}
+
+/**
+ * Coverage of the changed lines of one file. Only lines holding a statement count;
+ * blank lines, comments and type declarations can't be covered.
+ */
+export interface FileLineCoverage {
+  filename: string
+  lines: number[] // Changed lines that hold a statement
+  uncovered: number[] // Those of them no test runs
+}
+
+/**
+ * Coverage of the changed lines across the PR.
+ */
+export interface ChangedLineCoverage {
+  files: FileLineCoverage[]
+  covered: number
+  total: number
+}
+
+/**
+ * Collects the lines each file gained in the PR from its patch.
+ *
+ * @param files - The changed files to collect lines for
+ * @returns The added (new-file) line numbers of each file that has any
+ */
+export function getChangedLines(
+  files: { filename: string; patch?: string }[]
+): Map<string, number[]> {
+  const changed = new Map<string, number[]>()
+  for (const file of files) {
+    if (!file.patch) continue
+    const lines = parsePatch(file.patch).flatMap(h => h.added)
+    if (lines.length > 0) changed.set(file.filename, lines)
+  }
+  return changed
+}
+
+/**
+ * Works out how often each line of a file ran, from the statements starting on it
+ * (the same way istanbul computes line coverage).
+ *
+ * @param coverage - The file's entry in the coverage report
+ * @returns The hit count of each line that holds a statement
+ */
+export function getLineHits(
+  coverage: IstanbulFileCoverage
+): Map<number, number> {
+  const hits = new Map<number, number>()
+  for (const [id, statement] of Object.entries(coverage.statementMap)) {
+    const line = statement.start.line
+    hits.set(line, Math.max(hits.get(line) ?? 0, coverage.s[id] ?? 0))
+  }
+  return hits
+}
+
+/**
+ * Checks whether a report entry comes from jest's v8 coverage provider. Its
+ * statement map has one entry per source line, blank lines, comments and type
+ * declarations included, so it can't tell which changed lines hold code.
+ *
+ * @param coverage - The file's entry in the coverage report
+ * @returns true for a v8 entry
+ */
+export function isV8FileCoverage(coverage: IstanbulFileCoverage): boolean {
+  return "all" in coverage
+}
+
+/**
+ * Intersects a coverage report with the changed lines.
+ * Files missing from the report (e.g. ones jest couldn't transform) are left out,
+ * and so are entries written by the v8 provider, which would miscount the lines.
+ *
+ * @param report - The parsed coverage-final.json, keyed by absolute path
+ * @param changedLines - The changed lines of each file, keyed by repo-relative path
+ * @param rootDir - The directory the report's paths are relative to
+ * @returns Coverage of the changed lines
+ */
+export function computeChangedLineCoverage(
+  report: Record<string, IstanbulFileCoverage>,
+  changedLines: Map<string, number[]>,
+  rootDir: string
+): ChangedLineCoverage {
+  // Report keys are absolute, and use the platform's separators
+  const byFilename = new Map(
+    Object.entries(report).map(([key, coverage]) => [
+      path.relative(rootDir, key).split(path.sep).join("/"),
+      coverage
+    ])
+  )
+
+  const files: FileLineCoverage[] = []
+  for (const [filename, changed] of changedLines) {
+    const coverage = byFilename.get(filename)
+    if (!coverage || isV8FileCoverage(coverage)) continue
+    const hits = getLineHits(coverage)
+    const lines = changed.filter(line => hits.has(line))
+    if (lines.length === 0) continue
+    files.push({
+      filename,
+      lines,
+      uncovered: lines.filter(line => hits.get(line) === 0)
+    })
+  }
+
+  const total = files.reduce((sum, f) => sum + f.lines.length, 0)
+  const uncovered = files.reduce((sum, f) => sum + f.uncovered.length, 0)
+  return { files, covered: total - uncovered, total }
+}
+
+/**
+ * Runs the tests related to the changed files with coverage and measures the changed lines.
+ * A failing test doesn't stop the measurement; whatever ran still counts.
+ *
+ * @param dir - The workspace directory
+ * @param changedLines - The changed lines of each file, keyed by repo-relative path
+ * @param timeoutMs - Timeout for the test run
+ * @returns Coverage of the changed lines, or undefined if jest didn't write a report
+ */
+export async function measureChangedLineCoverage(
+  dir: string,
+  changedLines: Map<string, number[]>,
+  timeoutMs: number
+): Promise<ChangedLineCoverage | undefined> {
+  const filenames = Array.from(changedLines.keys())
+  if (filenames.length === 0) return undefined
+
+  // Don't pick up the report of an earlier measurement if this run writes none
+  const reportPath = path.join(dir, COVERAGE_DIRECTORY, "coverage-final.json")
+  await rm(reportPath, { force: true })
+  const result = await runCommand(
+    "npx",
+    [
+      "--no-install",
+      "jest",
+      "--ci",
+      "--coverage",
+      "--coverageReporters=json",
+      `--coverageDirectory=${COVERAGE_DIRECTORY}`,
+      // The repo's config may pick v8, whose line counts include blank lines and comments
+      "--coverageProvider=babel",
+      // Changed files no test imports still show up in the report, with nothing covered
+      ...filenames.map(f => `--collectCoverageFrom=${f}`),
+      "--passWithNoTests",
+      "--findRelatedTests",
+      ...filenames
+    ],
+    { cwd: dir, timeoutMs }
+  )
+
+  if (!existsSync(reportPath)) {
+    console.error(
+      `No coverage report was written (exit code ${result.exitCode}${result.timedOut ? ", timed out" : ""}):`,
+      result.output
+    )
+    return undefined
+  }
+  const report = JSON.parse(await readFile(reportPath, "utf8"))
+  return computeChangedLineCoverage(report, changedLines, dir)
+}
+
+/**
+ * Collapses sorted line numbers into ranges, e.g. [3, 4, 5, 9] -> "3-5, 9".
+ *
+ * @param lines - Line numbers in ascending order
+ * @returns The ranges, comma-separated
+ */
+export function formatLineRanges(lines: number[]): string {
+  const ranges: string[] = []
+  for (let i = 0; i < lines.length; i++) {
+    const start = lines[i]
+    while (i + 1 < lines.length && lines[i + 1] === lines[i] + 1) i++
+    ranges.push(start === lines[i] ? `${start}` : `${start}-${lines[i]}`)
+  }
+  return ranges.join(", ")
+}
+
+/**
+ * Formats the share of changed lines covered, e.g. "40% (12 of 30 lines)".
+ *
+ * @param coverage - Coverage of the changed lines
+ * @returns The percentage and line counts
+ */
+function formatPercentage(coverage: { covered: number; total: number }) {
+  return `${Math.round((coverage.covered / coverage.total) * 100)}% (${coverage.covered} of ${coverage.total} lines)`
+}
+
+/**
+ * Describes the changed lines the existing tests don't run, for the prompts.
+ *
+ * @param coverage - Coverage of the changed lines before any tests were generated
+ * @returns The coverage section of a prompt
+ */
+export function describeUncoveredLines(coverage: ChangedLineCoverage): string {
+  if (coverage.total === 0) return ""
+  const uncovered = coverage.files.filter(f => f.uncovered.length > 0)
+  if (uncovered.length === 0) {
+    return `The existing tests already run every changed line (${formatPercentage(coverage)}). Only add tests for behavior they don't check yet.`
+  }
+  return `The existing tests run ${formatPercentage(coverage)} of the changed lines. These changed lines are not run by any test yet; write tests that exercise them first (line numbers are in the new version of each file):
+${uncovered.map(f => `- ${f.filename}: lines ${formatLineRanges(f.uncovered)}`).join("\n")}`
+}
+
+/**
+ * Formats the coverage of the changed lines before and after the generated tests for the PR comment.
+ *
+ * @param before - Coverage with the existing tests
+ * @param after - Coverage with the generated tests added, if it was measured
+ * @returns A markdown section, or an empty string if no changed line can be covered
+ */
+export function formatCoverageChange(
+  before: ChangedLineCoverage,
+  after?: ChangedLineCoverage
+): string {
+  if (before.total === 0) return ""
+  if (!after || after.total === 0) {
+    return `📊 Coverage of the changed lines: ${formatPercentage(before)}`
+  }
+
+  const rows = before.files.map(file => {
+    const afterFile = after.files.find(f => f.filename === file.filename)
+    const cell = (f?: FileLineCoverage) =>
+      f ? `${f.lines.length - f.uncovered.length}/${f.lines.length}` : "n/a"
+    return `| \`${file.filename}\` | ${cell(file)} | ${cell(afterFile)} |`
+  })
+  return `📊 Coverage of the changed lines: ${formatPercentage(before)} → ${formatPercentage(after)}
+
+<details>
+<summary>Covered lines per file</summary>
+
+| File | Before | After |
+| --- | --- | --- |
+${rows.join("\n")}
+
+</details>`
+}
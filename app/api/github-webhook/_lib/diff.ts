@@ -0,0 +1,227 @@
+/*
+<ai_context>
+This file contains helpers for working with unified diff patches as returned by GitHub
+in changedFiles[].patch. It figures out which lines of a file can carry an inline
+review comment, and maps a line range from the AI onto those lines.
+It also computes line-level changes between two versions of a file, for suggested changes.
+</ai_context>
+*/
+
+// Which version of the file a line belongs to: LEFT is the old file, RIGHT the new one
+export type DiffSide = "LEFT" | "RIGHT"
+
+/**
+ * One hunk of a unified diff, with the line numbers visible on each side.
+ */
+export interface DiffHunk {
+  left: number[] // Old-file line numbers shown in the hunk (context and deletions)
+  right: number[] // New-file line numbers shown in the hunk (context and additions)
+  added: number[] // New-file line numbers that were added
+  removed: number[] // Old-file line numbers that were removed
+}
+
+/**
+ * A position GitHub's Pull Request Reviews API accepts for an inline comment.
+ * Field names match the API (line, side, start_line, start_side).
+ */
+export interface DiffAnchor {
+  line: number
+  side: DiffSide
+  start_line?: number
+  start_side?: DiffSide
+}
+
+/**
+ * A run of lines replaced between two versions of a file.
+ * Pure insertions have endLine = startLine - 1 and go before startLine.
+ */
+export interface LineChange {
+  startLine: number // First old line replaced (1-based)
+  endLine: number // Last old line replaced
+  lines: string[] // The new lines
+}
+
+// Above this many line pairs the diff isn't worth computing; the file is replaced as a whole
+const MAX_DIFF_CELLS = 4_000_000
+
+// Matches a hunk header like "@@ -12,7 +12,9 @@ optional section heading"
+const HUNK_HEADER = /^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/
+
+/**
+ * Parses a unified diff patch into hunks.
+ *
+ * @param patch - The patch text from GitHub
+ * @returns The hunks in the order they appear
+ */
+export function parsePatch(patch: string): DiffHunk[] {
+  const hunks: DiffHunk[] = []
+  let current: DiffHunk | undefined
+  let leftLine = 0
+  let rightLine = 0
+
+  for (const line of patch.split("\n")) {
+    const header = HUNK_HEADER.exec(line)
+    if (header) {
+      current = { left: [], right: [], added: [], removed: [] }
+      hunks.push(current)
+      leftLine = Number(header[1])
+      rightLine = Number(header[2])
+      continue
+    }
+
+    // Ignore anything before the first hunk and "\ No newline at end of file" markers
+    if (!current || line.startsWith("\\")) continue
+
+    if (line.startsWith("+")) {
+      current.right.push(rightLine)
+      current.added.push(rightLine)
+      rightLine++
+    } else if (line.startsWith("-")) {
+      current.left.push(leftLine)
+      current.removed.push(leftLine)
+      leftLine++
+    } else {
+      // Context line, visible on both sides
+      current.left.push(leftLine)
+      current.right.push(rightLine)
+      leftLine++
+      rightLine++
+    }
+  }
+
+  return hunks
+}
+
+/**
+ * Maps a line range onto a diff so it can be posted as an inline review comment.
+ * GitHub only accepts comments on lines shown in the diff, and a multi-line
+ * comment must stay within one hunk. If only part of the range is visible,
+ * the range is narrowed to the visible lines of the first hunk it overlaps.
+ *
+ * @param patch - The patch of the file the comment is for
+ * @param range - The lines the comment refers to
+ * @returns An anchor for the Reviews API, or undefined if the range isn't in the diff
+ */
+export function anchorToDiff(
+  patch: string,
+  range: { startLine: number; endLine: number; side: DiffSide }
+): DiffAnchor | undefined {
+  const { side } = range
+  const startLine = Math.min(range.startLine, range.endLine)
+  const endLine = Math.max(range.startLine, range.endLine)
+
+  for (const hunk of parsePatch(patch)) {
+    const visible = side === "LEFT" ? hunk.left : hunk.right
+    const inRange = visible.filter(l => l >= startLine && l <= endLine)
+    if (inRange.length === 0) continue
+
+    const first = inRange[0]
+    const last = inRange[inRange.length - 1]
+
+    if (first === last) {
+      return { line: last, side }
+    }
+    return { line: last, side, start_line: first, start_side: side }
+  }
+
+  return undefined
+}
+
+/**
+ * Returns an anchor for a RIGHT-side line range only if every line of it is
+ * visible in one hunk. Unlike anchorToDiff the range is never narrowed,
+ * which matters for suggested changes that replace exactly those lines.
+ *
+ * @param patch - The patch of the file
+ * @param startLine - First line of the range in the new file
+ * @param endLine - Last line of the range in the new file
+ * @returns An anchor for the Reviews API, or undefined if part of the range isn't in the diff
+ */
+export function anchorRangeExactly(
+  patch: string,
+  startLine: number,
+  endLine: number
+): DiffAnchor | undefined {
+  for (const hunk of parsePatch(patch)) {
+    const visible = new Set(hunk.right)
+    let covered = true
+    for (let line = startLine; line <= endLine && covered; line++) {
+      covered = visible.has(line)
+    }
+    if (!covered) continue
+
+    return startLine === endLine
+      ? { line: endLine, side: "RIGHT" }
+      : {
+          line: endLine,
+          side: "RIGHT",
+          start_line: startLine,
+          start_side: "RIGHT"
+        }
+  }
+  return undefined
+}
+
+/**
+ * Computes the lines that changed between two versions of a file, using the
+ * longest common subsequence of their lines.
+ *
+ * @param oldText - The current content
+ * @param newText - The new content
+ * @returns The runs of replaced lines, in file order
+ */
+export function diffLines(oldText: string, newText: string): LineChange[] {
+  // A final newline doesn't make an extra line
+  const a = oldText.replace(/\n$/, "").split("\n")
+  const b = newText.replace(/\n$/, "").split("\n")
+  const n = a.length
+  const m = b.length
+
+  if (oldText === newText) return []
+  if ((n + 1) * (m + 1) > MAX_DIFF_CELLS) {
+    return [{ startLine: 1, endLine: n, lines: b }]
+  }
+
+  // lcs[i * (m + 1) + j] is the LCS length of a[i..] and b[j..]
+  const lcs = new Uint32Array((n + 1) * (m + 1))
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] =
+        a[i] === b[j]
+          ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1])
+    }
+  }
+
+  const changes: LineChange[] = []
+  let current: LineChange | undefined
+  let i = 0
+  let j = 0
+  while (i < n || j < m) {
+    if (i < n && j < m && a[i] === b[j]) {
+      current = undefined
+      i++
+      j++
+      continue
+    }
+
+    if (!current) {
+      current = { startLine: i + 1, endLine: i, lines: [] }
+      changes.push(current)
+    }
+    if (
+      j >= m ||
+      (i < n && lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1])
+    ) {
+      // Old line removed
+      current.endLine = i + 1
+      i++
+    } else {
+      // New line added
+      current.lines.push(b[j])
+      j++
+    }
+  }
+
+  return changes
+}
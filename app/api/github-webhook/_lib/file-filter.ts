@@ -0,0 +1,279 @@
+/*
+<ai_context>
+This file contains the rules that decide which changed files are sent to the AI.
+Files are excluded by the repo's include/exclude globs (with "!" negation),
+by linguist-generated / linguist-vendored attributes in .gitattributes,
+and by looking at the content for binary data, generated-file headers and minified code.
+Every exclusion carries a human-readable reason so it can be reported on the PR.
+</ai_context>
+*/
+
+import { minimatch } from "minimatch"
+
+// Where GitHub's linguist attributes are read from
+export const GITATTRIBUTES_PATH = ".gitattributes"
+
+// Extensions of files that are never text, so we don't even fetch them
+const BINARY_EXTENSIONS = new Set([
+  "png",
+  "jpg",
+  "jpeg",
+  "gif",
+  "webp",
+  "ico",
+  "bmp",
+  "tiff",
+  "avif",
+  "heic",
+  "pdf",
+  "zip",
+  "gz",
+  "tgz",
+  "bz2",
+  "xz",
+  "7z",
+  "rar",
+  "jar",
+  "war",
+  "woff",
+  "woff2",
+  "ttf",
+  "otf",
+  "eot",
+  "mp3",
+  "mp4",
+  "mov",
+  "avi",
+  "webm",
+  "wav",
+  "ogg",
+  "flac",
+  "exe",
+  "dll",
+  "so",
+  "dylib",
+  "bin",
+  "wasm",
+  "class",
+  "pyc",
+  "o",
+  "a",
+  "sqlite",
+  "db"
+])
+
+// Markers that tools put at the top of files they generate
+const GENERATED_HEADER =
+  /@generated\b|\bdo not edit\b|\bthis file (is|was|has been) (auto-?)?generated\b|\bcode generated by\b/i
+
+// Only the top of a file is checked for a generated header
+const GENERATED_HEADER_SCAN_LENGTH = 1000
+
+// Minified code has very long lines; normal source almost never does
+const MINIFIED_AVERAGE_LINE_LENGTH = 300
+const MINIFIED_LONGEST_LINE = 1000
+
+/**
+ * One line of a .gitattributes file: a path pattern and the attributes it sets.
+ * true means the attribute is set ("attr" or "attr=true"), false that it is unset
+ * ("-attr" or "attr=false").
+ */
+export interface GitAttributeRule {
+  pattern: string
+  attributes: Record<string, boolean>
+}
+
+/**
+ * Checks a path against an ordered list of globs, gitignore style:
+ * a pattern starting with "!" re-includes paths matched by an earlier pattern,
+ * and the last matching pattern wins.
+ *
+ * @param filename - Path of the file relative to the repo root
+ * @param patterns - Globs like "dist/**" or "!dist/keep.js"
+ * @returns The last pattern that matched without a "!", or undefined if no pattern applies
+ */
+export function matchGlobList(
+  filename: string,
+  patterns: string[]
+): string | undefined {
+  let matched: string | undefined
+
+  for (const pattern of patterns) {
+    const negated = pattern.startsWith("!")
+    const glob = negated ? pattern.slice(1) : pattern
+    if (minimatch(filename, glob, { dot: true })) {
+      matched = negated ? undefined : pattern
+    }
+  }
+
+  return matched
+}
+
+/**
+ * Parses the text of a .gitattributes file.
+ * Comments, blank lines and macro definitions ("[attr]...") are skipped.
+ *
+ * @param text - Content of the .gitattributes file
+ * @returns The rules in file order
+ */
+export function parseGitAttributes(text: string): GitAttributeRule[] {
+  const rules: GitAttributeRule[] = []
+
+  for (const rawLine of text.split("\n")) {
+    const line = rawLine.trim()
+    if (!line || line.startsWith("#") || line.startsWith("[attr]")) continue
+
+    const [pattern, ...tokens] = line.split(/\s+/)
+    const attributes: Record<string, boolean> = {}
+    for (const token of tokens) {
+      if (token.startsWith("-") || token.startsWith("!")) {
+        attributes[token.slice(1)] = false
+      } else {
+        const [name, value] = token.split("=")
+        attributes[name] = value === undefined || value !== "false"
+      }
+    }
+    rules.push({ pattern, attributes })
+  }
+
+  return rules
+}
+
+/**
+ * Checks whether a .gitattributes pattern applies to a path.
+ * Like git, a pattern without a slash matches the file name at any depth,
+ * and a leading slash anchors the pattern at the repo root.
+ *
+ * @param filename - Path of the file relative to the repo root
+ * @param pattern - The pattern from .gitattributes
+ * @returns true if the pattern matches
+ */
+function matchesAttributePattern(filename: string, pattern: string): boolean {
+  if (!pattern.includes("/")) {
+    return minimatch(filename, pattern, { dot: true, matchBase: true })
+  }
+  const anchored = pattern.startsWith("/") ? pattern.slice(1) : pattern
+  return (
+    minimatch(filename, anchored, { dot: true }) ||
+    // "dir/**" style patterns also match the directory's contents
+    minimatch(filename, `${anchored.replace(/\/$/, "")}/**`, { dot: true })
+  )
+}
+
+/**
+ * Looks up the value of an attribute for a path. Later rules override earlier ones.
+ *
+ * @param filename - Path of the file relative to the repo root
+ * @param rules - Rules from parseGitAttributes
+ * @param attribute - Attribute name, e.g. "linguist-generated"
+ * @returns true or false if a rule sets the attribute, undefined otherwise
+ */
+export function getGitAttribute(
+  filename: string,
+  rules: GitAttributeRule[],
+  attribute: string
+): boolean | undefined {
+  let value: boolean | undefined
+
+  for (const rule of rules) {
+    if (
+      attribute in rule.attributes &&
+      matchesAttributePattern(filename, rule.pattern)
+    ) {
+      value = rule.attributes[attribute]
+    }
+  }
+
+  return value
+}
+
+/**
+ * Decides from the path alone whether a file should be excluded.
+ * This runs before the content is fetched, so excluded files cost no API calls.
+ *
+ * @param filename - Path of the file relative to the repo root
+ * @param files - The files section of the repo config
+ * @param attributes - Rules from the repo's .gitattributes
+ * @returns Why the file is excluded, or undefined if it should be analyzed
+ */
+export function getPathExclusionReason(
+  filename: string,
+  files: { include: string[]; exclude: string[] },
+  attributes: GitAttributeRule[]
+): string | undefined {
+  // With include globs set, anything outside of them is excluded
+  if (files.include.length > 0 && !matchGlobList(filename, files.include)) {
+    return "not matched by `files.include`"
+  }
+
+  const excludedBy = matchGlobList(filename, files.exclude)
+  if (excludedBy) {
+    return `matches exclude pattern \`${excludedBy}\``
+  }
+
+  if (getGitAttribute(filename, attributes, "linguist-generated")) {
+    return "marked `linguist-generated` in .gitattributes"
+  }
+  if (getGitAttribute(filename, attributes, "linguist-vendored")) {
+    return "marked `linguist-vendored` in .gitattributes"
+  }
+
+  const extension = filename.split(".").pop()?.toLowerCase() ?? ""
+  if (filename.includes(".") && BINARY_EXTENSIONS.has(extension)) {
+    return "binary file"
+  }
+
+  return undefined
+}
+
+/**
+ * Decides from the fetched content whether a file should be excluded.
+ *
+ * @param content - The file content, decoded as UTF-8
+ * @returns Why the file is excluded, or undefined if it should be analyzed
+ */
+export function getContentExclusionReason(content: string): string | undefined {
+  // Binary data decoded as UTF-8 contains NUL bytes or replacement characters
+  if (content.includes("\u0000") || content.includes("\uFFFD")) {
+    return "binary file"
+  }
+
+  if (GENERATED_HEADER.test(content.slice(0, GENERATED_HEADER_SCAN_LENGTH))) {
+    return "generated file (header says so)"
+  }
+
+  const lines = content.split("\n")
+  const longestLine = lines.reduce((max, l) => Math.max(max, l.length), 0)
+  if (
+    longestLine > MINIFIED_LONGEST_LINE &&
+    content.length / lines.length > MINIFIED_AVERAGE_LINE_LENGTH
+  ) {
+    return "minified file"
+  }
+
+  return undefined
+}
+
+/**
+ * Formats the list of excluded files for a PR comment, in a collapsed section.
+ * Removed files are left out since there is nothing to analyze in them.
+ *
+ * @param changedFiles - The changed files of the PR context
+ * @returns Markdown for the comment, or an empty string if nothing was excluded
+ */
+export function formatExcludedFiles(
+  changedFiles: { filename: string; status: string; excludedReason?: string }[]
+): string {
+  const excluded = changedFiles.filter(
+    f => f.excludedReason && f.status !== "removed"
+  )
+  if (excluded.length === 0) return ""
+
+  return `<details>
+<summary>${excluded.length} file(s) not analyzed</summary>
+
+${excluded.map(f => `- \`${f.filename}\`: ${f.excludedReason}`).join("\n")}
+
+</details>
+`
+}
@@ -0,0 +1,237 @@
+/*
+<ai_context>
+This file contains helpers for writing to a repository through GitHub's Git Data API.
+All file changes go into one tree and one commit, so a branch never ends up with half of
+the generated tests, and the branch ref is only moved if it still points at the commit
+the changes were made for (a compare-and-swap), so commits pushed in the meantime are never clobbered.
+</ai_context>
+*/
+
+import { octokit } from "./github"
+
+// Regular, non-executable file
+const FILE_MODE = "100644"
+
+/**
+ * A file to write in a commit. Content null deletes the file;
+ * previousFilename is deleted in the same commit, for renames.
+ */
+export interface FileChange {
+  filename: string
+  content: string | null
+  previousFilename?: string
+}
+
+/**
+ * What a commit did to each file, for the commit message and the PR comment.
+ */
+export interface CommitSummary {
+  sha: string
+  created: string[]
+  updated: string[]
+  renamed: { from: string; to: string }[]
+  deleted: string[]
+}
+
+/**
+ * Thrown when the branch no longer points at the commit the changes were made for.
+ */
+export class BranchMovedError extends Error {
+  constructor(
+    public readonly branch: string,
+    public readonly expectedSha: string,
+    public readonly actualSha?: string
+  ) {
+    super(
+      `Branch ${branch} moved from ${expectedSha.slice(0, 7)}${actualSha ? ` to ${actualSha.slice(0, 7)}` : ""}`
+    )
+    this.name = "BranchMovedError"
+  }
+}
+
+/**
+ * Checks whether a file exists at a commit.
+ *
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param path - Path of the file
+ * @param sha - The commit to look in
+ * @returns true if the path is a file at that commit
+ */
+async function fileExists(
+  owner: string,
+  repo: string,
+  path: string,
+  sha: string
+): Promise<boolean> {
+  try {
+    const { data } = await octokit.repos.getContent({
+      owner,
+      repo,
+      path,
+      ref: sha
+    })
+    return !Array.isArray(data) && data.type === "file"
+  } catch (err: any) {
+    if (err.status === 404) return false
+    throw err
+  }
+}
+
+/**
+ * Builds a commit message: the title, then the files grouped by what happened to them.
+ *
+ * @param title - First line of the message
+ * @param summary - The files of the commit
+ * @returns The commit message
+ */
+export function buildCommitMessage(
+  title: string,
+  summary: Omit<CommitSummary, "sha">
+): string {
+  const sections: [string, string[]][] = [
+    ["Created", summary.created],
+    ["Updated", summary.updated],
+    ["Renamed", summary.renamed.map(r => `${r.from} -> ${r.to}`)],
+    ["Deleted", summary.deleted]
+  ]
+  const body = sections
+    .filter(([, files]) => files.length > 0)
+    .map(
+      ([heading, files]) =>
+        `${heading}:\n${files.map(file => `- ${file}`).join("\n")}`
+    )
+    .join("\n\n")
+  return body ? `${title}\n\n${body}` : title
+}
+
+/**
+ * Commits file changes to a branch as a single commit on top of expectedHeadSha.
+ * The ref update isn't forced, so GitHub rejects it if the branch moved after we checked it.
+ *
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param options.branch - The branch to commit to
+ * @param options.expectedHeadSha - The commit the branch must still point at
+ * @param options.title - First line of the commit message
+ * @param options.changes - The files to create, update, rename or delete
+ * @returns The new commit and what it did to each file
+ * @throws BranchMovedError if the branch no longer points at expectedHeadSha
+ */
+export async function commitFiles(
+  owner: string,
+  repo: string,
+  options: {
+    branch: string
+    expectedHeadSha: string
+    title: string
+    changes: FileChange[]
+  }
+): Promise<CommitSummary> {
+  const { branch, expectedHeadSha, title, changes } = options
+
+  // Fail early instead of building a commit we can't push
+  const { data: ref } = await octokit.git.getRef({
+    owner,
+    repo,
+    ref: `heads/${branch}`
+  })
+  if (ref.object.sha !== expectedHeadSha) {
+    throw new BranchMovedError(branch, expectedHeadSha, ref.object.sha)
+  }
+
+  const { data: headCommit } = await octokit.git.getCommit({
+    owner,
+    repo,
+    commit_sha: expectedHeadSha
+  })
+
+  const summary: Omit<CommitSummary, "sha"> = {
+    created: [],
+    updated: [],
+    renamed: [],
+    deleted: []
+  }
+  const tree: {
+    path: string
+    mode: typeof FILE_MODE
+    type: "blob"
+    content?: string
+    sha?: null
+  }[] = []
+
+  for (const change of changes) {
+    // Deleting a path that doesn't exist makes the whole tree invalid
+    const exists = await fileExists(
+      owner,
+      repo,
+      change.filename,
+      expectedHeadSha
+    )
+
+    if (change.content === null) {
+      if (exists) {
+        tree.push({
+          path: change.filename,
+          mode: FILE_MODE,
+          type: "blob",
+          sha: null
+        })
+        summary.deleted.push(change.filename)
+      }
+      continue
+    }
+
+    const previous = change.previousFilename
+    if (
+      previous &&
+      previous !== change.filename &&
+      (await fileExists(owner, repo, previous, expectedHeadSha))
+    ) {
+      tree.push({ path: previous, mode: FILE_MODE, type: "blob", sha: null })
+      summary.renamed.push({ from: previous, to: change.filename })
+    } else if (exists) {
+      summary.updated.push(change.filename)
+    } else {
+      summary.created.push(change.filename)
+    }
+    tree.push({
+      path: change.filename,
+      mode: FILE_MODE,
+      type: "blob",
+      content: change.content
+    })
+  }
+
+  const { data: newTree } = await octokit.git.createTree({
+    owner,
+    repo,
+    base_tree: headCommit.tree.sha,
+    tree
+  })
+  const { data: commit } = await octokit.git.createCommit({
+    owner,
+    repo,
+    message: buildCommitMessage(title, summary),
+    tree: newTree.sha,
+    parents: [expectedHeadSha]
+  })
+
+  try {
+    await octokit.git.updateRef({
+      owner,
+      repo,
+      ref: `heads/${branch}`,
+      sha: commit.sha,
+      force: false
+    })
+  } catch (err: any) {
+    // Not a fast-forward: someone pushed to the branch while we were building the commit
+    if (err.status === 422) {
+      throw new BranchMovedError(branch, expectedHeadSha)
+    }
+    throw err
+  }
+
+  return { sha: commit.sha, ...summary }
+}
@@ -8,6 +8,8 @@ It sets up authentication and provides utility functions for accessing repositor
 import { createAppAuth } from "@octokit/auth-app"
 import { Octokit } from "@octokit/rest"
 import { Buffer } from "buffer"
+import { mapWithConcurrency } from "./concurrency"
+import { installRateLimitHandling } from "./rate-limit"
 
 // Required environment variables for GitHub App authentication
 const { GH_APP_ID, GH_PRIVATE_KEY, GH_INSTALLATION_ID } = process.env
@@ -32,6 +34,30 @@ export const octokit = new Octokit({
   }
 })
 
+// Pause or retry requests when GitHub's rate limits are hit
+installRateLimitHandling(octokit)
+
+// The largest page size GitHub's list endpoints accept
+const PER_PAGE = 100
+
+// The compare API lists at most this many changed files, with no way to page through more
+const MAX_COMPARE_FILES = 300
+
+// How many blobs are fetched at once
+const BLOB_FETCH_CONCURRENCY = 8
+
+/**
+ * Creates a short-lived installation access token, e.g. for cloning the repository.
+ *
+ * @returns The token
+ */
+export async function getInstallationToken(): Promise<string> {
+  const { token } = (await octokit.auth({ type: "installation" })) as {
+    token: string
+  }
+  return token
+}
+
 /**
  * Retrieves the content of a specific file from a GitHub repository.
  *
@@ -39,18 +65,32 @@ export const octokit = new Octokit({
  * @param repo - The name of the repository
  * @param path - The path to the file within the repository
  * @param ref - The git reference (branch name, commit SHA, etc.) to fetch from
+ * @param options.timeoutMs - Abort the request after this long; it also isn't paused
+ * or retried for rate limits, since that would take longer than the timeout
  * @returns The file content as a UTF-8 string, or undefined if the file doesn't exist
  */
 export async function getFileContent(
   owner: string,
   repo: string,
   path: string,
-  ref: string
+  ref: string,
+  options: { timeoutMs?: number } = {}
 ) {
   try {
     // Fetch the file content from GitHub using octokit
     // The GitHub response returns file content in a base64-encoded string
-    const response = await octokit.repos.getContent({ owner, repo, path, ref })
+    const response = await octokit.repos.getContent({
+      owner,
+      repo,
+      path,
+      ref,
+      ...(options.timeoutMs !== undefined && {
+        request: {
+          signal: AbortSignal.timeout(options.timeoutMs),
+          rateLimitWait: false
+        }
+      })
+    })
 
     // Check if we received file content (instead of directory info or an error)
     if (
@@ -71,3 +111,154 @@ export async function getFileContent(
     throw err
   }
 }
+
+/**
+ * Lists every file changed in a pull request, across all pages.
+ * GitHub returns at most 3000 files for a pull request.
+ *
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param pullNumber - The pull request number
+ * @returns The changed files with their patches
+ */
+export async function listPullRequestFiles(
+  owner: string,
+  repo: string,
+  pullNumber: number
+) {
+  return octokit.paginate(octokit.pulls.listFiles, {
+    owner,
+    repo,
+    pull_number: pullNumber,
+    per_page: PER_PAGE
+  })
+}
+
+/**
+ * Lists every commit of a pull request, across all pages.
+ * GitHub returns at most 250 commits for a pull request.
+ *
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param pullNumber - The pull request number
+ * @returns The commits, oldest first
+ */
+export async function listPullRequestCommits(
+  owner: string,
+  repo: string,
+  pullNumber: number
+) {
+  return octokit.paginate(octokit.pulls.listCommits, {
+    owner,
+    repo,
+    pull_number: pullNumber,
+    per_page: PER_PAGE
+  })
+}
+
+/**
+ * Compares two commits, collecting the commits from all pages.
+ * GitHub only includes the changed files (up to 300) on the first page,
+ * so a comparison at that limit may be missing files.
+ *
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param base - The older commit
+ * @param head - The newer commit
+ * @returns The comparison status, all commits, the changed files and whether files may be missing
+ */
+export async function compareCommits(
+  owner: string,
+  repo: string,
+  base: string,
+  head: string
+) {
+  const fetchPage = (page: number) =>
+    octokit.repos.compareCommitsWithBasehead({
+      owner,
+      repo,
+      basehead: `${base}...${head}`,
+      per_page: PER_PAGE,
+      page
+    })
+
+  const { data: first } = await fetchPage(1)
+  const commits = [...first.commits]
+  for (let page = 2; commits.length < first.total_commits; page++) {
+    const { data } = await fetchPage(page)
+    if (data.commits.length === 0) break
+    commits.push(...data.commits)
+  }
+
+  const files = first.files ?? []
+  return {
+    status: first.status,
+    commits,
+    files,
+    filesTruncated: files.length >= MAX_COMPARE_FILES
+  }
+}
+
+/**
+ * Lists every file in the repository with one recursive Git Trees API call,
+ * instead of walking each directory with one request per entry.
+ *
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param ref - Branch, tag or commit to list
+ * @returns Path and blob SHA of every file
+ */
+export async function listRepoFiles(
+  owner: string,
+  repo: string,
+  ref: string
+): Promise<{ path: string; sha: string }[]> {
+  const { data } = await octokit.git.getTree({
+    owner,
+    repo,
+    tree_sha: ref,
+    recursive: "true"
+  })
+
+  // Very large repositories get a truncated tree; we work with what we got
+  if (data.truncated) {
+    console.warn(
+      `Tree of ${owner}/${repo}@${ref} was truncated, some files may be missing`
+    )
+  }
+
+  return data.tree
+    .filter(
+      entry =>
+        entry.type === "blob" &&
+        entry.path !== undefined &&
+        entry.sha !== undefined
+    )
+    .map(entry => ({ path: entry.path!, sha: entry.sha! }))
+}
+
+/**
+ * Fetches the content of many blobs, a few requests at a time.
+ *
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param blobs - Path and SHA of each blob, e.g. from listRepoFiles
+ * @returns The path and UTF-8 content of each blob, in input order
+ */
+export async function fetchBlobContents(
+  owner: string,
+  repo: string,
+  blobs: { path: string; sha: string }[]
+): Promise<{ path: string; content: string }[]> {
+  return mapWithConcurrency(blobs, BLOB_FETCH_CONCURRENCY, async blob => {
+    const { data } = await octokit.git.getBlob({
+      owner,
+      repo,
+      file_sha: blob.sha
+    })
+    return {
+      path: blob.path,
+      content: Buffer.from(data.content, "base64").toString("utf8")
+    }
+  })
+}
@@ -5,24 +5,26 @@ It processes pull request data and prepares it for analysis by the AI agents.
 </ai_context>
 */
 
-import { getFileContent, octokit } from "./github"
+import { AgentConfig, loadRepoConfig } from "./config"
+import {
+  getContentExclusionReason,
+  getPathExclusionReason,
+  GITATTRIBUTES_PATH,
+  parseGitAttributes
+} from "./file-filter"
+import {
+  compareCommits,
+  fetchBlobContents,
+  getFileContent,
+  listPullRequestCommits,
+  listPullRequestFiles,
+  listRepoFiles,
+  octokit
+} from "./github"
+import { detectTestSetup, isTestFilename, TestSetup } from "./test-frameworks"
 
-// Size limit for files to be included in the analysis (32KB)
-// We exclude files larger than this to avoid token limit issues in the AI
-const SIZE_THRESHOLD = 32000
-
-// List of files to always exclude from analysis (like lock files)
-const EXCLUDE_PATTERNS = ["package-lock.json", "yarn.lock", "pnpm-lock.yaml"]
-
-/**
- * Checks if a file should be excluded from analysis based on its filename.
- *
- * @param filename - The name of the file to check
- * @returns true if the file matches the exclude patterns, false otherwise
- */
-function shouldExcludeFile(filename: string): boolean {
-  return EXCLUDE_PATTERNS.some(pattern => filename.endsWith(pattern))
-}
+// Most existing test files fetched as context; tests of the changed files come first
+const MAX_EXISTING_TEST_FILES = 300
 
 /**
  * Base interface for pull request context.
@@ -33,8 +35,11 @@ export interface PullRequestContext {
   repo: string
   pullNumber: number
   headRef: string
+  headSha: string
   baseRef: string
   title: string
+  labels: string[] // Names of the labels on the PR
+  isFork: boolean // True if the head branch lives in another repository, where we can't push
   changedFiles: {
     filename: string
     patch: string
@@ -43,8 +48,26 @@ export interface PullRequestContext {
     deletions: number
     content?: string
     excluded?: boolean
+    excludedReason?: string // Why the file's content isn't sent to the model
   }[]
   commitMessages: string[]
+  // The repository's .github/ai-agent.yml (or defaults) and any problems found in it
+  config: AgentConfig
+  configErrors: string[]
+  // Set when only the commits pushed since a previous review are being reviewed
+  previousReview?: PreviousReview
+  // Incremental reviews only: each file's patch against the PR's base, which inline
+  // comments are anchored to (changedFiles holds the patches since the previous review)
+  pullRequestPatches?: Record<string, string>
+}
+
+/**
+ * A review that was already posted for an earlier head commit of the PR.
+ */
+export interface PreviousReview {
+  headSha: string // The head commit the previous review covered
+  commentId?: number // The comment the previous review was posted in
+  fullReviewReason?: string // Why the full PR diff is used instead, e.g. history was rewritten
 }
 
 /**
@@ -56,6 +79,111 @@ export interface PullRequestContextWithTests extends PullRequestContext {
     filename: string
     content: string
   }[]
+  // The repository's test frameworks and where its tests live
+  testSetup: TestSetup
+}
+
+/**
+ * Builds the changedFiles entries for a list of files returned by GitHub,
+ * fetching the current content of each file that isn't excluded.
+ * Files are excluded by the config's globs, by linguist attributes in the
+ * base branch's .gitattributes (so a PR can't hide its own files from review),
+ * and by their content (binary, generated or minified).
+ *
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param ref - Git reference to fetch file content from
+ * @param baseRef - The PR's base branch, where .gitattributes is read from
+ * @param config - The repo config (for include/exclude globs)
+ * @param files - Files as returned by the pulls.listFiles or repos.compareCommits APIs
+ * @returns The changed files for a PullRequestContext
+ */
+async function buildChangedFiles(
+  owner: string,
+  repo: string,
+  ref: string,
+  baseRef: string,
+  config: AgentConfig,
+  files: {
+    filename: string
+    patch?: string
+    status: string
+    additions: number
+    deletions: number
+  }[]
+): Promise<PullRequestContext["changedFiles"]> {
+  const attributesText = await getFileContent(
+    owner,
+    repo,
+    GITATTRIBUTES_PATH,
+    baseRef
+  )
+  const attributes = attributesText ? parseGitAttributes(attributesText) : []
+
+  return Promise.all(
+    files.map(async file => {
+      const fileObj = {
+        filename: file.filename,
+        patch: file.patch ?? "",
+        status: file.status,
+        additions: file.additions,
+        deletions: file.deletions,
+        content: undefined as string | undefined,
+        excluded: false,
+        excludedReason: undefined as string | undefined
+      }
+
+      // Removed files and files excluded by path don't need their content fetched
+      const pathReason =
+        file.status === "removed"
+          ? "file was removed"
+          : getPathExclusionReason(file.filename, config.files, attributes)
+      if (pathReason) {
+        fileObj.excluded = true
+        fileObj.excludedReason = pathReason
+        return fileObj
+      }
+
+      const fileContent = await getFileContent(owner, repo, file.filename, ref)
+
+      // Large files are kept; the context builder decides how much of them fits the prompt
+      const contentReason =
+        fileContent === undefined
+          ? "content not available"
+          : getContentExclusionReason(fileContent)
+      if (contentReason) {
+        fileObj.excluded = true
+        fileObj.excludedReason = contentReason
+      } else {
+        fileObj.content = fileContent
+      }
+
+      return fileObj
+    })
+  )
+}
+
+/**
+ * Reads the names of the labels on the PR from a webhook payload.
+ *
+ * @param payload - The raw webhook payload from GitHub
+ * @returns The label names
+ */
+function getPullRequestLabels(payload: any): string[] {
+  return (payload.pull_request.labels ?? []).map((l: any) => l.name)
+}
+
+/**
+ * Checks whether a PR comes from a fork. The head repository is null when
+ * the fork was deleted, which we treat as a fork too.
+ *
+ * @param payload - The raw webhook payload from GitHub
+ * @returns true if the head branch isn't in the PR's repository
+ */
+function isForkPullRequest(payload: any): boolean {
+  return (
+    payload.pull_request.head.repo?.full_name !== payload.repository.full_name
+  )
 }
 
 /**
@@ -73,60 +201,36 @@ export async function handlePullRequestBase(
   const repo = payload.repository.name
   const pullNumber = payload.pull_request.number
   const headRef = payload.pull_request.head.ref
+  const headSha = payload.pull_request.head.sha
   const baseRef = payload.pull_request.base.ref
   const title = payload.pull_request.title
+  const labels = getPullRequestLabels(payload)
+  const isFork = isForkPullRequest(payload)
 
-  // Fetch the list of files changed in this PR using octokit
-  const filesRes = await octokit.pulls.listFiles({
+  // Load the repo's agent config from the base branch
+  const { config, errors: configErrors } = await loadRepoConfig(
     owner,
     repo,
-    pull_number: pullNumber
-  })
-
-  // Process each changed file
-  const changedFiles = await Promise.all(
-    filesRes.data.map(async file => {
-      const fileObj = {
-        filename: file.filename,
-        patch: file.patch ?? "",
-        status: file.status,
-        additions: file.additions,
-        deletions: file.deletions,
-        content: undefined as string | undefined,
-        excluded: false
-      }
+    baseRef
+  )
 
-      // Only fetch file content if the file wasn't removed and doesn't match exclude patterns
-      if (file.status !== "removed" && !shouldExcludeFile(file.filename)) {
-        const fileContent = await getFileContent(
-          owner,
-          repo,
-          file.filename,
-          headRef
-        )
-
-        // Exclude files that exceed the SIZE_THRESHOLD to avoid large embeddings
-        if (fileContent && fileContent.length <= SIZE_THRESHOLD) {
-          fileObj.content = fileContent
-        } else {
-          fileObj.excluded = true
-        }
-      } else {
-        // If removed or explicitly excluded by pattern, mark it as excluded
-        fileObj.excluded = true
-      }
+  // Fetch the list of files changed in this PR, across all pages
+  const files = await listPullRequestFiles(owner, repo, pullNumber)
 
-      return fileObj
-    })
+  // Process each changed file. Content is read at the head commit, which (unlike
+  // the head branch of a fork PR) can always be read from this repository.
+  const changedFiles = await buildChangedFiles(
+    owner,
+    repo,
+    headSha,
+    baseRef,
+    config,
+    files
   )
 
   // Fetch commit messages in the PR to give the AI more context
-  const commitsRes = await octokit.pulls.listCommits({
-    owner,
-    repo,
-    pull_number: pullNumber
-  })
-  const commitMessages = commitsRes.data.map(c => c.commit.message)
+  const commits = await listPullRequestCommits(owner, repo, pullNumber)
+  const commitMessages = commits.map(c => c.commit.message)
 
   // Return the final PR context
   return {
@@ -134,73 +238,178 @@ export async function handlePullRequestBase(
     repo,
     pullNumber,
     headRef,
+    headSha,
     baseRef,
     title,
+    labels,
+    isFork,
     changedFiles,
-    commitMessages
+    commitMessages,
+    config,
+    configErrors
   }
 }
 
 /**
- * Recursively fetches all test files from a repository folder for additional context.
- * This is primarily used by the test agent to see what tests already exist.
+ * Builds a context that only covers the commits pushed since a previous review.
+ * The diff is computed between the previously reviewed head commit and the new one.
+ * If the branch was force-pushed (the old commit is no longer an ancestor),
+ * or more files changed than the compare API lists, we fall back to the full PR diff.
  *
- * @param owner - Repository owner
- * @param repo - Repository name
- * @param ref - Git reference (branch/commit) to fetch from
- * @param dirPath - Directory path to look in (defaults to "__tests__")
- * @returns Array of {filename, content} for each test file found
+ * @param payload - The raw webhook payload (typically a pull_request.synchronize event)
+ * @param previousReview - The review that was posted for an earlier head commit
+ * @returns A PullRequestContext with previousReview set
  */
-async function getAllTestFiles(
-  owner: string,
-  repo: string,
-  ref: string,
-  dirPath = "__tests__"
-): Promise<{ filename: string; content: string }[]> {
-  const results: { filename: string; content: string }[] = []
+export async function handlePullRequestIncremental(
+  payload: any,
+  previousReview: PreviousReview
+): Promise<PullRequestContext> {
+  const owner = payload.repository.owner.login
+  const repo = payload.repository.name
+  const headSha = payload.pull_request.head.sha
 
-  try {
-    // Attempt to list contents of the given directory
-    const { data } = await octokit.repos.getContent({
-      owner,
-      repo,
-      path: dirPath,
-      ref
-    })
+  // Compare the previously reviewed commit with the new head
+  const comparison = await compareCommits(
+    owner,
+    repo,
+    previousReview.headSha,
+    headSha
+  )
 
-    // If it's an array, it represents a directory listing
-    if (Array.isArray(data)) {
-      for (const item of data) {
-        if (item.type === "file") {
-          // If it's a file, fetch its content
-          const fileContent = await getFileContent(owner, repo, item.path, ref)
-          if (fileContent) {
-            results.push({
-              filename: item.path,
-              content: fileContent
-            })
-          }
-        } else if (item.type === "dir") {
-          // If it's a directory, recurse into it
-          const subDirFiles = await getAllTestFiles(owner, repo, ref, item.path)
-          results.push(...subDirFiles)
-        }
-      }
+  // History was rewritten, so an incremental diff would be misleading,
+  // or files are missing from the comparison, so it would be incomplete
+  const fullReviewReason =
+    comparison.status !== "ahead"
+      ? "The branch history was rewritten"
+      : comparison.filesTruncated
+        ? "Too many files changed to list only the new changes"
+        : undefined
+  if (fullReviewReason) {
+    console.log(
+      `Compare ${previousReview.headSha}...${headSha} is ${comparison.status} with ${comparison.files.length} files, reviewing the full PR`
+    )
+    const fullContext = await handlePullRequestBase(payload)
+    return {
+      ...fullContext,
+      previousReview: { ...previousReview, fullReviewReason }
     }
-  } catch (err: any) {
-    // If the directory doesn't exist, it's not an error; we just skip
-    if (err.status === 404) {
-      console.log(`No ${dirPath} folder found, skipping.`)
-    } else {
-      console.error("Error in getAllTestFiles:", err)
+  }
+
+  const { config, errors: configErrors } = await loadRepoConfig(
+    owner,
+    repo,
+    payload.pull_request.base.ref
+  )
+
+  // After the base branch is merged into the PR, the comparison also contains the
+  // base branch's changes; only files the PR itself changes are reviewed
+  const pullRequestFiles = await listPullRequestFiles(
+    owner,
+    repo,
+    payload.pull_request.number
+  )
+  const pullRequestPatches = Object.fromEntries(
+    pullRequestFiles.map(f => [f.filename, f.patch ?? ""])
+  )
+  const changedFiles = await buildChangedFiles(
+    owner,
+    repo,
+    headSha,
+    payload.pull_request.base.ref,
+    config,
+    comparison.files.filter(f => f.filename in pullRequestPatches)
+  )
+
+  return {
+    owner,
+    repo,
+    pullNumber: payload.pull_request.number,
+    headRef: payload.pull_request.head.ref,
+    headSha,
+    baseRef: payload.pull_request.base.ref,
+    title: payload.pull_request.title,
+    labels: getPullRequestLabels(payload),
+    isFork: isForkPullRequest(payload),
+    changedFiles,
+    // Only the new commits are relevant for an incremental review
+    commitMessages: comparison.commits.map(c => c.commit.message),
+    config,
+    configErrors,
+    previousReview,
+    pullRequestPatches
+  }
+}
+
+/**
+ * Detects the repository's test setup at the PR's head commit and fetches its
+ * existing test files, wherever they live, for additional context.
+ *
+ * @param context - The base pull request context
+ * @returns The test setup and the content of the existing test files
+ */
+async function getTestSetupAndFiles(context: PullRequestContext): Promise<{
+  testSetup: TestSetup
+  existingTestFiles: { filename: string; content: string }[]
+}> {
+  const { owner, repo, headSha, config, changedFiles } = context
+
+  // One tree listing for the whole repository
+  let files: { path: string; sha: string }[] = []
+  let packageJson: string | undefined
+  try {
+    files = await listRepoFiles(owner, repo, headSha)
+    if (files.some(f => f.path === "package.json")) {
+      packageJson = await getFileContent(owner, repo, "package.json", headSha)
     }
+  } catch (err) {
+    // Carry on with whatever the config says and the defaults
+    console.error("Error listing repository files:", err)
+  }
+
+  const testSetup = detectTestSetup(
+    files.map(f => f.path),
+    packageJson,
+    config.tests
+  )
+  console.log(
+    `Test setup: ${testSetup.unit.framework} unit tests in ${testSetup.unit.directory ?? "(next to the code)"}, ${testSetup.e2e.framework} e2e tests in ${testSetup.e2e.directory} (${testSetup.evidence.join("; ") || "defaults"})`
+  )
+
+  // Tests named like a changed file first, in case there are too many to fetch
+  const stem = (filename: string) => filename.split("/").pop()!.split(".")[0]
+  const changedStems = new Set(changedFiles.map(f => stem(f.filename)))
+  const blobs = files
+    .filter(f => isTestFilename(f.path))
+    .sort(
+      (a, b) =>
+        Number(changedStems.has(stem(b.path))) -
+        Number(changedStems.has(stem(a.path)))
+    )
+    .slice(0, MAX_EXISTING_TEST_FILES)
+  if (blobs.length === 0) {
+    console.log("No existing test files found, skipping.")
+    return { testSetup, existingTestFiles: [] }
   }
 
-  return results
+  try {
+    const contents = await fetchBlobContents(owner, repo, blobs)
+    return {
+      testSetup,
+      existingTestFiles: contents.map(f => ({
+        filename: f.path,
+        content: f.content
+      }))
+    }
+  } catch (err) {
+    // Existing tests are extra context, so carry on without them
+    console.error("Error fetching existing test files:", err)
+    return { testSetup, existingTestFiles: [] }
+  }
 }
 
 /**
- * Enhanced version of handlePullRequestBase that also fetches existing test files.
+ * Enhanced version of handlePullRequestBase that also detects the test setup
+ * and fetches existing test files.
  * Useful for the test agent, which needs to know about prior tests.
  *
  * @param payload - The raw webhook payload
@@ -211,17 +420,13 @@ export async function handlePullRequestForTestAgent(
 ): Promise<PullRequestContextWithTests> {
   // Grab the base context
   const baseContext = await handlePullRequestBase(payload)
-
-  // Fetch existing tests from the repo
-  const existingTestFiles = await getAllTestFiles(
-    baseContext.owner,
-    baseContext.repo,
-    baseContext.headRef
-  )
+  const { testSetup, existingTestFiles } =
+    await getTestSetupAndFiles(baseContext)
 
   return {
     ...baseContext,
-    existingTestFiles
+    existingTestFiles,
+    testSetup
   }
 }
 
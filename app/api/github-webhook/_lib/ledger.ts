@@ -0,0 +1,384 @@
+/*
+<ai_context>
+This file contains the delivery and run ledger.
+It remembers every X-GitHub-Delivery ID we've accepted and every agent run we've started,
+so redelivered webhooks and repeated labels don't produce duplicate comments or reviews,
+and runs for an outdated head commit can be cancelled when a newer commit arrives.
+</ai_context>
+*/
+
+import { randomUUID } from "crypto"
+import path from "path"
+import { AgentName } from "./queue"
+import { getDataDir, readJsonFile, withFileLock, writeJsonFile } from "./store"
+
+// pending -> running -> completed | failed, or cancelled when superseded by a newer commit
+export type RunStatus =
+  | "pending"
+  | "running"
+  | "completed"
+  | "failed"
+  | "cancelled"
+
+// Statuses that count as "this commit is already being handled or was handled"
+const ACTIVE_OR_DONE: RunStatus[] = ["pending", "running", "completed"]
+
+// Statuses of runs that are still in flight
+const IN_FLIGHT: RunStatus[] = ["pending", "running"]
+
+// Entries older than this are pruned from the ledger
+const RETENTION_MS = 30 * 24 * 60 * 60 * 1000
+
+/**
+ * One agent run for one pull request at one head commit.
+ */
+export interface AgentRun {
+  id: string
+  owner: string
+  repo: string
+  pullNumber: number
+  agent: AgentName
+  headSha: string
+  status: RunStatus
+  deliveryId?: string
+  cancelReason?: string
+  commentId?: number // The PR comment the agent posted its results in
+  checkRunId?: number // The check run the agent reports to, reused when the job is retried
+  deliveredAt?: string // When generated tests were delivered; a retried job must not deliver them again
+  createdAt: string
+  updatedAt: string
+}
+
+/**
+ * A webhook delivery we've accepted.
+ */
+export interface DeliveryRecord {
+  deliveryId: string
+  event: string
+  action?: string
+  receivedAt: string
+}
+
+interface LedgerData {
+  deliveries: DeliveryRecord[]
+  runs: AgentRun[]
+}
+
+/**
+ * Input for starting a new run.
+ */
+export interface StartRunInput {
+  owner: string
+  repo: string
+  pullNumber: number
+  agent: AgentName
+  headSha: string
+  deliveryId?: string
+}
+
+/**
+ * Thrown by RunGuard.throwIfCancelled when a newer run has superseded this one.
+ */
+export class RunCancelledError extends Error {
+  constructor(
+    public readonly runId: string,
+    reason = "Run was cancelled"
+  ) {
+    super(reason)
+    this.name = "RunCancelledError"
+  }
+}
+
+/**
+ * Handed to the agents so they can stop cooperatively between steps.
+ */
+export interface RunGuard {
+  runId: string
+  throwIfCancelled(): Promise<void>
+}
+
+/**
+ * Returns the path of the ledger file inside the data directory.
+ */
+function getLedgerPath(): string {
+  return path.join(getDataDir(), "ledger.json")
+}
+
+/**
+ * Applies a mutation to the ledger while holding its lock.
+ */
+async function mutateLedger<T>(fn: (data: LedgerData) => T): Promise<T> {
+  const filePath = getLedgerPath()
+  return withFileLock(filePath, async () => {
+    const data = await readJsonFile<LedgerData>(filePath, {
+      deliveries: [],
+      runs: []
+    })
+    const result = fn(data)
+
+    // Prune old entries so the ledger stays small
+    const cutoff = Date.now() - RETENTION_MS
+    data.deliveries = data.deliveries.filter(
+      d => new Date(d.receivedAt).getTime() > cutoff
+    )
+    data.runs = data.runs.filter(
+      r =>
+        IN_FLIGHT.includes(r.status) || new Date(r.updatedAt).getTime() > cutoff
+    )
+
+    await writeJsonFile(filePath, data)
+    return result
+  })
+}
+
+/**
+ * Cancels the in-flight runs among the given ones, as superseded by a newer commit.
+ *
+ * @param runs - Runs of the same PR, none of them for headSha
+ * @param headSha - The newer head commit
+ * @param now - ISO timestamp to record
+ * @returns How many runs were cancelled
+ */
+function cancelInFlightRuns(
+  runs: AgentRun[],
+  headSha: string,
+  now: string
+): number {
+  let cancelled = 0
+  for (const run of runs) {
+    if (IN_FLIGHT.includes(run.status)) {
+      run.status = "cancelled"
+      run.cancelReason = `Superseded by ${headSha.slice(0, 7)}`
+      run.updatedAt = now
+      cancelled++
+    }
+  }
+  return cancelled
+}
+
+/**
+ * Records a delivery ID.
+ *
+ * @param delivery - The delivery to record
+ * @returns true if this is the first time we've seen the delivery, false for a redelivery
+ */
+export async function claimDelivery(
+  delivery: Omit<DeliveryRecord, "receivedAt">
+): Promise<boolean> {
+  return mutateLedger(data => {
+    if (data.deliveries.some(d => d.deliveryId === delivery.deliveryId)) {
+      return false
+    }
+    data.deliveries.push({ ...delivery, receivedAt: new Date().toISOString() })
+    return true
+  })
+}
+
+/**
+ * Forgets a delivery ID, e.g. when we failed to enqueue its work and want
+ * GitHub's redelivery to be processed.
+ *
+ * @param deliveryId - The X-GitHub-Delivery ID
+ */
+export async function releaseDelivery(deliveryId: string) {
+  await mutateLedger(data => {
+    data.deliveries = data.deliveries.filter(d => d.deliveryId !== deliveryId)
+  })
+}
+
+/**
+ * Starts a run for a PR, agent and head commit.
+ * If a run for the same commit is already in flight or done, nothing is started.
+ * In-flight runs for an older commit of the same PR and agent are cancelled.
+ *
+ * @param input - What to run
+ * @returns The new run, or the existing one with duplicate=true
+ */
+export async function startRun(
+  input: StartRunInput
+): Promise<{ run: AgentRun; duplicate: boolean }> {
+  return mutateLedger(data => {
+    const samePullAndAgent = data.runs.filter(
+      r =>
+        r.owner === input.owner &&
+        r.repo === input.repo &&
+        r.pullNumber === input.pullNumber &&
+        r.agent === input.agent
+    )
+
+    // Same commit already handled (or being handled): deduplicate
+    const existing = samePullAndAgent.find(
+      r => r.headSha === input.headSha && ACTIVE_OR_DONE.includes(r.status)
+    )
+    if (existing) {
+      return { run: { ...existing }, duplicate: true }
+    }
+
+    const now = new Date().toISOString()
+
+    // Older commits are superseded by this one
+    cancelInFlightRuns(samePullAndAgent, input.headSha, now)
+
+    const run: AgentRun = {
+      id: randomUUID(),
+      ...input,
+      status: "pending",
+      createdAt: now,
+      updatedAt: now
+    }
+    data.runs.push(run)
+    return { run: { ...run }, duplicate: false }
+  })
+}
+
+/**
+ * Cancels the in-flight runs of every agent on a PR that are for another head commit.
+ * Called for every new push, whatever agents it triggers, so e.g. a test generation
+ * run for an old commit doesn't deliver tests after the PR has moved on.
+ *
+ * @param pull - The PR and its new head commit
+ * @returns How many runs were cancelled
+ */
+export async function cancelSupersededRuns(pull: {
+  owner: string
+  repo: string
+  pullNumber: number
+  headSha: string
+}): Promise<number> {
+  return mutateLedger(data =>
+    cancelInFlightRuns(
+      data.runs.filter(
+        r =>
+          r.owner === pull.owner &&
+          r.repo === pull.repo &&
+          r.pullNumber === pull.pullNumber &&
+          r.headSha !== pull.headSha
+      ),
+      pull.headSha,
+      new Date().toISOString()
+    )
+  )
+}
+
+/**
+ * Looks up a run by ID.
+ *
+ * @param runId - The run ID
+ * @returns The run, or undefined if it isn't in the ledger
+ */
+export async function getRun(runId: string): Promise<AgentRun | undefined> {
+  const data = await readJsonFile<LedgerData>(getLedgerPath(), {
+    deliveries: [],
+    runs: []
+  })
+  return data.runs.find(r => r.id === runId)
+}
+
+/**
+ * Finds the most recent completed run of the same agent on the same PR
+ * for a different head commit, e.g. the review to build on for a new push.
+ *
+ * @param runId - The current run
+ * @returns The previous completed run, or undefined if there is none
+ */
+export async function getPreviousCompletedRun(
+  runId: string
+): Promise<AgentRun | undefined> {
+  const data = await readJsonFile<LedgerData>(getLedgerPath(), {
+    deliveries: [],
+    runs: []
+  })
+  const current = data.runs.find(r => r.id === runId)
+  if (!current) return undefined
+
+  return data.runs
+    .filter(
+      r =>
+        r.owner === current.owner &&
+        r.repo === current.repo &&
+        r.pullNumber === current.pullNumber &&
+        r.agent === current.agent &&
+        r.headSha !== current.headSha &&
+        r.status === "completed"
+    )
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0]
+}
+
+/**
+ * Remembers which PR comment a run posted its results in.
+ *
+ * @param runId - The run ID
+ * @param commentId - The GitHub comment ID
+ */
+export async function setRunCommentId(runId: string, commentId: number) {
+  await mutateLedger(data => {
+    const run = data.runs.find(r => r.id === runId)
+    if (!run) return
+    run.commentId = commentId
+    run.updatedAt = new Date().toISOString()
+  })
+}
+
+/**
+ * Remembers which check run a run reports to, so a retried job
+ * completes the same check instead of leaving it in progress.
+ *
+ * @param runId - The run ID
+ * @param checkRunId - The GitHub check run ID
+ */
+export async function setRunCheckRunId(runId: string, checkRunId: number) {
+  await mutateLedger(data => {
+    const run = data.runs.find(r => r.id === runId)
+    if (!run) return
+    run.checkRunId = checkRunId
+    run.updatedAt = new Date().toISOString()
+  })
+}
+
+/**
+ * Remembers that a run delivered its generated tests, so a retried job
+ * doesn't push, suggest or open a PR for them a second time.
+ *
+ * @param runId - The run ID
+ */
+export async function setRunDelivered(runId: string) {
+  await mutateLedger(data => {
+    const run = data.runs.find(r => r.id === runId)
+    if (!run) return
+    run.deliveredAt = new Date().toISOString()
+    run.updatedAt = run.deliveredAt
+  })
+}
+
+/**
+ * Updates the status of a run. Cancelled runs stay cancelled.
+ *
+ * @param runId - The run ID
+ * @param status - The new status
+ */
+export async function updateRunStatus(runId: string, status: RunStatus) {
+  await mutateLedger(data => {
+    const run = data.runs.find(r => r.id === runId)
+    if (!run || run.status === "cancelled") return
+    run.status = status
+    run.updatedAt = new Date().toISOString()
+  })
+}
+
+/**
+ * Creates a guard the agents use to check for cancellation between steps.
+ *
+ * @param runId - The run to watch
+ * @returns A RunGuard for that run
+ */
+export function createRunGuard(runId: string): RunGuard {
+  return {
+    runId,
+    async throwIfCancelled() {
+      const run = await getRun(runId)
+      if (run?.status === "cancelled") {
+        throw new RunCancelledError(runId, run.cancelReason)
+      }
+    }
+  }
+}
@@ -0,0 +1,220 @@
+/*
+<ai_context>
+This file contains the policy every LLM call goes through.
+Errors are classified by what can be done about them: transient errors (rate limits, server
+errors, timeouts) are retried with an exponential backoff or the delay the provider asks for
+(retry-after), prompts too long for the model's context window are rebuilt smaller and sent again,
+and auth errors are reported as they are since retrying can't fix them.
+The model router wraps each model with the timeout and backoff, so the agents don't retry
+calls themselves; the AI SDK's own retries are turned off at each call (maxRetries: 0).
+</ai_context>
+*/
+
+import {
+  APICallError,
+  LanguageModel,
+  LoadAPIKeyError,
+  RetryError,
+  wrapLanguageModel
+} from "ai"
+
+/**
+ * What kind of problem a failed LLM call had, which decides what is done about it:
+ * - transient: rate limits, server errors and timeouts; retried after a backoff
+ * - context-length: the prompt is too long for the model; sent again smaller
+ * - auth: missing or rejected credentials; retrying won't help
+ * - other: anything else, e.g. a bad request or an answer that couldn't be used
+ */
+export type LLMErrorKind = "transient" | "context-length" | "auth" | "other"
+
+// How often a call with a transient error is retried
+const MAX_RETRIES = 3
+
+// First backoff after a transient error, doubled per retry
+const BASE_BACKOFF_MS = 2000
+
+// Longest we wait before a retry; a provider asking for more is treated as failed
+const MAX_WAIT_MS = 60 * 1000
+
+// Shares of the prompt budget tried in turn when the prompt is too long for the model
+const PROMPT_SCALES = [1, 0.5, 0.25]
+
+// How providers and local servers say the prompt doesn't fit the context window
+const CONTEXT_LENGTH_PATTERN =
+  /context[ _-]?length|context window|maximum context|prompt is too long|too many tokens|reduce the length|input is too long|exceeds? the (?:model's )?max/i
+
+/**
+ * Checks whether an error is the abort of a call that took too long.
+ *
+ * @param error - The error
+ * @returns true for timeouts and aborted requests
+ */
+function isTimeout(error: unknown): boolean {
+  const name = (error as { name?: string } | undefined)?.name
+  return name === "TimeoutError" || name === "AbortError"
+}
+
+/**
+ * Classifies the error of a failed LLM call.
+ *
+ * @param error - The error thrown by the AI SDK or the provider registry
+ * @returns The kind of error
+ */
+export function classifyLLMError(error: unknown): LLMErrorKind {
+  // The AI SDK wraps the errors of calls it retried itself
+  if (RetryError.isInstance(error)) return classifyLLMError(error.lastError)
+  if (isTimeout(error)) return "transient"
+  if (LoadAPIKeyError.isInstance(error)) return "auth"
+
+  const message = error instanceof Error ? error.message : String(error)
+  if (APICallError.isInstance(error)) {
+    const status = error.statusCode ?? 0
+    if (
+      status === 413 ||
+      CONTEXT_LENGTH_PATTERN.test(`${message} ${error.responseBody ?? ""}`)
+    ) {
+      return "context-length"
+    }
+    if (status === 401 || status === 403) return "auth"
+    // Connection failures have no status but are marked as retryable
+    if (
+      status === 408 ||
+      status === 429 ||
+      status >= 500 ||
+      error.isRetryable
+    ) {
+      return "transient"
+    }
+    return "other"
+  }
+
+  // Errors from the provider registry, e.g. "Missing OPENAI_API_KEY for OpenAI usage."
+  if (/missing \w*api_key/i.test(message)) return "auth"
+  if (CONTEXT_LENGTH_PATTERN.test(message)) return "context-length"
+  return "other"
+}
+
+/**
+ * Describes a failed LLM call for the PR comment.
+ *
+ * @param error - The error
+ * @returns What went wrong, or undefined if it wasn't an LLM problem we can name
+ */
+export function describeLLMError(error: unknown): string | undefined {
+  switch (classifyLLMError(error)) {
+    case "auth":
+      return "The LLM provider rejected the credentials or none are configured. Check the API key of the configured provider."
+    case "context-length":
+      return "The changes don't fit the model's context window, even after shrinking the prompt. Configure a model with a larger context window for this repository."
+    case "transient":
+      return "The LLM provider was unavailable or rate limited, even after retrying."
+    default:
+      return undefined
+  }
+}
+
+/**
+ * Checks whether a failed call is worth retrying and how long to wait first.
+ * Timeouts aren't retried on the same model; the model router moves on to the next one.
+ *
+ * @param error - The error of the call
+ * @param attempt - How many times the call was already retried
+ * @returns Milliseconds to wait before retrying, or undefined if it shouldn't be retried
+ */
+export function getLLMRetryDelayMs(
+  error: unknown,
+  attempt: number
+): number | undefined {
+  if (classifyLLMError(error) !== "transient" || isTimeout(error)) {
+    return undefined
+  }
+
+  const headers = APICallError.isInstance(error) ? error.responseHeaders : {}
+  const retryAfterMs = Number(headers?.["retry-after-ms"])
+  if (!Number.isNaN(retryAfterMs) && headers?.["retry-after-ms"]) {
+    return retryAfterMs
+  }
+  const retryAfter = Number(headers?.["retry-after"])
+  if (!Number.isNaN(retryAfter) && headers?.["retry-after"]) {
+    return retryAfter * 1000
+  }
+  return BASE_BACKOFF_MS * 2 ** attempt
+}
+
+/**
+ * Applies the call policy to a model: every call gives up after a timeout,
+ * and calls with a transient error are retried after a backoff.
+ *
+ * @param model - The model
+ * @param options.timeoutMs - How long one attempt of a call may take
+ * @param options.maxRetries - How often a call is retried
+ * @returns The same model with the policy applied
+ */
+export function withCallPolicy(
+  model: LanguageModel,
+  options: { timeoutMs: number; maxRetries?: number }
+): LanguageModel {
+  const maxRetries = options.maxRetries ?? MAX_RETRIES
+  return wrapLanguageModel({
+    model,
+    middleware: {
+      wrapGenerate: async ({ params, model: inner }) => {
+        for (let attempt = 0; ; attempt++) {
+          const timeout = AbortSignal.timeout(options.timeoutMs)
+          try {
+            return await inner.doGenerate({
+              ...params,
+              abortSignal: params.abortSignal
+                ? AbortSignal.any([params.abortSignal, timeout])
+                : timeout
+            })
+          } catch (error) {
+            const delay = getLLMRetryDelayMs(error, attempt)
+            if (
+              delay === undefined ||
+              attempt >= maxRetries ||
+              delay > MAX_WAIT_MS
+            ) {
+              throw error
+            }
+            console.warn(
+              `LLM call to ${inner.modelId} failed, retrying in ${Math.ceil(delay / 1000)}s:`,
+              error instanceof Error ? error.message : error
+            )
+            await new Promise(resolve => setTimeout(resolve, delay))
+          }
+        }
+      }
+    }
+  })
+}
+
+/**
+ * Runs a prompt, building it smaller and running it again while the model
+ * says it is too long for its context window.
+ *
+ * @param label - What the prompt is for, used when logging
+ * @param run - Builds the prompt with the given share of the prompt budget and runs it
+ * @returns What the first run that fit returned
+ * @throws The last error if the prompt didn't fit at the smallest size, or any other error
+ */
+export async function runWithPromptShrinking<T>(
+  label: string,
+  run: (budgetScale: number) => Promise<T>
+): Promise<T> {
+  for (const [i, scale] of PROMPT_SCALES.entries()) {
+    try {
+      return await run(scale)
+    } catch (error) {
+      const next = PROMPT_SCALES[i + 1]
+      if (next === undefined || classifyLLMError(error) !== "context-length") {
+        throw error
+      }
+      console.warn(
+        `Prompt for ${label} is too long for the model, retrying with ${next * 100}% of the budget`
+      )
+    }
+  }
+  // Unreachable: the last scale either returns or throws
+  throw new Error(`No prompt size left for ${label}`)
+}
@@ -1,32 +1,145 @@
 /*
 <ai_context>
-This file contains the logic for selecting and configuring the LLM (Large Language Model) provider.
-It supports both OpenAI and Anthropic's Claude models, with configuration determined by environment variables.
+This file contains the registry of LLM providers and the logic for selecting and configuring a model.
+Built in are OpenAI, Anthropic and OpenAI-compatible endpoints (Ollama, llama.cpp server, vLLM or
+any other base URL), so the agents can run fully on-prem. Each provider declares the capabilities
+of its models (context window, structured output, tool calling), which the agents use to adapt
+their prompting. Configuration comes from environment variables; a model name can pick its
+provider with a prefix, e.g. "ollama:qwen2.5-coder:32b".
 </ai_context>
 */
 
 import { createAnthropic } from "@ai-sdk/anthropic"
 import { createOpenAI } from "@ai-sdk/openai"
+import { LanguageModel } from "ai"
 
 /**
- * Creates and returns a configured LLM client based on environment settings.
- * This function handles the logic of choosing between different AI providers
- * and configuring them with the appropriate API keys and models.
+ * What a model can do, used to adapt prompts and output parsing.
+ */
+export interface ModelCapabilities {
+  contextWindow?: number // In tokens; undefined to use the known-model table
+  structuredOutput: boolean // Can be constrained to JSON output
+  toolCalling: boolean // Can answer with tool calls
+}
+
+/**
+ * What identifies a model: the provider serving it and its ID there.
+ * Two providers can serve models with the same ID, e.g. "gpt-4o" from OpenAI and from a proxy.
+ */
+export type ModelRef = Pick<LanguageModel, "provider" | "modelId">
+
+/**
+ * A source of models. Providers are looked up by name, from LLM_PROVIDER or a model name prefix.
+ */
+export interface LLMProvider {
+  name: string
+  defaultModel?: string // Used when neither the repo config nor LLM_MODEL names a model
+  capabilities: (modelId: string) => ModelCapabilities
+  createModel: (modelId: string) => LanguageModel // Throws if the provider isn't configured
+}
+
+// Registered providers by name
+const providers = new Map<string, LLMProvider>()
+
+// Capabilities of the models handed out so far, by "provider:modelId"
+const modelCapabilities = new Map<string, ModelCapabilities>()
+
+/**
+ * Reads a boolean from the environment.
  *
- * @returns A configured LLM client (either OpenAI or Anthropic)
- * @throws Error if required API keys are missing
+ * @param name - The variable, e.g. "LLM_TOOL_CALLING"
+ * @param fallback - Used when the variable isn't set
+ * @returns true for "true" or "1", false for "false" or "0"
  */
-export function getLLMModel() {
-  // Read the chosen provider from the environment, defaulting to "openai" if not set
-  const provider = process.env.LLM_PROVIDER || "openai"
+function readFlag(name: string, fallback: boolean): boolean {
+  const value = process.env[name]?.trim().toLowerCase()
+  if (value === "true" || value === "1") return true
+  if (value === "false" || value === "0") return false
+  return fallback
+}
+
+/**
+ * Registers a provider, replacing any provider with the same name.
+ *
+ * @param provider - The provider
+ */
+export function registerLLMProvider(provider: LLMProvider) {
+  providers.set(provider.name, provider)
+}
+
+/**
+ * Lists the names of the registered providers.
+ *
+ * @returns The provider names
+ */
+export function getLLMProviderNames(): string[] {
+  return Array.from(providers.keys())
+}
+
+/**
+ * Creates a provider for a server that implements the OpenAI chat completions API.
+ * LLM_BASE_URL overrides the default base URL and LLM_API_KEY is sent if set.
+ * These servers usually support a JSON mode but not always tool calling, depending on
+ * the server and the model; LLM_STRUCTURED_OUTPUT and LLM_TOOL_CALLING override the defaults.
+ *
+ * @param name - The provider name
+ * @param defaults.baseURL - Where the server listens by default, if it has a usual place
+ * @param defaults.contextWindow - The server's default context window, if it has one
+ * @returns The provider
+ */
+export function createOpenAICompatibleProvider(
+  name: string,
+  defaults: { baseURL?: string; contextWindow?: number } = {}
+): LLMProvider {
+  return {
+    name,
+    capabilities: () => ({
+      contextWindow: defaults.contextWindow,
+      structuredOutput: readFlag("LLM_STRUCTURED_OUTPUT", true),
+      toolCalling: readFlag("LLM_TOOL_CALLING", false)
+    }),
+    createModel: modelId => {
+      const baseURL = process.env.LLM_BASE_URL || defaults.baseURL
+      if (!baseURL) {
+        throw new Error(`Missing LLM_BASE_URL for the ${name} provider.`)
+      }
 
-  // Default model names if none are specified in environment variables
-  const openAIDefaultModel = "o1"
-  const anthropicDefaultModel = "claude-3-5-sonnet-latest"
+      // Local servers usually don't check the key, but the client needs one
+      const provider = createOpenAI({
+        name,
+        baseURL,
+        apiKey: process.env.LLM_API_KEY || "unused",
+        compatibility: "compatible"
+      })
+      return provider.chat(modelId)
+    }
+  }
+}
 
-  // If the user has specified "anthropic" as provider, we configure Anthropic
-  if (provider === "anthropic") {
-    // Check for Anthropic API key
+registerLLMProvider({
+  name: "openai",
+  defaultModel: "o1",
+  capabilities: () => ({ structuredOutput: true, toolCalling: true }),
+  createModel: modelId => {
+    if (!process.env.OPENAI_API_KEY) {
+      throw new Error("Missing OPENAI_API_KEY for OpenAI usage.")
+    }
+
+    // Create an OpenAI client instance
+    const openai = createOpenAI({
+      apiKey: process.env.OPENAI_API_KEY,
+      compatibility: "strict" // Strict ensures we adhere to the official API
+    })
+    return openai(modelId)
+  }
+})
+
+registerLLMProvider({
+  name: "anthropic",
+  defaultModel: "claude-3-5-sonnet-latest",
+  // Claude has no JSON mode; structured output goes through tool calls
+  capabilities: () => ({ structuredOutput: false, toolCalling: true }),
+  createModel: modelId => {
     if (!process.env.ANTHROPIC_API_KEY) {
       throw new Error("Missing ANTHROPIC_API_KEY for Anthropic usage.")
     }
@@ -35,22 +148,105 @@ export function getLLMModel() {
     const anthropic = createAnthropic({
       apiKey: process.env.ANTHROPIC_API_KEY
     })
+    return anthropic(modelId)
+  }
+})
+
+// Ollama only uses a small context unless the model's num_ctx is raised; set LLM_CONTEXT_WINDOW to match
+registerLLMProvider(
+  createOpenAICompatibleProvider("ollama", {
+    baseURL: "http://localhost:11434/v1",
+    contextWindow: 4096
+  })
+)
+registerLLMProvider(
+  createOpenAICompatibleProvider("llamacpp", {
+    baseURL: "http://localhost:8080/v1"
+  })
+)
+registerLLMProvider(
+  createOpenAICompatibleProvider("vllm", {
+    baseURL: "http://localhost:8000/v1"
+  })
+)
+registerLLMProvider(createOpenAICompatibleProvider("openai-compatible"))
 
-    // Return a handle to the desired model, defaulting if not specified
-    return anthropic(process.env.LLM_MODEL || anthropicDefaultModel)
+/**
+ * Splits a model name into its provider and model ID. A prefix names the provider
+ * only if it is a registered one, so model IDs with colons (e.g. "llama3:8b") still work.
+ *
+ * @param modelName - e.g. "anthropic:claude-3-5-sonnet-latest", "gpt-4o" or undefined
+ * @returns The provider and the model ID, which is undefined if the name didn't give one
+ * @throws Error if LLM_PROVIDER names a provider that isn't registered
+ */
+export function resolveModelName(modelName?: string): {
+  provider: LLMProvider
+  modelId?: string
+} {
+  const separator = modelName?.indexOf(":") ?? -1
+  const prefixed =
+    separator > 0 ? providers.get(modelName!.slice(0, separator)) : undefined
+  if (prefixed) {
+    return {
+      provider: prefixed,
+      modelId: modelName!.slice(separator + 1) || undefined
+    }
   }
 
-  // Otherwise, handle the default or "openai" scenario
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error("Missing OPENAI_API_KEY for OpenAI usage.")
+  // Read the chosen provider from the environment, defaulting to "openai" if not set
+  const name = process.env.LLM_PROVIDER || "openai"
+  const provider = providers.get(name)
+  if (!provider) {
+    throw new Error(
+      `Unknown LLM_PROVIDER "${name}". Known providers: ${getLLMProviderNames().join(", ")}.`
+    )
   }
+  return { provider, modelId: modelName || undefined }
+}
 
-  // Create an OpenAI client instance
-  const openai = createOpenAI({
-    apiKey: process.env.OPENAI_API_KEY,
-    compatibility: "strict" // Strict ensures we adhere to the official API
-  })
+/**
+ * Creates and returns a configured model. The provider comes from the model name's
+ * prefix or LLM_PROVIDER, and the model from the name, LLM_MODEL or the provider's default.
+ * The provider's capabilities for the model are recorded for getModelCapabilities.
+ *
+ * @param modelName - Optional model to use instead of LLM_MODEL, e.g. from the repo config
+ * @returns A configured model
+ * @throws Error if the provider is unknown, isn't configured or has no model to use
+ */
+export function getLLMModel(modelName?: string): LanguageModel {
+  const { provider, modelId } = resolveModelName(
+    modelName || process.env.LLM_MODEL
+  )
+  const id = modelId || provider.defaultModel
+  if (!id) {
+    throw new Error(
+      `No model configured for the ${provider.name} provider. Set LLM_MODEL or a model in the repo config.`
+    )
+  }
+
+  const model = provider.createModel(id)
+  modelCapabilities.set(getModelKey(model), provider.capabilities(id))
+  return model
+}
 
-  // Return the configured OpenAI model
-  return openai(process.env.LLM_MODEL || openAIDefaultModel)
+/**
+ * Returns the key a model's capabilities are recorded under.
+ *
+ * @param model - The model
+ * @returns "provider:modelId", e.g. "ollama.chat:qwen2.5-coder:32b"
+ */
+function getModelKey(model: ModelRef) {
+  return `${model.provider}:${model.modelId}`
+}
+
+/**
+ * Looks up the capabilities of a model created by getLLMModel.
+ *
+ * @param model - The model, or its provider and ID
+ * @returns The capabilities, or undefined for models that didn't come from the registry
+ */
+export function getModelCapabilities(
+  model: ModelRef
+): ModelCapabilities | undefined {
+  return modelCapabilities.get(getModelKey(model))
 }
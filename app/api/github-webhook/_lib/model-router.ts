@@ -0,0 +1,86 @@
+/*
+<ai_context>
+This file contains the routing of agent steps to models.
+Each step (review, review summary, test gating, test generation, test repair) can use its own
+models, configured per repository under models.steps in the config file, with the agent's models
+as the default. A step lists one model or a chain of them: when a model fails or a call to it
+times out, the step is run again with the next model in the chain. Each model gets the call
+policy of llm-call.ts (timeouts, backoff, shrinking prompts that are too long) first.
+</ai_context>
+*/
+
+import { LanguageModel } from "ai"
+import { AgentConfig, ModelStep } from "./config"
+import { getLLMModel } from "./llm"
+import {
+  classifyLLMError,
+  runWithPromptShrinking,
+  withCallPolicy
+} from "./llm-call"
+
+// The agent whose models a step uses when the step has none of its own
+const STEP_AGENTS: Record<ModelStep, "review" | "testGeneration"> = {
+  review: "review",
+  reviewSummary: "review",
+  testGating: "testGeneration",
+  testGeneration: "testGeneration",
+  testRepair: "testGeneration"
+}
+
+/**
+ * Lists the models a step tries, in order.
+ *
+ * @param models - The models section of the repo config
+ * @param step - The agent step
+ * @returns The model names; undefined stands for the deployment's default model (LLM_MODEL)
+ */
+export function getModelChain(
+  models: AgentConfig["models"],
+  step: ModelStep
+): (string | undefined)[] {
+  const chain = models.steps[step] ?? models[STEP_AGENTS[step]]
+  if (chain === undefined) return [undefined]
+  return Array.isArray(chain) ? chain : [chain]
+}
+
+/**
+ * Runs an agent step with the models routed to it, moving on to the next model
+ * in the chain when a model can't be created, a call times out or the step fails.
+ * The step gets the model so it can build its prompt for that model's context window
+ * and output format, and the share of the prompt budget to use: less than 1 when
+ * the model said the previous prompt was too long.
+ *
+ * @param config - The repo config
+ * @param step - The agent step
+ * @param run - Runs the step with a model and a share of the prompt budget
+ * @returns What the first successful run returned
+ * @throws The last model's error if every model in the chain failed
+ */
+export async function runWithModelFallback<T>(
+  config: AgentConfig,
+  step: ModelStep,
+  run: (model: LanguageModel, budgetScale: number) => Promise<T>
+): Promise<T> {
+  const chain = getModelChain(config.models, step)
+  const timeoutMs = config.models.timeoutSeconds * 1000
+  let lastError: unknown
+
+  for (const [i, name] of chain.entries()) {
+    try {
+      const model = withCallPolicy(getLLMModel(name), { timeoutMs })
+      return await runWithPromptShrinking(
+        `${step} with ${model.modelId}`,
+        scale => run(model, scale)
+      )
+    } catch (err) {
+      lastError = err
+      if (i < chain.length - 1) {
+        console.warn(
+          `Model ${name ?? "(default)"} failed at ${step} (${classifyLLMError(err)}), falling back to ${chain[i + 1] ?? "(default)"}:`,
+          err
+        )
+      }
+    }
+  }
+  throw lastError
+}
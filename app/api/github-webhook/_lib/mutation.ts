@@ -0,0 +1,365 @@
+/*
+<ai_context>
+This file contains the mutation testing used to score the generated tests.
+It parses the changed source files with the TypeScript compiler, applies small mutations
+to the functions the PR changed (negated conditions, altered return values, dropped calls)
+and runs the generated tests against each mutant in the sandbox workspace.
+A mutant is killed when a test fails on it. Tests that kill no mutant pass without
+checking the changed code, so the test agent regenerates or drops them.
+</ai_context>
+*/
+
+import ts from "typescript"
+import {
+  getTestCommand,
+  runCommand,
+  TestRunner,
+  writeWorkspaceFiles
+} from "./sandbox"
+import { getScriptKind } from "./syntax"
+
+export type MutationKind = "flip-conditional" | "alter-return" | "drop-call"
+
+/**
+ * A copy of a source file with one mutation applied.
+ */
+export interface Mutant {
+  filename: string
+  kind: MutationKind
+  line: number // Line of the mutated code (1-based)
+  description: string // What was changed, e.g. "negated `a > b`"
+  content: string // The whole mutated file
+}
+
+/**
+ * How many of a source file's mutants the tests killed.
+ */
+export interface MutationScore {
+  filename: string
+  killed: number
+  total: number
+  survivors: Mutant[]
+}
+
+/**
+ * The outcome of running the tests against the mutants of every source file.
+ */
+export interface MutationReport {
+  scores: MutationScore[]
+  kills: Map<string, number> // Mutants killed by each test file
+}
+
+// A place in the source where a mutation can be applied
+interface MutationSite {
+  kind: MutationKind
+  start: number
+  end: number
+  replacement: string
+  description: string
+}
+
+// Longest snippet of source quoted in a mutant's description
+const MAX_SNIPPET_LENGTH = 60
+
+/**
+ * Shortens a piece of source code to one line for a mutant's description.
+ *
+ * @param text - The source code
+ * @returns The code on one line, cut to MAX_SNIPPET_LENGTH characters
+ */
+function snippet(text: string): string {
+  const line = text.replace(/\s+/g, " ").trim()
+  return line.length > MAX_SNIPPET_LENGTH
+    ? `${line.slice(0, MAX_SNIPPET_LENGTH - 1)}…`
+    : line
+}
+
+/**
+ * Finds the mutation sites of one node, if it is something we mutate.
+ *
+ * @param node - The node
+ * @param sourceFile - The file it belongs to
+ * @returns The sites where the node can be mutated
+ */
+function getMutationSites(
+  node: ts.Node,
+  sourceFile: ts.SourceFile
+): MutationSite[] {
+  const flip = (condition: ts.Expression): MutationSite => ({
+    kind: "flip-conditional",
+    start: condition.getStart(sourceFile),
+    end: condition.getEnd(),
+    replacement: `!(${condition.getText(sourceFile)})`,
+    description: `negated \`${snippet(condition.getText(sourceFile))}\``
+  })
+  const alter = (value: ts.Expression): MutationSite[] => {
+    const replacement =
+      value.kind === ts.SyntaxKind.TrueKeyword
+        ? "false"
+        : value.kind === ts.SyntaxKind.FalseKeyword
+          ? "true"
+          : "undefined"
+    if (value.getText(sourceFile) === replacement) return []
+    return [
+      {
+        kind: "alter-return",
+        start: value.getStart(sourceFile),
+        end: value.getEnd(),
+        replacement,
+        description: `returned ${replacement} instead of \`${snippet(value.getText(sourceFile))}\``
+      }
+    ]
+  }
+
+  if (
+    ts.isIfStatement(node) ||
+    ts.isWhileStatement(node) ||
+    ts.isDoStatement(node) ||
+    ts.isConditionalExpression(node)
+  ) {
+    return [
+      flip(ts.isConditionalExpression(node) ? node.condition : node.expression)
+    ]
+  }
+  if (ts.isForStatement(node) && node.condition) return [flip(node.condition)]
+  if (ts.isReturnStatement(node) && node.expression) {
+    return alter(node.expression)
+  }
+  if (ts.isArrowFunction(node) && !ts.isBlock(node.body)) {
+    return alter(node.body)
+  }
+  if (ts.isExpressionStatement(node)) {
+    const expression = ts.isAwaitExpression(node.expression)
+      ? node.expression.expression
+      : node.expression
+    if (ts.isCallExpression(expression)) {
+      // An empty statement keeps the code valid wherever a statement can stand
+      return [
+        {
+          kind: "drop-call",
+          start: node.getStart(sourceFile),
+          end: node.getEnd(),
+          replacement: ";",
+          description: `removed the call \`${snippet(expression.getText(sourceFile))}\``
+        }
+      ]
+    }
+  }
+  return []
+}
+
+/**
+ * Generates mutants of the functions a PR changed in a source file.
+ * Mutations on the changed lines themselves come first, then the rest of each changed function.
+ *
+ * @param filename - The source file, relative to the repo root
+ * @param content - The file's content at the head commit
+ * @param changedLines - The lines the PR added to the file
+ * @param maxMutants - At most this many mutants are returned
+ * @returns The mutants, each a complete copy of the file
+ */
+export function generateMutants(
+  filename: string,
+  content: string,
+  changedLines: number[],
+  maxMutants: number
+): Mutant[] {
+  const sourceFile = ts.createSourceFile(
+    filename,
+    content,
+    ts.ScriptTarget.Latest,
+    true,
+    getScriptKind(filename)
+  )
+  const changed = new Set(changedLines)
+  const lineOf = (position: number) =>
+    sourceFile.getLineAndCharacterOfPosition(position).line + 1
+  const isChanged = (node: ts.Node) => {
+    const first = lineOf(node.getStart(sourceFile))
+    const last = lineOf(node.getEnd())
+    for (let line = first; line <= last; line++) {
+      if (changed.has(line)) return true
+    }
+    return false
+  }
+
+  // Collect the sites inside every function that has a changed line, once each
+  const sites = new Map<string, MutationSite>()
+  const collect = (node: ts.Node) => {
+    for (const site of getMutationSites(node, sourceFile)) {
+      sites.set(`${site.kind}:${site.start}`, site)
+    }
+    ts.forEachChild(node, collect)
+  }
+  const visit = (node: ts.Node) => {
+    if (ts.isFunctionLike(node) && "body" in node && node.body) {
+      if (isChanged(node)) {
+        collect(node.body as ts.Node)
+        // An arrow function's expression body is itself a return value
+        if (ts.isArrowFunction(node)) {
+          for (const site of getMutationSites(node, sourceFile)) {
+            sites.set(`${site.kind}:${site.start}`, site)
+          }
+        }
+      }
+      return
+    }
+    ts.forEachChild(node, visit)
+  }
+  visit(sourceFile)
+
+  return Array.from(sites.values())
+    .map(site => ({ site, line: lineOf(site.start) }))
+    .sort(
+      (a, b) =>
+        Number(changed.has(b.line)) - Number(changed.has(a.line)) ||
+        a.site.start - b.site.start
+    )
+    .slice(0, maxMutants)
+    .map(({ site, line }) => ({
+      filename,
+      kind: site.kind,
+      line,
+      description: site.description,
+      content: `${content.slice(0, site.start)}${site.replacement}${content.slice(site.end)}`
+    }))
+}
+
+/**
+ * Runs test files against each mutant of a source file, restoring the file afterwards.
+ * Tests that haven't killed anything yet run against every mutant; once a mutant is
+ * killed, the tests that already killed one are skipped for it.
+ *
+ * @param dir - The workspace directory
+ * @param source - The source file and its original content
+ * @param mutants - The mutants of that file
+ * @param tests - The test files and the runner for each
+ * @param kills - Mutants killed per test file, updated in place
+ * @param timeoutMs - Timeout for each test run (a mutant that hangs counts as killed)
+ * @returns The file's mutation score
+ */
+export async function runMutants(
+  dir: string,
+  source: { filename: string; content: string },
+  mutants: Mutant[],
+  tests: { filename: string; runner: TestRunner }[],
+  kills: Map<string, number>,
+  timeoutMs: number
+): Promise<MutationScore> {
+  const survivors: Mutant[] = []
+  try {
+    for (const mutant of mutants) {
+      await writeWorkspaceFiles(dir, [
+        { filename: mutant.filename, content: mutant.content }
+      ])
+
+      // Tests without a kill get their chance first
+      const ordered = [...tests].sort(
+        (a, b) => (kills.get(a.filename) ?? 0) - (kills.get(b.filename) ?? 0)
+      )
+      let killed = false
+      for (const test of ordered) {
+        if (killed && (kills.get(test.filename) ?? 0) > 0) continue
+        const [command, args] = getTestCommand(test.filename, test.runner)
+        const result = await runCommand(command, args, { cwd: dir, timeoutMs })
+        if (result.exitCode !== 0) {
+          killed = true
+          kills.set(test.filename, (kills.get(test.filename) ?? 0) + 1)
+        }
+      }
+      if (!killed) survivors.push(mutant)
+    }
+  } finally {
+    await writeWorkspaceFiles(dir, [source])
+  }
+
+  return {
+    filename: source.filename,
+    killed: mutants.length - survivors.length,
+    total: mutants.length,
+    survivors
+  }
+}
+
+/**
+ * Mutates each changed source file and runs the tests against its mutants.
+ *
+ * @param dir - The workspace directory, with the tests written
+ * @param sources - The changed source files, with their content and changed lines
+ * @param tests - The test files and the runner for each
+ * @param options.maxMutantsPerFile - Mutants generated per source file
+ * @param options.timeoutMs - Timeout for each test run
+ * @returns The score of each file that had mutants, and the kills of each test
+ */
+export async function runMutationTests(
+  dir: string,
+  sources: { filename: string; content: string; changedLines: number[] }[],
+  tests: { filename: string; runner: TestRunner }[],
+  options: { maxMutantsPerFile: number; timeoutMs: number }
+): Promise<MutationReport> {
+  const kills = new Map(tests.map(t => [t.filename, 0]))
+  const scores: MutationScore[] = []
+  for (const source of sources) {
+    const mutants = generateMutants(
+      source.filename,
+      source.content,
+      source.changedLines,
+      options.maxMutantsPerFile
+    )
+    if (mutants.length === 0) continue
+    scores.push(
+      await runMutants(
+        dir,
+        { filename: source.filename, content: source.content },
+        mutants,
+        tests,
+        kills,
+        options.timeoutMs
+      )
+    )
+  }
+  return { scores, kills }
+}
+
+/**
+ * Describes surviving mutants, one per line, for the prompts and the PR comment.
+ *
+ * @param survivors - Mutants no test killed
+ * @returns A bulleted list
+ */
+export function describeSurvivors(survivors: Mutant[]): string {
+  return survivors
+    .map(m => `- ${m.filename} line ${m.line}: ${m.description}`)
+    .join("\n")
+}
+
+/**
+ * Formats the mutation scores for the PR comment.
+ *
+ * @param scores - The score of each mutated file
+ * @returns A markdown section, or an empty string if nothing was mutated
+ */
+export function formatMutationScores(scores: MutationScore[]): string {
+  const total = scores.reduce((sum, s) => sum + s.total, 0)
+  if (total === 0) return ""
+  const killed = scores.reduce((sum, s) => sum + s.killed, 0)
+  const percent = (k: number, t: number) => `${Math.round((k / t) * 100)}%`
+  const survivors = scores.flatMap(s => s.survivors)
+
+  return `🧬 Mutation score of the generated tests: ${percent(killed, total)} (${killed} of ${total} mutants killed)
+
+| File | Killed | Score |
+| --- | --- | --- |
+${scores.map(s => `| \`${s.filename}\` | ${s.killed}/${s.total} | ${percent(s.killed, s.total)} |`).join("\n")}${
+    survivors.length > 0
+      ? `
+
+<details>
+<summary>Surviving mutants</summary>
+
+${describeSurvivors(survivors)}
+
+</details>`
+      : ""
+  }`
+}
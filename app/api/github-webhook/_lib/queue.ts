@@ -0,0 +1,205 @@
+/*
+<ai_context>
+This file contains the job queue used to run agents outside of the webhook request.
+The webhook route only enqueues jobs and returns immediately, and the worker picks them up.
+The queue is an interface so other backends can be plugged in; the default implementation
+stores jobs in a JSON file on local disk.
+</ai_context>
+*/
+
+import { randomUUID } from "crypto"
+import path from "path"
+import { getDataDir, readJsonFile, withFileLock, writeJsonFile } from "./store"
+
+// The agents a job can run
+export type AgentName = "review" | "test-generation"
+
+// Lifecycle of a job: queued -> running -> completed, or back to queued for a retry,
+// or dead once it has used up all of its attempts
+export type JobStatus = "queued" | "running" | "completed" | "dead"
+
+// How many times a job is attempted before it is moved to the dead-letter state
+export const DEFAULT_MAX_ATTEMPTS = 5
+
+// A running job whose lease expires is assumed to belong to a crashed worker and is retried.
+// Verifying generated tests installs dependencies and runs them, so leave plenty of time.
+const LEASE_MS = 60 * 60 * 1000
+
+// Finished jobs are kept for a while for inspection, then pruned
+const RETENTION_MS = 7 * 24 * 60 * 60 * 1000
+
+/**
+ * A unit of work for the worker: run one agent against one webhook payload.
+ */
+export interface AgentJob {
+  id: string
+  agent: AgentName
+  payload: any
+  deliveryId?: string
+  runId?: string // Ledger run this job belongs to, used for deduplication and cancellation
+  status: JobStatus
+  attempts: number
+  maxAttempts: number
+  runAt: string // ISO timestamp of the earliest time the job may run
+  leaseExpiresAt?: string
+  lastError?: string
+  createdAt: string
+  updatedAt: string
+}
+
+/**
+ * Input for enqueueing a new job.
+ */
+export interface EnqueueJobInput {
+  agent: AgentName
+  payload: any
+  deliveryId?: string
+  runId?: string
+  maxAttempts?: number
+}
+
+/**
+ * Operations every queue backend must support.
+ */
+export interface JobQueue {
+  // Adds a new job in the "queued" state
+  enqueue(input: EnqueueJobInput): Promise<AgentJob>
+  // Atomically claims the next job that is ready to run, marking it "running"
+  claimNext(now?: Date): Promise<AgentJob | undefined>
+  // Marks a running job as completed
+  complete(id: string): Promise<void>
+  // Records a failure. With retryAt the job is queued again, otherwise it is dead-lettered
+  fail(id: string, error: string, retryAt?: Date): Promise<AgentJob | undefined>
+  // Lists jobs, optionally filtered by status
+  list(status?: JobStatus): Promise<AgentJob[]>
+}
+
+/**
+ * Creates a queue backed by a single JSON file.
+ * Every read-modify-write happens under a file lock, so the webhook route
+ * and one or more worker processes can share it safely on the same machine.
+ *
+ * @param filePath - Where to store the jobs (defaults to <data dir>/jobs.json)
+ * @returns A JobQueue implementation
+ */
+export function createFileJobQueue(
+  filePath = path.join(getDataDir(), "jobs.json")
+): JobQueue {
+  // Applies a mutation to the stored job list while holding the lock
+  async function mutate<T>(fn: (jobs: AgentJob[]) => T): Promise<T> {
+    return withFileLock(filePath, async () => {
+      const jobs = await readJsonFile<AgentJob[]>(filePath, [])
+      const result = fn(jobs)
+
+      // Drop old finished jobs so the file doesn't grow forever
+      const cutoff = Date.now() - RETENTION_MS
+      const kept = jobs.filter(
+        job =>
+          job.status === "queued" ||
+          job.status === "running" ||
+          new Date(job.updatedAt).getTime() > cutoff
+      )
+
+      await writeJsonFile(filePath, kept)
+      return result
+    })
+  }
+
+  return {
+    async enqueue(input) {
+      const now = new Date().toISOString()
+      const job: AgentJob = {
+        id: randomUUID(),
+        agent: input.agent,
+        payload: input.payload,
+        deliveryId: input.deliveryId,
+        runId: input.runId,
+        status: "queued",
+        attempts: 0,
+        maxAttempts: input.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+        runAt: now,
+        createdAt: now,
+        updatedAt: now
+      }
+      await mutate(jobs => jobs.push(job))
+      return job
+    },
+
+    async claimNext(now = new Date()) {
+      return mutate(jobs => {
+        // Pick the oldest job that is due, or a running job whose worker went away
+        const next = jobs
+          .filter(
+            job =>
+              (job.status === "queued" && new Date(job.runAt) <= now) ||
+              (job.status === "running" &&
+                !!job.leaseExpiresAt &&
+                new Date(job.leaseExpiresAt) <= now)
+          )
+          .sort((a, b) => a.runAt.localeCompare(b.runAt))[0]
+
+        if (!next) return undefined
+
+        next.status = "running"
+        next.attempts += 1
+        next.leaseExpiresAt = new Date(now.getTime() + LEASE_MS).toISOString()
+        next.updatedAt = now.toISOString()
+        return { ...next }
+      })
+    },
+
+    async complete(id) {
+      await mutate(jobs => {
+        const job = jobs.find(j => j.id === id)
+        if (!job) return
+        job.status = "completed"
+        job.leaseExpiresAt = undefined
+        job.updatedAt = new Date().toISOString()
+      })
+    },
+
+    async fail(id, error, retryAt) {
+      return mutate(jobs => {
+        const job = jobs.find(j => j.id === id)
+        if (!job) return undefined
+        job.lastError = error
+        job.leaseExpiresAt = undefined
+        job.updatedAt = new Date().toISOString()
+
+        if (retryAt) {
+          job.status = "queued"
+          job.runAt = retryAt.toISOString()
+        } else {
+          job.status = "dead"
+        }
+        return { ...job }
+      })
+    },
+
+    async list(status) {
+      const jobs = await readJsonFile<AgentJob[]>(filePath, [])
+      return status ? jobs.filter(job => job.status === status) : jobs
+    }
+  }
+}
+
+let defaultQueue: JobQueue | undefined
+
+/**
+ * Returns the queue configured for this process.
+ * JOB_QUEUE_DRIVER selects the backend; only "file" is built in today.
+ *
+ * @returns The shared JobQueue instance
+ * @throws Error if JOB_QUEUE_DRIVER names an unknown backend
+ */
+export function getJobQueue(): JobQueue {
+  if (defaultQueue) return defaultQueue
+
+  const driver = process.env.JOB_QUEUE_DRIVER || "file"
+  if (driver !== "file") {
+    throw new Error(`Unknown JOB_QUEUE_DRIVER "${driver}". Supported: file.`)
+  }
+
+  defaultQueue = createFileJobQueue()
+  return defaultQueue
+}
@@ -0,0 +1,128 @@
+/*
+<ai_context>
+This file contains GitHub API rate-limit handling for the Octokit client.
+It reads the x-ratelimit-* headers of every response and pauses requests when the
+primary rate limit is nearly used up, and it retries requests that hit a secondary
+rate limit after the delay GitHub asks for (retry-after) or an exponential backoff.
+Waits longer than MAX_WAIT_MS are not worth blocking a job for; the error is thrown
+instead and the worker retries the job later. Requests that can't wait at all (e.g. while
+answering a webhook) opt out with request.rateLimitWait: false.
+</ai_context>
+*/
+
+import { Octokit } from "@octokit/rest"
+
+// Start waiting for the reset when fewer requests than this are left
+const RATE_LIMIT_RESERVE = 20
+
+// Longest we pause a request before giving up and letting the job be retried
+const MAX_WAIT_MS = 5 * 60 * 1000
+
+// First backoff for a secondary rate limit without a retry-after header, doubled per attempt
+const SECONDARY_BACKOFF_MS = 60 * 1000
+
+// How often a request is retried after hitting a secondary rate limit
+const MAX_RETRIES = 3
+
+type Headers = Record<string, string | number | undefined>
+
+/**
+ * Computes how long to pause before the next request, based on the
+ * x-ratelimit-remaining and x-ratelimit-reset headers of the last response.
+ *
+ * @param headers - Response headers
+ * @param now - Current time in ms (for testing)
+ * @returns Milliseconds to wait, 0 if there are enough requests left
+ */
+export function getPrimaryRateLimitDelayMs(
+  headers: Headers,
+  now = Date.now()
+): number {
+  const remaining = Number(headers["x-ratelimit-remaining"])
+  const reset = Number(headers["x-ratelimit-reset"])
+  if (Number.isNaN(remaining) || Number.isNaN(reset)) return 0
+  if (remaining > RATE_LIMIT_RESERVE) return 0
+  return Math.max(0, reset * 1000 - now)
+}
+
+/**
+ * Checks whether a failed request hit a rate limit and how long to wait before retrying.
+ * GitHub signals secondary rate limits with a 403 or 429 and usually a retry-after header;
+ * an exhausted primary limit is a 403/429 with x-ratelimit-remaining of 0.
+ *
+ * @param error - The error thrown by Octokit
+ * @param attempt - How many times the request was already retried
+ * @param now - Current time in ms (for testing)
+ * @returns Milliseconds to wait before retrying, or undefined if it isn't a rate-limit error
+ */
+export function getRateLimitRetryDelayMs(
+  error: any,
+  attempt: number,
+  now = Date.now()
+): number | undefined {
+  if (error?.status !== 403 && error?.status !== 429) return undefined
+  const headers: Headers = error.response?.headers ?? {}
+
+  const retryAfter = Number(headers["retry-after"])
+  if (!Number.isNaN(retryAfter) && headers["retry-after"] !== undefined) {
+    return retryAfter * 1000
+  }
+
+  if (headers["x-ratelimit-remaining"] === "0") {
+    return getPrimaryRateLimitDelayMs(headers, now)
+  }
+
+  if (/secondary rate limit/i.test(String(error.message))) {
+    return SECONDARY_BACKOFF_MS * 2 ** attempt
+  }
+
+  // A 403 for anything else (e.g. missing permissions) isn't a rate limit
+  return error.status === 429 ? SECONDARY_BACKOFF_MS * 2 ** attempt : undefined
+}
+
+/**
+ * Adds rate-limit handling to every request made through an Octokit client.
+ *
+ * @param octokit - The client to wrap
+ */
+export function installRateLimitHandling(octokit: Octokit) {
+  // Requests wait until this time, shared by all requests of the client
+  let pausedUntil = 0
+
+  octokit.hook.wrap("request", async (request, options) => {
+    // The caller has a deadline of its own and handles failures itself
+    if (options.request?.rateLimitWait === false) return request(options)
+
+    for (let attempt = 0; ; attempt++) {
+      const wait = pausedUntil - Date.now()
+      if (wait > 0) {
+        await new Promise(resolve => setTimeout(resolve, wait))
+      }
+
+      try {
+        const response = await request(options)
+        const delay = getPrimaryRateLimitDelayMs(response.headers)
+        if (delay > 0 && delay <= MAX_WAIT_MS) {
+          console.warn(
+            `GitHub rate limit nearly used up, pausing requests for ${Math.ceil(delay / 1000)}s`
+          )
+          pausedUntil = Math.max(pausedUntil, Date.now() + delay)
+        }
+        return response
+      } catch (error: any) {
+        const delay = getRateLimitRetryDelayMs(error, attempt)
+        if (
+          delay === undefined ||
+          attempt >= MAX_RETRIES ||
+          delay > MAX_WAIT_MS
+        ) {
+          throw error
+        }
+        console.warn(
+          `GitHub rate limit hit on ${options.method} ${options.url}, retrying in ${Math.ceil(delay / 1000)}s`
+        )
+        pausedUntil = Math.max(pausedUntil, Date.now() + delay)
+      }
+    }
+  })
+}
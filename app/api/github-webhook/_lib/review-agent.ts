@@ -5,41 +5,230 @@ It uses an AI model to analyze code changes and provide structured feedback.
 </ai_context>
 */
 
-import { generateText } from "ai"
+import { generateText, LanguageModel } from "ai"
 import { parseStringPromise } from "xml2js"
-import { createPlaceholderComment, updateComment } from "./comments"
+import { z } from "zod"
+import {
+  CheckAnnotation,
+  CheckConclusion,
+  completeCheckRun,
+  REVIEW_CHECK_NAME,
+  startCheckRun
+} from "./checks"
+import {
+  createPlaceholderComment,
+  getCommentBody,
+  updateComment
+} from "./comments"
+import { mapWithConcurrency } from "./concurrency"
+import { formatConfigErrors } from "./config"
+import {
+  getPromptBudget,
+  groupFilesIntoBatches,
+  logPromptComposition,
+  packChangedFiles
+} from "./context-builder"
+import { anchorToDiff, DiffAnchor, DiffSide } from "./diff"
+import { formatExcludedFiles } from "./file-filter"
+import { octokit } from "./github"
 import { PullRequestContext, removeLabel } from "./handlers"
-import { getLLMModel } from "./llm"
+import {
+  getRun,
+  RunCancelledError,
+  RunGuard,
+  setRunCheckRunId,
+  setRunCommentId
+} from "./ledger"
+import { classifyLLMError, describeLLMError } from "./llm-call"
+import { runWithModelFallback } from "./model-router"
+import {
+  BlockingSeverity,
+  determineReviewEvent,
+  FINDING_CATEGORIES,
+  FindingCategory,
+  formatFindingLabel,
+  parseCategory,
+  parseSeverity,
+  ReviewEvent,
+  SEVERITIES,
+  Severity
+} from "./severity"
+import {
+  generateValidatedObject,
+  StructuredOutputError,
+  supportsStructuredOutput
+} from "./structured-output"
 
-// Label that triggers the review process when added to a PR
-export const REVIEW_LABEL = "agent-review-pr"
+// A single piece of feedback tied to specific lines of a changed file
+export interface ReviewFinding {
+  path: string
+  startLine: number
+  endLine: number
+  side: DiffSide // RIGHT for lines in the new version, LEFT for removed lines
+  severity: Severity
+  category: FindingCategory
+  comment: string
+}
+
+// The structured review produced by the AI
+export interface ReviewAnalysis {
+  summary: string
+  fileAnalyses: { path: string; analysis: string }[]
+  overallSuggestions: string[]
+  findings: ReviewFinding[]
+  incomplete?: boolean // Set when the review failed, so finding nothing doesn't mean approval
+}
+
+// Why a review can't approve the pull request even without blocking findings:
+// it failed for some files, or it only saw the commits since an earlier review
+type ReviewLimitation = "incomplete" | "incremental"
+
+// Zod schema for the review the AI returns as structured output
+const reviewSchema = z.object({
+  summary: z.string().describe("Short summary of these changes"),
+  fileAnalyses: z.array(
+    z.object({
+      path: z.string(),
+      analysis: z.string()
+    })
+  ),
+  overallSuggestions: z
+    .array(z.string())
+    .describe("Single bullet suggestions about the PR as a whole"),
+  findings: z
+    .array(
+      z.object({
+        path: z.string(),
+        startLine: z
+          .number()
+          .int()
+          .describe("First line the finding refers to"),
+        endLine: z.number().int().describe("Last line the finding refers to"),
+        side: z
+          .enum(["RIGHT", "LEFT"])
+          .describe(
+            "RIGHT for lines in the new version of the file, LEFT for removed lines"
+          ),
+        severity: z.enum(SEVERITIES as [Severity, ...Severity[]]),
+        category: z.enum(
+          FINDING_CATEGORIES as [FindingCategory, ...FindingCategory[]]
+        ),
+        comment: z
+          .string()
+          .describe("Concise, actionable comment about those lines")
+      })
+    )
+    .describe("Feedback tied to specific lines of the patch")
+})
+
+// Output format for models that answer with structured output
+const REVIEW_OBJECT_INSTRUCTIONS = `Return the review as an object with a short summary of these changes, an analysis of each changed file,
+overall suggestions as single bullet points, and findings tied to specific lines of the patch.`
+
+// Output format for models without tool or JSON support
+const REVIEW_XML_INSTRUCTIONS = `Return ONLY valid XML in the following structure (no extra commentary):
+<review>
+  <summary>[short summary of these changes]</summary>
+  <fileAnalyses>
+    <file>
+      <path>[filename]</path>
+      <analysis>[analysis for that file]</analysis>
+    </file>
+  </fileAnalyses>
+  <overallSuggestions>
+    <suggestion>[single bullet suggestion]</suggestion>
+  </overallSuggestions>
+  <findings>
+    <finding>
+      <path>[filename]</path>
+      <startLine>[first line the finding refers to]</startLine>
+      <endLine>[last line the finding refers to]</endLine>
+      <side>[RIGHT for lines in the new version of the file, LEFT for removed lines]</side>
+      <severity>[blocker, major, minor, or nit]</severity>
+      <category>[bug, security, performance, style, or test-gap]</category>
+      <comment>[concise, actionable comment about those lines]</comment>
+    </finding>
+  </findings>
+</review>`
+
+// Zod schema for the overall summary of a review done in batches
+const crossCuttingSchema = z.object({
+  summary: z.string().describe("Overall summary of the pull request"),
+  suggestions: z
+    .array(z.string())
+    .describe("Single bullet suggestions about cross-cutting concerns")
+})
+
+/**
+ * Builds a review with only a summary, used when the AI output can't be used.
+ * It is marked incomplete, so it never approves the pull request.
+ *
+ * @param summary - Explanation to show instead of a review
+ * @returns An otherwise empty review
+ */
+function emptyReview(summary: string): ReviewAnalysis {
+  return {
+    summary,
+    fileAnalyses: [],
+    overallSuggestions: [],
+    findings: [],
+    incomplete: true
+  }
+}
+
+/**
+ * Converts one parsed <finding> element into a ReviewFinding.
+ *
+ * @param f - The xml2js representation of the element
+ * @returns The finding, or undefined if it has no usable path, lines or comment
+ */
+function parseFinding(f: any): ReviewFinding | undefined {
+  const path = String(f.path?.[0] ?? "").trim()
+  const comment = String(f.comment?.[0] ?? "").trim()
+  const startLine = parseInt(f.startLine?.[0] ?? "", 10)
+  const endLine = parseInt(f.endLine?.[0] ?? f.startLine?.[0] ?? "", 10)
+  const side = String(f.side?.[0] ?? "").trim() === "LEFT" ? "LEFT" : "RIGHT"
+
+  if (!path || !comment || Number.isNaN(startLine)) return undefined
+
+  return {
+    path,
+    startLine,
+    endLine: Number.isNaN(endLine) ? startLine : endLine,
+    side,
+    severity: parseSeverity(f.severity?.[0]),
+    category: parseCategory(f.category?.[0]),
+    comment
+  }
+}
 
 /**
  * Parses the XML response from the AI model into a structured review format
  *
  * @param xmlText - The XML string from the AI model
- * @returns Parsed review data with summary, file analyses, and suggestions
+ * @returns Parsed review data with summary, file analyses, suggestions and line findings
  */
-async function parseReviewXml(xmlText: string) {
+export async function parseReviewXml(xmlText: string): Promise<ReviewAnalysis> {
   try {
     // Locate the <review>...</review> portion within the AI's output
     const startTag = "<review>"
     const endTag = "</review>"
     const startIndex = xmlText.indexOf(startTag)
-    const endIndex = xmlText.indexOf(endTag) + endTag.length
+    const endTagIndex = xmlText.indexOf(endTag)
 
     // If no XML section is found, return a placeholder review
-    if (startIndex === -1 || endIndex === -1) {
+    if (startIndex === -1) {
       console.warn("No <review> XML found in AI output.")
-      return {
-        summary: "Could not parse AI response.",
-        fileAnalyses: [],
-        overallSuggestions: []
-      }
+      return emptyReview("Could not parse AI response.")
+    }
+    // e.g. the model ran out of output tokens
+    if (endTagIndex === -1) {
+      console.warn("AI output ends before </review>, it was likely truncated.")
+      return emptyReview("Could not parse AI response: it was cut off.")
     }
 
     // Extract just the relevant XML portion
-    const xmlPortion = xmlText.slice(startIndex, endIndex)
+    const xmlPortion = xmlText.slice(startIndex, endTagIndex + endTag.length)
     const parsed = await parseStringPromise(xmlPortion)
 
     // Build an object from the parsed XML
@@ -55,18 +244,68 @@ async function parseReviewXml(xmlText: string) {
         parsed.review.overallSuggestions?.[0]?.suggestion
       )
         ? parsed.review.overallSuggestions[0].suggestion.map((s: any) => s)
+        : [],
+      findings: Array.isArray(parsed.review.findings?.[0]?.finding)
+        ? parsed.review.findings[0].finding
+            .map(parseFinding)
+            .filter((f: ReviewFinding | undefined) => f !== undefined)
         : []
     }
   } catch (err) {
     console.error("Error parsing review XML:", err)
-    return {
-      summary: "Parsing error from AI response.",
-      fileAnalyses: [],
-      overallSuggestions: []
-    }
+    return emptyReview("Parsing error from AI response.")
+  }
+}
+
+/**
+ * Converts the structured review from the AI into a ReviewAnalysis,
+ * dropping findings without a path or comment.
+ *
+ * @param review - The validated structured output
+ * @returns The review
+ */
+function toReviewAnalysis(
+  review: z.infer<typeof reviewSchema>
+): ReviewAnalysis {
+  return {
+    summary: review.summary,
+    fileAnalyses: review.fileAnalyses,
+    overallSuggestions: review.overallSuggestions,
+    findings: review.findings
+      .map(f => ({
+        ...f,
+        path: f.path.trim(),
+        comment: f.comment.trim(),
+        endLine: Math.max(f.endLine, f.startLine)
+      }))
+      .filter(f => f.path && f.comment)
   }
 }
 
+/**
+ * Appends a section to the body of an earlier review comment.
+ * Incremental reviews are added below a separator instead of replacing the original review.
+ *
+ * @param previousBody - The existing comment body
+ * @param section - The markdown to append
+ * @returns The combined comment body
+ */
+function appendToReview(previousBody: string, section: string) {
+  return `${previousBody.trimEnd()}\n\n---\n\n${section.trim()}\n`
+}
+
+/**
+ * Removes the section appendToReview added last, e.g. the status an earlier
+ * attempt of a retried job left on the review comment.
+ *
+ * @param body - The comment body
+ * @returns The body as it was before the last section was appended
+ */
+function removeLastSection(body: string) {
+  const separator = body.lastIndexOf("\n\n---\n\n")
+  return separator === -1 ? body : body.slice(0, separator)
+}
+
 /**
  * Updates the GitHub comment with the AI-generated review content in a readable format
  *
@@ -74,85 +313,376 @@ async function parseReviewXml(xmlText: string) {
  * @param repo - Repository name
  * @param commentId - ID of the comment to update
  * @param analysis - Parsed review data
+ * @param context - Pull request context (used to title incremental reviews)
+ * @param inline - Result of posting the findings as inline comments
+ * @param previousBody - Body of the earlier review to append to, for incremental reviews
+ * @returns The markdown of this review (without any earlier review it was appended to)
  */
 async function updateCommentWithReview(
   owner: string,
   repo: string,
   commentId: number,
-  analysis: Awaited<ReturnType<typeof parseReviewXml>>
+  analysis: ReviewAnalysis,
+  context: PullRequestContext,
+  inline: InlineReviewResult,
+  previousBody?: string
 ) {
+  // Incremental reviews get their own heading naming the commit range they cover
+  const { previousReview, headSha } = context
+  const heading = previousReview
+    ? `### AI Code Review Update (\`${previousReview.headSha.slice(0, 7)}\`...\`${headSha.slice(0, 7)}\`)${
+        previousReview.fullReviewReason
+          ? `\n\n_${previousReview.fullReviewReason}, so the full pull request was reviewed again._`
+          : ""
+      }`
+    : "### AI Code Review"
+
+  // Point at the inline comments, and list findings that couldn't be placed on the diff
+  const verdictSection = `**Verdict**  \n${describeVerdict(inline.event, inline.limitation)}${
+    inline.submitted ? "" : " _(Could not submit the review verdict.)_"
+  }\n`
+  const inlineSection =
+    inline.postedCount > 0
+      ? `\n💬 ${inline.postedCount} inline comment(s) posted on the diff.\n`
+      : ""
+  const otherFindingsSection =
+    inline.unanchored.length > 0
+      ? `\n**Other Findings**  \n${inline.unanchored
+          .map(
+            f =>
+              `- ${formatFindingLabel(f)} \`${formatLineRange(f)}\`: ${f.comment}`
+          )
+          .join("\n")}\n`
+      : ""
+
   // Format the review analysis as Markdown
   const commentBody = `
-### AI Code Review
+${heading}
 
+${formatConfigErrors(context.configErrors)}
 **Summary**  
 ${analysis.summary}
 
+${verdictSection}
 ${analysis.fileAnalyses
   .map((f: any) => `**File:** ${f.path}\nAnalysis:\n${f.analysis}`)
   .join("\n\n")}
-  
+${inlineSection}${otherFindingsSection}
 **Suggestions**  
 ${analysis.overallSuggestions.map((s: string) => `- ${s}`).join("\n")}
-`
 
-  await updateComment(owner, repo, commentId, commentBody)
+${formatExcludedFiles(context.changedFiles)}`
+
+  await updateComment(
+    owner,
+    repo,
+    commentId,
+    previousBody !== undefined
+      ? appendToReview(previousBody, commentBody)
+      : commentBody
+  )
+
+  return commentBody
+}
+
+// Check run conclusion for each verdict; "neutral" still lets branch protection pass
+const VERDICT_CONCLUSIONS: Record<ReviewEvent, CheckConclusion> = {
+  APPROVE: "success",
+  COMMENT: "neutral",
+  REQUEST_CHANGES: "failure"
 }
 
 /**
- * Generates a code review using the AI model based on changes in a PR.
+ * Converts findings into check run annotations.
+ * Only findings on the new version of a file (RIGHT side) can be annotated,
+ * since annotations always refer to the head commit, and only on files the PR
+ * changed, since GitHub rejects the whole update for any other path.
+ *
+ * @param findings - The review findings
+ * @param changedPaths - Paths of the files changed in the PR
+ * @returns Annotations for the check run
+ */
+function findingsToAnnotations(
+  findings: ReviewFinding[],
+  changedPaths: string[]
+): CheckAnnotation[] {
+  const paths = new Set(changedPaths)
+  return findings
+    .filter(f => f.side === "RIGHT" && paths.has(f.path))
+    .map(f => ({
+      path: f.path,
+      start_line: Math.min(f.startLine, f.endLine),
+      end_line: Math.max(f.startLine, f.endLine),
+      annotation_level:
+        f.severity === "blocker" || f.severity === "major"
+          ? "failure"
+          : f.severity === "minor"
+            ? "warning"
+            : "notice",
+      title: formatFindingLabel(f),
+      message: f.comment
+    }))
+}
+
+// Outcome of submitting the pull request review
+interface InlineReviewResult {
+  event: ReviewEvent // The verdict derived from the findings
+  limitation?: ReviewLimitation // Why the review couldn't approve, if it couldn't
+  submitted: boolean // Whether GitHub accepted the review with that verdict
+  postedCount: number
+  unanchored: ReviewFinding[] // Findings that have to be shown in the summary comment instead
+}
+
+// Short explanation of each verdict, used in the review body and summary comment
+const VERDICT_DESCRIPTIONS: Record<ReviewEvent, string> = {
+  APPROVE: "✅ Approved: no issues found.",
+  COMMENT: "💬 Commented: no findings at or above the blocking severity.",
+  REQUEST_CHANGES:
+    "⛔ Changes requested: at least one finding is at or above the blocking severity."
+}
+
+// Added to the verdict of a review that couldn't approve the pull request
+const LIMITATION_NOTES: Record<ReviewLimitation, string> = {
+  incomplete:
+    "⚠️ The review failed or didn't cover every file, so it doesn't approve the pull request.",
+  incremental:
+    "Only the commits since the last review were reviewed, so the earlier verdict still stands."
+}
+
+/**
+ * Describes a verdict, noting why the review couldn't approve if it couldn't.
+ *
+ * @param event - The verdict
+ * @param limitation - Why the review couldn't approve, if it couldn't
+ * @returns The description for the review body, summary comment and check run
+ */
+function describeVerdict(
+  event: ReviewEvent,
+  limitation?: ReviewLimitation
+): string {
+  return limitation
+    ? `${VERDICT_DESCRIPTIONS[event]} ${LIMITATION_NOTES[limitation]}`
+    : VERDICT_DESCRIPTIONS[event]
+}
+
+/**
+ * Decides whether a review may approve the pull request. A review that failed for
+ * some files can't, and neither can an incremental review: it doesn't see the code
+ * an earlier review asked to change, so approving would replace that verdict.
+ *
+ * @param context - Pull request context
+ * @param analysis - The review
+ * @returns Why the review can't approve, or undefined if it can
+ */
+function getReviewLimitation(
+  context: PullRequestContext,
+  analysis: ReviewAnalysis
+): ReviewLimitation | undefined {
+  if (analysis.incomplete) return "incomplete"
+  if (context.previousReview && !context.previousReview.fullReviewReason) {
+    return "incremental"
+  }
+  return undefined
+}
+
+/**
+ * Formats a finding's location like "src/file.ts:10-12".
+ *
+ * @param finding - The finding to format
+ * @returns The path and line range
+ */
+function formatLineRange(finding: ReviewFinding) {
+  const lines =
+    finding.startLine === finding.endLine
+      ? `${finding.startLine}`
+      : `${finding.startLine}-${finding.endLine}`
+  return `${finding.path}:${lines}`
+}
+
+/**
+ * Maps findings onto the PR's diff as inline review comments.
+ * Comments are posted on the PR's diff against its base. An incremental review's
+ * findings refer to the diff since the previous review, whose new-file (RIGHT) lines
+ * are the same but whose old-file (LEFT) lines aren't, so for incremental reviews
+ * RIGHT findings are anchored to the PR's own patches and LEFT findings aren't anchored.
  *
  * @param context - Pull request context containing files and metadata
- * @returns Parsed review data from the AI
+ * @param findings - The review findings
+ * @returns The inline comments, and the findings that couldn't be placed in the diff
  */
-async function generateReview(context: PullRequestContext) {
-  const { title, changedFiles, commitMessages } = context
+export function anchorFindings(
+  context: PullRequestContext,
+  findings: ReviewFinding[]
+): {
+  comments: (DiffAnchor & { path: string; body: string })[]
+  unanchored: ReviewFinding[]
+} {
+  const { changedFiles, pullRequestPatches } = context
 
-  // Prepare changed files prompt for the AI
-  const changedFilesPrompt = changedFiles
-    .map(file => {
-      if (file.excluded) {
-        return `File: ${file.filename}\nStatus: ${file.status}\n[EXCLUDED FROM PROMPT]\n`
-      }
-      return `File: ${file.filename}\nStatus: ${file.status}\nPatch (diff):\n${file.patch}\nCurrent Content:\n${file.content ?? "N/A"}\n`
+  const comments: (DiffAnchor & { path: string; body: string })[] = []
+  const unanchored: ReviewFinding[] = []
+
+  for (const finding of findings) {
+    const patch = pullRequestPatches
+      ? finding.side === "RIGHT"
+        ? pullRequestPatches[finding.path]
+        : undefined
+      : changedFiles.find(f => f.filename === finding.path)?.patch
+    const anchor = patch ? anchorToDiff(patch, finding) : undefined
+
+    if (anchor) {
+      comments.push({
+        path: finding.path,
+        body: `**${formatFindingLabel(finding)}**\n\n${finding.comment}`,
+        ...anchor
+      })
+    } else {
+      unanchored.push(finding)
+    }
+  }
+
+  return { comments, unanchored }
+}
+
+/**
+ * Submits the review: one pull request review whose verdict comes from the worst finding,
+ * with the findings as inline comments. Each finding is mapped onto the diff hunks of its file.
+ * Findings that fall outside the diff (or all of them, if GitHub rejects the comments) are
+ * returned so they can be shown in the summary comment instead.
+ *
+ * @param context - Pull request context with the changed files' patches
+ * @param findings - The findings to post
+ * @param blockingSeverity - The lowest severity that requests changes
+ * @param limitation - Why the review can't approve, if it can't; it comments instead
+ * @returns The verdict, how many comments were posted and which findings couldn't be anchored
+ */
+async function submitInlineReview(
+  context: PullRequestContext,
+  findings: ReviewFinding[],
+  blockingSeverity: BlockingSeverity,
+  limitation?: ReviewLimitation
+): Promise<InlineReviewResult> {
+  const { owner, repo, pullNumber, headSha } = context
+
+  const { comments, unanchored } = anchorFindings(context, findings)
+  const event = determineReviewEvent(findings, blockingSeverity, !limitation)
+
+  const createReview = (reviewComments: typeof comments) =>
+    octokit.pulls.createReview({
+      owner,
+      repo,
+      pull_number: pullNumber,
+      commit_id: headSha,
+      event,
+      body: `🤖 AI Code Review: ${describeVerdict(event, limitation)} See the review comment on the PR for the summary.`,
+      comments: reviewComments
     })
-    .join("\n---\n")
 
-  // Construct the review prompt
-  const prompt = `
+  try {
+    // One review with all comments, so the author gets a single notification
+    await createReview(comments)
+    return {
+      event,
+      limitation,
+      submitted: true,
+      postedCount: comments.length,
+      unanchored
+    }
+  } catch (err) {
+    // E.g. a line GitHub considers outside the diff; keep the feedback in the summary
+    console.error("Error posting inline review, falling back to summary:", err)
+  }
+
+  try {
+    // Still submit the verdict, just without inline comments
+    await createReview([])
+    return {
+      event,
+      limitation,
+      submitted: true,
+      postedCount: 0,
+      unanchored: findings
+    }
+  } catch (err) {
+    console.error("Error submitting review verdict:", err)
+    return {
+      event,
+      limitation,
+      submitted: false,
+      postedCount: 0,
+      unanchored: findings
+    }
+  }
+}
+
+/**
+ * Builds the review prompt around the packed changed-file sections.
+ *
+ * @param context - Pull request context containing files and metadata
+ * @param changedFilesPrompt - The changed files, as packed by the context builder
+ * @param batchNote - For batched reviews, which part of the PR the prompt covers
+ * @param structured - Whether the model answers with structured output instead of XML
+ * @returns The full prompt
+ */
+function buildReviewPrompt(
+  context: PullRequestContext,
+  changedFilesPrompt: string,
+  batchNote = "",
+  structured = true
+) {
+  const { title, commitMessages, previousReview, config } = context
+
+  // For incremental reviews, tell the model it is only seeing the new commits
+  const scopePrompt =
+    previousReview && !previousReview.fullReviewReason
+      ? `These changes were pushed after an earlier review of commit ${previousReview.headSha}. Only the diff since that commit is shown. Review only these changes and do not repeat feedback about code outside of them.\n`
+      : ""
+
+  return `
 You are an expert code reviewer. Provide feedback on the following pull request changes in clear, concise paragraphs. 
 Do not use code blocks for regular text. Format any suggestions as single-line bullet points.
 
-PR Title: ${title}
+${
+  config.review.guidelines
+    ? `Follow these review guidelines from the repository:\n${config.review.guidelines}\n\n`
+    : ""
+}${scopePrompt}${batchNote}PR Title: ${title}
 Commit Messages:
 ${commitMessages.map(msg => `- ${msg}`).join("\n")}
 Changed Files:
 ${changedFilesPrompt}
 
 
-Return ONLY valid XML in the following structure (no extra commentary):
-<review>
-  <summary>[short summary of these changes]</summary>
-  <fileAnalyses>
-    <file>
-      <path>[filename]</path>
-      <analysis>[analysis for that file]</analysis>
-    </file>
-  </fileAnalyses>
-  <overallSuggestions>
-    <suggestion>[single bullet suggestion]</suggestion>
-  </overallSuggestions>
-</review>
+${structured ? REVIEW_OBJECT_INSTRUCTIONS : REVIEW_XML_INSTRUCTIONS}
 
-ONLY return the <review> XML with the summary, fileAnalyses, and overallSuggestions. Do not add extra commentary.
-`
+Findings must point at lines that appear in the patch. Use line numbers from the patch hunks: the "+" side numbering for RIGHT and the "-" side numbering for LEFT. Leave the findings empty if there is nothing specific to point out.
 
-  try {
-    // Generate the text from the AI model
-    const model = getLLMModel()
+Severity guide:
+- blocker: must be fixed before merging (broken behavior, security holes, data loss)
+- major: likely bug or significant problem that should be fixed
+- minor: worthwhile improvement that doesn't block merging
+- nit: cosmetic or purely stylistic
+${structured ? "" : "\nONLY return the <review> XML with the summary, fileAnalyses, overallSuggestions, and findings. Do not add extra commentary.\n"}`
+}
+
+/**
+ * Sends a review prompt to the model and parses the answer: as structured output
+ * validated against the review schema, or as XML for models that only produce text.
+ *
+ * @param model - The model to use
+ * @param prompt - The full review prompt, built for the model's output format
+ * @returns Parsed review data from the AI
+ * @throws StructuredOutputError if the answer didn't match the schema after re-asking
+ */
+async function runReviewPrompt(
+  model: LanguageModel,
+  prompt: string
+): Promise<ReviewAnalysis> {
+  if (!supportsStructuredOutput(model)) {
     const { text } = await generateText({
       model,
-      prompt
+      prompt,
+      maxRetries: 0 // Retried by the model's call policy
     })
 
     console.log(
@@ -163,56 +693,570 @@ ONLY return the <review> XML with the summary, fileAnalyses, and overallSuggesti
 
     // Parse the returned XML
     return parseReviewXml(text)
+  }
+
+  const review = await generateValidatedObject({
+    model,
+    schema: reviewSchema,
+    schemaName: "review",
+    schemaDescription: "Code review of the pull request changes",
+    prompt
+  })
+  return toReviewAnalysis(review)
+}
+
+/**
+ * Removes findings that point at the same problem, which happens when batches
+ * comment on each other's files. Findings on the same file, side and category
+ * with overlapping lines count as duplicates; the most severe one is kept.
+ *
+ * @param findings - Findings from all batches
+ * @returns The findings without duplicates, most severe first
+ */
+export function dedupeFindings(findings: ReviewFinding[]): ReviewFinding[] {
+  const sorted = [...findings].sort(
+    (a, b) => SEVERITIES.indexOf(a.severity) - SEVERITIES.indexOf(b.severity)
+  )
+  const kept: ReviewFinding[] = []
+
+  for (const finding of sorted) {
+    const duplicate = kept.some(
+      k =>
+        k.path === finding.path &&
+        k.side === finding.side &&
+        k.category === finding.category &&
+        Math.min(k.startLine, k.endLine) <=
+          Math.max(finding.startLine, finding.endLine) &&
+        Math.min(finding.startLine, finding.endLine) <=
+          Math.max(k.startLine, k.endLine)
+    )
+    if (!duplicate) kept.push(finding)
+  }
+
+  return kept
+}
+
+/**
+ * Merges the reviews of several batches into one.
+ * The summary is left empty; it comes from the cross-cutting summary pass.
+ * The result is incomplete if any batch is, since some files weren't reviewed.
+ *
+ * @param reviews - The review of each batch
+ * @returns The combined review
+ */
+export function mergeReviews(reviews: ReviewAnalysis[]): ReviewAnalysis {
+  const suggestions = reviews.flatMap(r => r.overallSuggestions)
+  return {
+    summary: "",
+    fileAnalyses: reviews.flatMap(r => r.fileAnalyses),
+    overallSuggestions: suggestions.filter(
+      (s, i) =>
+        suggestions.findIndex(
+          other => other.trim().toLowerCase() === s.trim().toLowerCase()
+        ) === i
+    ),
+    findings: dedupeFindings(reviews.flatMap(r => r.findings)),
+    incomplete: reviews.some(r => r.incomplete)
+  }
+}
+
+/**
+ * Runs the reduce step of a batched review: one more prompt that sees every batch's
+ * summary and findings and writes the overall summary, including concerns that
+ * span several batches.
+ *
+ * @param context - Pull request context
+ * @param batches - The files of each batch
+ * @param reviews - The review of each batch
+ * @param findings - The merged findings
+ * @returns The overall summary and any cross-cutting suggestions
+ */
+async function summarizeBatchedReview(
+  context: PullRequestContext,
+  batches: PullRequestContext["changedFiles"][],
+  reviews: ReviewAnalysis[],
+  findings: ReviewFinding[]
+): Promise<{ summary: string; suggestions: string[] }> {
+  const partsPrompt = reviews
+    .map(
+      (review, i) =>
+        `Part ${i + 1} (files: ${batches[i].map(f => f.filename).join(", ")}):\n${review.summary}`
+    )
+    .join("\n\n")
+  const findingsPrompt = findings
+    .map(
+      f =>
+        `- [${f.severity}, ${f.category}] ${formatLineRange(f)}: ${f.comment}`
+    )
+    .join("\n")
+
+  const prompt = `
+You are an expert code reviewer. This pull request was too large to review at once, so it was reviewed in ${reviews.length} parts.
+Below are the summary of each part and all findings. Write the overall summary of the pull request, and point out cross-cutting concerns
+that only show up when looking at several parts together (e.g. inconsistent changes, callers that weren't updated, duplicated logic).
+
+PR Title: ${context.title}
+Commit Messages:
+${context.commitMessages.map(msg => `- ${msg}`).join("\n")}
+
+Part Summaries:
+${partsPrompt}
+
+Findings:
+${findingsPrompt || "(none)"}
+`
+
+  // Without a summary pass, the part summaries are the best we have
+  const fallback = {
+    summary: reviews
+      .map((r, i) => `**Part ${i + 1}:** ${r.summary}`)
+      .join("\n\n"),
+    suggestions: []
+  }
+
+  try {
+    return await runWithModelFallback(
+      context.config,
+      "reviewSummary",
+      async model => {
+        if (supportsStructuredOutput(model)) {
+          return await generateValidatedObject({
+            model,
+            schema: crossCuttingSchema,
+            schemaName: "crossCutting",
+            schemaDescription: "Overall summary of a review done in parts",
+            prompt
+          })
+        }
+
+        const { text } = await generateText({
+          model,
+          maxRetries: 0, // Retried by the model's call policy
+          prompt: `${prompt}
+Return ONLY valid XML in the following structure (no extra commentary):
+<crossCutting>
+  <summary>[overall summary of the pull request]</summary>
+  <suggestions>
+    <suggestion>[single bullet suggestion about a cross-cutting concern]</suggestion>
+  </suggestions>
+</crossCutting>
+`
+        })
+        const startIndex = text.indexOf("<crossCutting>")
+        const endIndex = text.indexOf("</crossCutting>")
+        if (startIndex === -1 || endIndex === -1) {
+          console.warn("No <crossCutting> XML found in AI output.")
+          return fallback
+        }
+
+        const parsed = await parseStringPromise(
+          text.slice(startIndex, endIndex + "</crossCutting>".length)
+        )
+        const suggestions = parsed.crossCutting.suggestions?.[0]?.suggestion
+        return {
+          summary: parsed.crossCutting.summary?.[0] ?? fallback.summary,
+          suggestions: Array.isArray(suggestions) ? suggestions : []
+        }
+      }
+    )
+  } catch (err) {
+    console.error("Error in cross-cutting review summary:", err)
+    return fallback
+  }
+}
+
+/**
+ * Reviews the batches of a large PR, a few at a time. A batch that fails becomes
+ * an incomplete review naming its files, so the rest of the review isn't lost
+ * but the merged review can't approve files nobody looked at.
+ *
+ * @param batches - The files of each batch
+ * @param concurrency - How many batches are reviewed at once
+ * @param reviewBatch - Reviews one batch
+ * @returns The review of each batch, in order
+ * @throws The last batch's error if no batch could be reviewed, so the next model can try
+ */
+export async function reviewBatches(
+  batches: PullRequestContext["changedFiles"][],
+  concurrency: number,
+  reviewBatch: (
+    files: PullRequestContext["changedFiles"],
+    index: number
+  ) => Promise<ReviewAnalysis>
+): Promise<ReviewAnalysis[]> {
+  let failedBatches = 0
+  let lastError: unknown
+
+  const reviews = await mapWithConcurrency(
+    batches,
+    concurrency,
+    async (files, i) => {
+      try {
+        return await reviewBatch(files, i)
+      } catch (err) {
+        console.error(`Error reviewing batch ${i + 1}:`, err)
+        failedBatches++
+        lastError = err
+        return emptyReview(
+          `Files ${files.map(f => `\`${f.filename}\``).join(", ")} could not be reviewed.`
+        )
+      }
+    }
+  )
+
+  if (failedBatches === batches.length) throw lastError
+  return reviews
+}
+
+/**
+ * Reviews a PR that doesn't fit in one prompt (map-reduce):
+ * 1. Split the changed files into batches of related files that each fit the budget
+ * 2. Review the batches in parallel, a few at a time
+ * 3. Merge the batch reviews and drop duplicate findings
+ * 4. Write the overall summary in a cross-cutting pass over all batches
+ * If all files fit in a single batch, it's reviewed with one prompt instead.
+ *
+ * @param context - Pull request context containing files and metadata
+ * @param model - The model to use
+ * @param budgetScale - Share of the prompt budget to use
+ * @returns The combined review, incomplete if any batch failed
+ * @throws The last batch's error if no batch could be reviewed, so the next model can try
+ */
+async function generateBatchedReview(
+  context: PullRequestContext,
+  model: LanguageModel,
+  budgetScale: number
+): Promise<ReviewAnalysis> {
+  const { changedFiles, config } = context
+  const allFilenames = changedFiles.map(f => f.filename)
+
+  // Leave room for the note listing the files reviewed in other batches
+  const budget = getPromptBudget(
+    model,
+    buildReviewPrompt(
+      context,
+      "",
+      buildBatchNote(1, 1, allFilenames),
+      supportsStructuredOutput(model)
+    ),
+    budgetScale
+  )
+  const batches = groupFilesIntoBatches(changedFiles, {
+    modelId: model.modelId,
+    budget
+  })
+
+  // Batching can't help when everything lands in one batch (e.g. a single oversized
+  // file), so review it in one prompt without the cross-cutting pass
+  if (batches.length === 1) {
+    const packed = packChangedFiles(changedFiles, {
+      modelId: model.modelId,
+      budget
+    })
+    logPromptComposition("review", model.modelId, budget, [packed])
+    return runReviewPrompt(
+      model,
+      buildReviewPrompt(
+        context,
+        packed.text,
+        "",
+        supportsStructuredOutput(model)
+      )
+    )
+  }
+
+  console.log(
+    `Reviewing ${changedFiles.length} files in ${batches.length} batches (${config.review.batchConcurrency} at a time)`
+  )
+
+  const reviews = await reviewBatches(
+    batches,
+    config.review.batchConcurrency,
+    async (files, i) => {
+      const note = buildBatchNote(
+        i + 1,
+        batches.length,
+        allFilenames.filter(name => !files.some(f => f.filename === name))
+      )
+      const packed = packChangedFiles(files, {
+        modelId: model.modelId,
+        budget
+      })
+      logPromptComposition(
+        `review batch ${i + 1}/${batches.length}`,
+        model.modelId,
+        budget,
+        [packed]
+      )
+
+      return runReviewPrompt(
+        model,
+        buildReviewPrompt(
+          context,
+          packed.text,
+          note,
+          supportsStructuredOutput(model)
+        )
+      )
+    }
+  )
+
+  const merged = mergeReviews(reviews)
+  const { summary, suggestions } = await summarizeBatchedReview(
+    context,
+    batches,
+    reviews,
+    merged.findings
+  )
+
+  return {
+    ...merged,
+    summary,
+    overallSuggestions: [...suggestions, ...merged.overallSuggestions]
+  }
+}
+
+/**
+ * Tells the model that it only sees part of a large PR.
+ *
+ * @param part - Which batch this is (1-based)
+ * @param total - The number of batches
+ * @param otherFilenames - Files reviewed in the other batches
+ * @returns The note to add to the review prompt
+ */
+function buildBatchNote(part: number, total: number, otherFilenames: string[]) {
+  if (total === 1 && otherFilenames.length === 0) return ""
+  return `This pull request is too large to review at once. This is part ${part} of ${total}. Review only the files shown below; these other files are reviewed separately: ${otherFilenames.join(", ")}\n`
+}
+
+/**
+ * Reviews a PR with one model. The changed files are packed to fit the model's
+ * context window, most relevant first. If some files would have to be cut down
+ * to fit, the PR is reviewed in batches instead (when it splits into more than one).
+ *
+ * @param context - Pull request context containing files and metadata
+ * @param model - The model to use
+ * @param budgetScale - Share of the prompt budget to use
+ * @returns Parsed review data from the AI
+ */
+async function reviewWithModel(
+  context: PullRequestContext,
+  model: LanguageModel,
+  budgetScale: number
+): Promise<ReviewAnalysis> {
+  // Fit the changed files into whatever the instructions leave of the context window
+  const budget = getPromptBudget(
+    model,
+    buildReviewPrompt(context, "", "", supportsStructuredOutput(model)),
+    budgetScale
+  )
+  const packed = packChangedFiles(context.changedFiles, {
+    modelId: model.modelId,
+    budget
+  })
+
+  // Too large for one prompt without losing detail
+  if (packed.degradedCount > 0) {
+    return generateBatchedReview(context, model, budgetScale)
+  }
+
+  logPromptComposition("review", model.modelId, budget, [packed])
+  return runReviewPrompt(
+    model,
+    buildReviewPrompt(context, packed.text, "", supportsStructuredOutput(model))
+  )
+}
+
+/**
+ * Generates a code review using the AI model based on changes in a PR.
+ * The models routed to the review step are tried in order until one produces a review.
+ *
+ * @param context - Pull request context containing files and metadata
+ * @returns Parsed review data from the AI
+ * @throws The LLM error if the provider stayed unavailable, so the job is retried
+ */
+async function generateReview(context: PullRequestContext) {
+  try {
+    return await runWithModelFallback(
+      context.config,
+      "review",
+      (model, scale) => reviewWithModel(context, model, scale)
+    )
   } catch (error) {
     console.error("Error generating or parsing AI analysis:", error)
-    // Return a fallback review object
-    return {
-      summary: "We were unable to analyze the code due to an internal error.",
-      fileAnalyses: [],
-      overallSuggestions: []
-    }
+    // The provider may be back later; let the worker retry the job
+    if (classifyLLMError(error) === "transient") throw error
+
+    // Return a fallback review object that says what went wrong
+    return emptyReview(
+      error instanceof StructuredOutputError
+        ? "The AI response didn't match the review format, even after asking again."
+        : (describeLLMError(error) ??
+            "We were unable to analyze the code due to an internal error.")
+    )
   }
 }
 
 /**
  * Main handler for the review process:
- * 1. Create placeholder comment
+ * 1. Create placeholder comment (or mark the previous review comment as updating)
+ *    and an in-progress check run on the head commit
  * 2. Generate code review using AI
- * 3. Update the comment with the review
+ * 3. Submit a review whose verdict follows the worst finding, with the findings as inline
+ *    comments, then update the comment and complete the check run with the summary
  * 4. Remove the review label
  *
+ * When the context carries a previous review (new commits were pushed), the new
+ * review is appended to the earlier comment instead of posting a new one.
+ *
+ * Between steps we check the run guard, so a review for an outdated commit
+ * stops as soon as a newer commit supersedes it.
+ *
  * @param context - Pull request context
+ * @param guard - Optional cancellation guard from the run ledger
+ * @returns The ID of the comment the review was posted in
  */
-export async function handleReviewAgent(context: PullRequestContext) {
-  const { owner, repo, pullNumber } = context
+export async function handleReviewAgent(
+  context: PullRequestContext,
+  guard?: RunGuard
+): Promise<number | undefined> {
+  const { owner, repo, pullNumber, headSha, previousReview } = context
   let commentId: number | undefined
+  let checkRunId: number | undefined
+  let previousBody: string | undefined
+
+  // Status messages replace a fresh comment, but are appended to an earlier review
+  const statusBody = (message: string) =>
+    previousBody !== undefined ? appendToReview(previousBody, message) : message
 
   try {
-    // 1. Create a placeholder comment while AI processes the review
-    commentId = await createPlaceholderComment(
+    await guard?.throwIfCancelled()
+
+    // A retried job reuses the check run and comment its earlier attempts posted
+    const run = guard && (await getRun(guard.runId))
+
+    // 1. Show the run in the PR checks UI
+    checkRunId = await startCheckRun(
       owner,
       repo,
-      pullNumber,
-      "🤖 AI Code Review in progress..."
+      headSha,
+      REVIEW_CHECK_NAME,
+      run?.checkRunId
     )
+    if (guard && checkRunId !== undefined) {
+      await setRunCheckRunId(guard.runId, checkRunId)
+    }
+
+    // Reuse the previous review comment if it still exists, otherwise create a placeholder
+    const appendedBefore =
+      run?.commentId !== undefined &&
+      run.commentId === previousReview?.commentId
+    if (previousReview?.commentId) {
+      previousBody = await getCommentBody(owner, repo, previousReview.commentId)
+      // An earlier attempt already appended its status; append to what was there before it
+      if (previousBody !== undefined && appendedBefore) {
+        previousBody = removeLastSection(previousBody)
+      }
+    }
+    if (previousReview?.commentId && previousBody !== undefined) {
+      commentId = previousReview.commentId
+      await updateComment(
+        owner,
+        repo,
+        commentId,
+        statusBody(
+          `🤖 AI Code Review in progress for commits since \`${previousReview.headSha.slice(0, 7)}\`...`
+        )
+      )
+    } else {
+      commentId = await createPlaceholderComment(
+        owner,
+        repo,
+        pullNumber,
+        "🤖 AI Code Review in progress...",
+        run?.commentId
+      )
+    }
+    if (guard) await setRunCommentId(guard.runId, commentId)
 
     // 2. Generate the review
     const analysis = await generateReview(context)
+    await guard?.throwIfCancelled()
 
-    // 3. Update the comment with the AI-generated review data
-    await updateCommentWithReview(owner, repo, commentId, await analysis)
+    // 3. Submit the review verdict with inline comments, then update the comment with the AI-generated review data
+    const inline = await submitInlineReview(
+      context,
+      analysis.findings,
+      context.config.review.blockingSeverity,
+      getReviewLimitation(context, analysis)
+    )
+    // The review is posted: a retry would post it again with every inline comment,
+    // so from here on failures are reported instead of rethrown
+    let reviewBody: string
+    try {
+      reviewBody = await updateCommentWithReview(
+        owner,
+        repo,
+        commentId,
+        analysis,
+        context,
+        inline,
+        previousBody
+      )
+    } catch (err) {
+      console.error("Error updating the comment of a posted review:", err)
+      reviewBody = `The review was posted, but its summary comment couldn't be updated: ${err instanceof Error ? err.message : String(err)}`
+    }
+    await completeCheckRun(owner, repo, checkRunId, {
+      conclusion: VERDICT_CONCLUSIONS[inline.event],
+      title: describeVerdict(inline.event, inline.limitation),
+      summary: reviewBody,
+      annotations: findingsToAnnotations(
+        analysis.findings,
+        context.changedFiles.map(f => f.filename)
+      )
+    })
 
     // 4. Remove the label so we don't re-run automatically
-    await removeLabel(owner, repo, pullNumber, REVIEW_LABEL)
+    await removeLabel(owner, repo, pullNumber, context.config.labels.review)
+
+    return commentId
   } catch (err) {
+    if (err instanceof RunCancelledError) {
+      // Superseded by a newer commit, say so instead of reporting an error
+      if (typeof commentId !== "undefined") {
+        await updateComment(
+          owner,
+          repo,
+          commentId,
+          statusBody(`⏹️ Code review cancelled: ${err.message}.`)
+        )
+      }
+      await completeCheckRun(owner, repo, checkRunId, {
+        conclusion: "cancelled",
+        title: "Code review cancelled",
+        summary: `⏹️ ${err.message}.`
+      })
+      throw err
+    }
+
     console.error("Error in handleReviewAgent:", err)
     if (typeof commentId !== "undefined") {
       await updateComment(
         owner,
         repo,
         commentId,
-        "❌ Error during code review. Please check the logs."
+        statusBody(
+          `❌ Error during code review. ${describeLLMError(err) ?? "Please check the logs."}`
+        )
       )
     }
+    await completeCheckRun(owner, repo, checkRunId, {
+      conclusion: "failure",
+      title: "Code review failed",
+      summary: `❌ Error during code review: ${err instanceof Error ? err.message : String(err)}`
+    })
+    // Re-throw so the worker can retry the job
+    throw err
   }
 }
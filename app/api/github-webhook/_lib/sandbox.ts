@@ -0,0 +1,441 @@
+/*
+<ai_context>
+This file contains the sandbox used to verify generated tests before they are committed.
+It checks out the PR's head commit into a temporary directory, installs dependencies,
+writes the generated test files and runs the type checker and the test runner on just those files.
+Commands run with a minimal environment (no API keys or GitHub credentials), a throwaway
+HOME and a timeout. This is not isolation: the PR's code (including code from forks) still
+runs on the worker's host as the worker's user, and can read the worker's files and its
+environment through /proc. Fork PRs are therefore never run here, and the worker should
+still run in a container of its own.
+</ai_context>
+*/
+
+import { spawn } from "child_process"
+import { existsSync, mkdtempSync } from "fs"
+import { mkdir, mkdtemp, rm, unlink, writeFile } from "fs/promises"
+import os from "os"
+import path from "path"
+
+// Dependency installs can be slow on a cold cache
+const INSTALL_TIMEOUT_MS = 10 * 60 * 1000
+
+// Only the end of a command's output is kept; that's where the errors are
+const MAX_OUTPUT_LENGTH = 8000
+
+// The test runners a sandbox can run
+export type TestRunner =
+  | "jest"
+  | "vitest"
+  | "mocha"
+  | "node-test"
+  | "playwright"
+  | "cypress"
+
+/**
+ * The outcome of running a command in the sandbox.
+ */
+export interface CommandResult {
+  exitCode: number
+  output: string // Combined stdout and stderr, truncated to the last MAX_OUTPUT_LENGTH characters unless fullOutput is set
+  timedOut: boolean
+}
+
+/**
+ * A file to write into the workspace. deleteFilename is removed first, for renames.
+ */
+export interface WorkspaceFile {
+  filename: string
+  content: string
+  deleteFilename?: string
+}
+
+/**
+ * The outcome of verifying one test file.
+ */
+export interface TestVerification {
+  filename: string
+  passed: boolean
+  reason?: string // Short explanation when the test didn't pass
+  output?: string // Compiler or test runner output when the test didn't pass
+}
+
+/**
+ * Runs a command without a shell, with a timeout and a minimal environment,
+ * so code from the PR can't read the agent's secrets. HOME is a new empty
+ * directory, deleted afterwards, so ~/.npmrc, git credentials and anything else
+ * in the worker's home are out of reach.
+ * The command runs in its own process group, which is killed as a whole on timeout:
+ * test runners start workers and dev servers that would otherwise outlive it.
+ *
+ * @param command - The executable
+ * @param args - Its arguments
+ * @param options.cwd - Working directory
+ * @param options.timeoutMs - Kill the command after this long
+ * @param options.fullOutput - Keep all of the output instead of only its end,
+ * for output that is parsed rather than shown to the model
+ * @returns The exit code and output; never throws for a failing command
+ */
+export function runCommand(
+  command: string,
+  args: string[],
+  options: { cwd: string; timeoutMs: number; fullOutput?: boolean }
+): Promise<CommandResult> {
+  return new Promise(resolve => {
+    const home = mkdtempSync(path.join(os.tmpdir(), "ai-agent-home-"))
+    const child = spawn(command, args, {
+      cwd: options.cwd,
+      detached: true,
+      stdio: ["ignore", "pipe", "pipe"],
+      env: {
+        PATH: process.env.PATH,
+        HOME: home,
+        TMPDIR: os.tmpdir(),
+        CI: "1",
+        NODE_ENV: "test"
+      }
+    })
+
+    // Keep only the end of the output, so chatty commands can't fill the memory
+    let output = ""
+    const collect = (chunk: Buffer) => {
+      output = options.fullOutput
+        ? `${output}${chunk}`
+        : `${output}${chunk}`.slice(-MAX_OUTPUT_LENGTH)
+    }
+    child.stdout.on("data", collect)
+    child.stderr.on("data", collect)
+
+    // A negative PID signals every process in the group
+    const killGroup = () => {
+      try {
+        if (child.pid !== undefined) process.kill(-child.pid, "SIGKILL")
+      } catch {
+        // The group is already gone
+      }
+    }
+
+    let timedOut = false
+    const timer = setTimeout(() => {
+      timedOut = true
+      killGroup()
+    }, options.timeoutMs)
+
+    // Processes left behind in the background would keep the output pipes open
+    child.on("exit", killGroup)
+
+    let settled = false
+    const finish = (exitCode: number) => {
+      if (settled) return
+      settled = true
+      clearTimeout(timer)
+      rm(home, { recursive: true, force: true })
+        .catch(() => {})
+        .then(() => resolve({ exitCode, output, timedOut }))
+    }
+    child.on("close", code => finish(code ?? 1))
+    // The command couldn't be started, e.g. it isn't installed
+    child.on("error", err => {
+      collect(Buffer.from(err.message))
+      finish(1)
+    })
+  })
+}
+
+/**
+ * Checks that a path from the model stays inside the repository.
+ *
+ * @param filename - Path relative to the repo root
+ * @returns true if the path is relative and doesn't climb out of the repo
+ */
+export function isPathInsideRepo(filename: string): boolean {
+  const normalized = path.posix.normalize(filename)
+  return (
+    !path.posix.isAbsolute(normalized) &&
+    normalized !== ".." &&
+    !normalized.startsWith("../")
+  )
+}
+
+/**
+ * Resolves a repo-relative path inside the workspace, refusing paths that escape it.
+ *
+ * @param dir - The workspace directory
+ * @param filename - Path relative to the repo root
+ * @returns The absolute path
+ * @throws Error if the path points outside of the workspace
+ */
+function resolveInWorkspace(dir: string, filename: string): string {
+  const resolved = path.resolve(dir, filename)
+  if (!resolved.startsWith(`${path.resolve(dir)}${path.sep}`)) {
+    throw new Error(`Refusing to write outside of the workspace: ${filename}`)
+  }
+  return resolved
+}
+
+/**
+ * Picks the install command for the workspace from its lockfile.
+ * Install scripts are skipped so the PR can't run code during the install.
+ *
+ * @param dir - The workspace directory
+ * @returns The command and arguments
+ */
+function getInstallCommand(dir: string): [string, string[]] {
+  if (existsSync(path.join(dir, "pnpm-lock.yaml"))) {
+    return [
+      "corepack",
+      ["pnpm", "install", "--frozen-lockfile", "--ignore-scripts"]
+    ]
+  }
+  if (existsSync(path.join(dir, "yarn.lock"))) {
+    return [
+      "corepack",
+      ["yarn", "install", "--frozen-lockfile", "--ignore-scripts"]
+    ]
+  }
+  if (existsSync(path.join(dir, "package-lock.json"))) {
+    return ["npm", ["ci", "--ignore-scripts", "--no-audit", "--no-fund"]]
+  }
+  return ["npm", ["install", "--ignore-scripts", "--no-audit", "--no-fund"]]
+}
+
+/**
+ * Checks out a commit into a new temporary directory and installs its dependencies.
+ * The token is only passed to the fetch as a header, so it never ends up in the
+ * workspace's git config where the tests could read it.
+ *
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param sha - The commit to check out
+ * @param token - A GitHub token with read access to the repository
+ * @returns The workspace directory
+ * @throws Error if the checkout or the install fails
+ */
+export async function createWorkspace(
+  owner: string,
+  repo: string,
+  sha: string,
+  token: string
+): Promise<string> {
+  const dir = await mkdtemp(path.join(os.tmpdir(), "ai-agent-"))
+  const auth = Buffer.from(`x-access-token:${token}`).toString("base64")
+
+  const steps: [string, string[], number][] = [
+    ["git", ["init", "-q"], 60000],
+    [
+      "git",
+      [
+        "-c",
+        `http.extraheader=AUTHORIZATION: basic ${auth}`,
+        "fetch",
+        "-q",
+        "--depth",
+        "1",
+        `https://github.com/${owner}/${repo}.git`,
+        sha
+      ],
+      5 * 60 * 1000
+    ],
+    ["git", ["checkout", "-q", "FETCH_HEAD"], 60000]
+  ]
+
+  try {
+    for (const [command, args, timeoutMs] of steps) {
+      const result = await runCommand(command, args, { cwd: dir, timeoutMs })
+      if (result.exitCode !== 0) {
+        throw new Error(
+          `${command} ${args[args.length - 1]} failed: ${result.output.replace(auth, "***")}`
+        )
+      }
+    }
+
+    if (existsSync(path.join(dir, "package.json"))) {
+      const [command, args] = getInstallCommand(dir)
+      const result = await runCommand(command, args, {
+        cwd: dir,
+        timeoutMs: INSTALL_TIMEOUT_MS
+      })
+      if (result.exitCode !== 0) {
+        throw new Error(`Dependency install failed: ${result.output}`)
+      }
+    }
+
+    return dir
+  } catch (err) {
+    await removeWorkspace(dir)
+    throw err
+  }
+}
+
+/**
+ * Deletes a workspace directory.
+ *
+ * @param dir - The workspace directory
+ */
+export async function removeWorkspace(dir: string) {
+  await rm(dir, { recursive: true, force: true })
+}
+
+/**
+ * Writes files into the workspace, creating directories as needed.
+ *
+ * @param dir - The workspace directory
+ * @param files - The files to write
+ */
+export async function writeWorkspaceFiles(dir: string, files: WorkspaceFile[]) {
+  for (const file of files) {
+    if (file.deleteFilename && file.deleteFilename !== file.filename) {
+      await unlink(resolveInWorkspace(dir, file.deleteFilename)).catch(() => {})
+    }
+    const target = resolveInWorkspace(dir, file.filename)
+    await mkdir(path.dirname(target), { recursive: true })
+    await writeFile(target, file.content, "utf8")
+  }
+}
+
+/**
+ * Deletes files from the workspace, ignoring ones that don't exist.
+ *
+ * @param dir - The workspace directory
+ * @param filenames - Paths relative to the repo root
+ */
+export async function deleteWorkspaceFiles(dir: string, filenames: string[]) {
+  for (const filename of filenames) {
+    await unlink(resolveInWorkspace(dir, filename)).catch(() => {})
+  }
+}
+
+/**
+ * Builds the command that runs a single test file with the given runner.
+ * Binaries come from the workspace's node_modules; npx never downloads anything.
+ *
+ * @param filename - The test file, relative to the repo root
+ * @param runner - The test runner
+ * @returns The command and arguments
+ */
+export function getTestCommand(
+  filename: string,
+  runner: TestRunner
+): [string, string[]] {
+  switch (runner) {
+    case "jest":
+      return [
+        "npx",
+        [
+          "--no-install",
+          "jest",
+          "--ci",
+          "--coverage=false",
+          "--runTestsByPath",
+          filename
+        ]
+      ]
+    case "vitest":
+      return ["npx", ["--no-install", "vitest", "run", filename]]
+    case "mocha":
+      return ["npx", ["--no-install", "mocha", filename]]
+    case "node-test":
+      return ["node", ["--test", filename]]
+    case "playwright":
+      return ["npx", ["--no-install", "playwright", "test", filename]]
+    case "cypress":
+      return ["npx", ["--no-install", "cypress", "run", "--spec", filename]]
+  }
+}
+
+/**
+ * Extracts the compiler errors reported for each of the given files from tsc output,
+ * e.g. "__tests__/unit/a.test.ts(3,7): error TS2304: Cannot find name 'x'."
+ *
+ * @param output - The output of tsc --noEmit
+ * @param filenames - The files to collect errors for
+ * @returns The error lines of each file that has errors
+ */
+export function parseTypeErrors(
+  output: string,
+  filenames: string[]
+): Map<string, string[]> {
+  const errors = new Map<string, string[]>()
+  for (const line of output.split("\n")) {
+    const match = /^(.+?)\(\d+,\d+\): error TS\d+/.exec(line.trim())
+    if (!match) continue
+    const filename = filenames.find(
+      f => path.normalize(match[1]) === path.normalize(f)
+    )
+    if (filename)
+      errors.set(filename, [...(errors.get(filename) ?? []), line.trim()])
+  }
+  return errors
+}
+
+/**
+ * Verifies test files in a workspace: type-checks the project once (if it has a
+ * tsconfig.json) and then runs each file that compiled with its test runner.
+ * The whole tsc output is parsed: in a repo that already has type errors, the
+ * errors of the generated files can be anywhere in it.
+ *
+ * @param dir - The workspace directory, with the test files already written
+ * @param files - The test files and the runner for each
+ * @param timeoutMs - Timeout for each command
+ * @returns The outcome for each file, in input order
+ */
+export async function verifyTestFiles(
+  dir: string,
+  files: { filename: string; runner: TestRunner }[],
+  timeoutMs: number
+): Promise<TestVerification[]> {
+  let typeErrors = new Map<string, string[]>()
+  const typeScriptFiles = files.filter(f => /\.tsx?$/.test(f.filename))
+
+  if (
+    typeScriptFiles.length > 0 &&
+    existsSync(path.join(dir, "tsconfig.json"))
+  ) {
+    const result = await runCommand(
+      "npx",
+      [
+        "--no-install",
+        "tsc",
+        "--noEmit",
+        "--pretty",
+        "false",
+        "-p",
+        "tsconfig.json"
+      ],
+      { cwd: dir, timeoutMs, fullOutput: true }
+    )
+    typeErrors = parseTypeErrors(
+      result.output,
+      typeScriptFiles.map(f => f.filename)
+    )
+  }
+
+  const results: TestVerification[] = []
+  for (const file of files) {
+    const errors = typeErrors.get(file.filename)
+    if (errors) {
+      results.push({
+        filename: file.filename,
+        passed: false,
+        reason: "type errors",
+        output: errors.join("\n")
+      })
+      continue
+    }
+
+    const [command, args] = getTestCommand(file.filename, file.runner)
+    const result = await runCommand(command, args, { cwd: dir, timeoutMs })
+    results.push(
+      result.exitCode === 0
+        ? { filename: file.filename, passed: true }
+        : {
+            filename: file.filename,
+            passed: false,
+            reason: result.timedOut ? "timed out" : "tests failed",
+            output: result.output
+          }
+    )
+  }
+
+  return results
+}
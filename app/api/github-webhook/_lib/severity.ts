@@ -0,0 +1,130 @@
+/*
+<ai_context>
+This file contains the severity and category model for review findings,
+and the logic that turns a set of findings into a review verdict
+(APPROVE, COMMENT or REQUEST_CHANGES).
+</ai_context>
+*/
+
+// How serious a finding is, from most to least severe
+export type Severity = "blocker" | "major" | "minor" | "nit"
+
+// What kind of problem a finding describes
+export type FindingCategory =
+  | "bug"
+  | "security"
+  | "performance"
+  | "style"
+  | "test-gap"
+
+// The event submitted with a pull request review
+export type ReviewEvent = "APPROVE" | "COMMENT" | "REQUEST_CHANGES"
+
+// The lowest severity that blocks a merge, or "none" to never request changes
+export type BlockingSeverity = Severity | "none"
+
+// Ordered from most to least severe; the index is used for comparisons
+export const SEVERITIES: Severity[] = ["blocker", "major", "minor", "nit"]
+
+export const FINDING_CATEGORIES: FindingCategory[] = [
+  "bug",
+  "security",
+  "performance",
+  "style",
+  "test-gap"
+]
+
+// Shown next to findings in comments so the severity is visible at a glance
+const SEVERITY_ICONS: Record<Severity, string> = {
+  blocker: "🔴",
+  major: "🟠",
+  minor: "🟡",
+  nit: "⚪"
+}
+
+/**
+ * Normalizes a severity from the AI output.
+ *
+ * @param value - Raw value, e.g. "Major" or " nit "
+ * @returns The severity, defaulting to "minor" for unknown values
+ */
+export function parseSeverity(value: unknown): Severity {
+  const normalized = String(value ?? "")
+    .trim()
+    .toLowerCase()
+  return SEVERITIES.find(s => s === normalized) ?? "minor"
+}
+
+/**
+ * Normalizes a category from the AI output.
+ *
+ * @param value - Raw value, e.g. "Security" or "test gap"
+ * @returns The category, defaulting to "bug" for unknown values
+ */
+export function parseCategory(value: unknown): FindingCategory {
+  const normalized = String(value ?? "")
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_]+/g, "-")
+  return FINDING_CATEGORIES.find(c => c === normalized) ?? "bug"
+}
+
+/**
+ * Checks whether a severity is at least as serious as another.
+ *
+ * @param severity - The severity to check
+ * @param threshold - The severity to compare against
+ * @returns true if severity is the same as or worse than threshold
+ */
+export function isAtLeast(severity: Severity, threshold: Severity): boolean {
+  return SEVERITIES.indexOf(severity) <= SEVERITIES.indexOf(threshold)
+}
+
+/**
+ * Finds the most serious severity among the findings.
+ *
+ * @param findings - Anything with a severity
+ * @returns The worst severity, or undefined if there are no findings
+ */
+export function getWorstSeverity(
+  findings: { severity: Severity }[]
+): Severity | undefined {
+  return SEVERITIES.find(s => findings.some(f => f.severity === s))
+}
+
+/**
+ * Maps the worst finding to a review event:
+ * - any finding at or above the blocking severity -> REQUEST_CHANGES
+ * - other findings -> COMMENT
+ * - no findings -> APPROVE, or COMMENT if the review can't vouch for the whole PR
+ *
+ * @param findings - The review findings
+ * @param blockingSeverity - The lowest severity that blocks a merge
+ * @param canApprove - false if the review failed or didn't see every change
+ * @returns The review event to submit
+ */
+export function determineReviewEvent(
+  findings: { severity: Severity }[],
+  blockingSeverity: BlockingSeverity,
+  canApprove = true
+): ReviewEvent {
+  const worst = getWorstSeverity(findings)
+  if (!worst) return canApprove ? "APPROVE" : "COMMENT"
+  if (blockingSeverity !== "none" && isAtLeast(worst, blockingSeverity)) {
+    return "REQUEST_CHANGES"
+  }
+  return "COMMENT"
+}
+
+/**
+ * Formats a severity and category as a short label, e.g. "🔴 blocker · security".
+ *
+ * @param finding - The finding to label
+ * @returns The label text
+ */
+export function formatFindingLabel(finding: {
+  severity: Severity
+  category: FindingCategory
+}): string {
+  return `${SEVERITY_ICONS[finding.severity]} ${finding.severity} · ${finding.category}`
+}
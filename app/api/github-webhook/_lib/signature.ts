@@ -0,0 +1,78 @@
+/*
+<ai_context>
+This file contains the logic for verifying that a webhook delivery really came from GitHub.
+GitHub signs every delivery with an HMAC-SHA256 of the raw body using the webhook secret,
+and sends it in the X-Hub-Signature-256 header.
+</ai_context>
+*/
+
+import { createHmac, timingSafeEqual } from "crypto"
+
+// Prefix GitHub puts in front of the hex digest in the X-Hub-Signature-256 header
+const SIGNATURE_PREFIX = "sha256="
+
+/**
+ * Returns the webhook secrets we currently accept.
+ * GH_WEBHOOK_SECRET is the active secret. GH_WEBHOOK_SECRET_PREVIOUS can be set
+ * while rotating, so deliveries signed with the old secret are still accepted
+ * until the new one has been saved on the GitHub App.
+ *
+ * @returns An array of non-empty secrets, active secret first
+ */
+export function getWebhookSecrets(): string[] {
+  const { GH_WEBHOOK_SECRET, GH_WEBHOOK_SECRET_PREVIOUS } = process.env
+  return [GH_WEBHOOK_SECRET, GH_WEBHOOK_SECRET_PREVIOUS].filter(
+    (secret): secret is string => !!secret
+  )
+}
+
+/**
+ * Computes the X-Hub-Signature-256 value GitHub would send for a body.
+ *
+ * @param rawBody - The exact request body as received
+ * @param secret - The webhook secret
+ * @returns The signature in the form "sha256=<hex digest>"
+ */
+export function signWebhookBody(rawBody: string, secret: string): string {
+  const digest = createHmac("sha256", secret).update(rawBody, "utf8").digest()
+  return SIGNATURE_PREFIX + digest.toString("hex")
+}
+
+/**
+ * Verifies the X-Hub-Signature-256 header against the raw body.
+ * The comparison is done in constant time, and the body is accepted if it
+ * matches any of the given secrets.
+ *
+ * @param rawBody - The exact request body as received (must not be re-serialized)
+ * @param signatureHeader - The value of the X-Hub-Signature-256 header, if any
+ * @param secrets - The secrets to check against (defaults to the configured ones)
+ * @returns true if the signature is valid, false otherwise
+ */
+export function verifyWebhookSignature(
+  rawBody: string,
+  signatureHeader: string | null | undefined,
+  secrets: string[] = getWebhookSecrets()
+): boolean {
+  // A missing or malformed header can never be valid
+  if (!signatureHeader || !signatureHeader.startsWith(SIGNATURE_PREFIX)) {
+    return false
+  }
+
+  // Without a configured secret we refuse everything rather than trusting the caller
+  if (secrets.length === 0) {
+    console.error(
+      "Missing GH_WEBHOOK_SECRET, rejecting webhook delivery. Set it to the secret configured on the GitHub App."
+    )
+    return false
+  }
+
+  const received = Buffer.from(signatureHeader, "utf8")
+
+  return secrets.some(secret => {
+    const expected = Buffer.from(signWebhookBody(rawBody, secret), "utf8")
+    // timingSafeEqual throws on length mismatch, so check that first
+    return (
+      expected.length === received.length && timingSafeEqual(expected, received)
+    )
+  })
+}
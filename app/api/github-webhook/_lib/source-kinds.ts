@@ -0,0 +1,149 @@
+/*
+<ai_context>
+This file contains the classification of changed files for the test agent.
+Each file is sorted into front-end code (Next.js pages and React components or hooks)
+or back-end code (route handlers, server actions, middleware and plain modules),
+so the prompts can tell the model how each file should be tested and which
+files are in scope for the repository's tests.scope setting.
+</ai_context>
+*/
+
+import { AgentConfig } from "./config"
+import { isTestFilename } from "./test-frameworks"
+
+export type TestScope = AgentConfig["tests"]["scope"]
+
+export type SourceKind =
+  | "page" // Next.js pages, layouts and other app router UI files
+  | "component" // React components and hooks
+  | "route-handler" // app/**/route.ts and pages/api/**
+  | "server-action" // Modules starting with "use server"
+  | "middleware"
+  | "module" // Any other JavaScript or TypeScript code
+  | "test"
+  | "other" // Config, docs, styles, assets
+
+// How each kind of file is described in the prompts
+const KIND_DESCRIPTIONS: Record<SourceKind, string> = {
+  page: "Next.js page (front-end)",
+  component: "React component or hook (front-end)",
+  "route-handler": "Next.js route handler (back-end)",
+  "server-action": "server action (back-end)",
+  middleware: "Next.js middleware (back-end)",
+  module: "TypeScript/JavaScript module (back-end or shared)",
+  test: "test file",
+  other: "not code"
+}
+
+// The app router's UI files
+const APP_ROUTER_UI_FILE =
+  /(^|\/)app\/(.*\/)?(page|layout|template|loading|error|not-found)\.[jt]sx?$/
+
+/**
+ * Classifies a file by what kind of code it holds.
+ *
+ * @param filename - Path relative to the repo root
+ * @param content - The file's content, if known (used to spot directives and React imports)
+ * @returns The kind of file
+ */
+export function classifySourceFile(
+  filename: string,
+  content?: string
+): SourceKind {
+  if (isTestFilename(filename)) return "test"
+  if (
+    !/\.[cm]?[jt]sx?$/.test(filename) ||
+    /\.config\.[cm]?[jt]s$/.test(filename)
+  ) {
+    return "other"
+  }
+
+  if (
+    /(^|\/)app\/(.*\/)?route\.[cm]?[jt]s$/.test(filename) ||
+    /(^|\/)pages\/api\//.test(filename)
+  ) {
+    return "route-handler"
+  }
+  if (/^(src\/)?middleware\.[jt]s$/.test(filename)) return "middleware"
+  // The directive has to come first in the file
+  if (content && /^\s*["']use server["']/.test(content)) return "server-action"
+
+  if (
+    APP_ROUTER_UI_FILE.test(filename) ||
+    /(^|\/)pages\/.+\.[jt]sx$/.test(filename)
+  ) {
+    return "page"
+  }
+  if (
+    /\.[jt]sx$/.test(filename) ||
+    (content !== undefined && /from ["']react["']/.test(content))
+  ) {
+    return "component"
+  }
+  return "module"
+}
+
+/**
+ * Checks whether a kind of file is front-end code, tested by rendering it.
+ *
+ * @param kind - The kind of file
+ * @returns true for pages and React components
+ */
+export function isFrontEndKind(kind: SourceKind): boolean {
+  return kind === "page" || kind === "component"
+}
+
+/**
+ * Checks whether a kind of file is in scope for test generation.
+ *
+ * @param kind - The kind of file
+ * @param scope - The repository's tests.scope setting
+ * @returns true if tests may be generated for it
+ */
+export function isInTestScope(kind: SourceKind, scope: TestScope): boolean {
+  if (kind === "test" || kind === "other") return false
+  if (scope === "all") return true
+  return scope === "frontend" ? isFrontEndKind(kind) : !isFrontEndKind(kind)
+}
+
+/**
+ * Lists the changed code files with their kind, and whether they are in scope, for the prompts.
+ *
+ * @param files - The changed files
+ * @param scope - The repository's tests.scope setting
+ * @returns One line per changed code file
+ */
+export function describeChangedFileKinds(
+  files: { filename: string; content?: string; status: string }[],
+  scope: TestScope
+): string {
+  return files
+    .filter(f => f.status !== "removed")
+    .map(f => ({
+      filename: f.filename,
+      kind: classifySourceFile(f.filename, f.content)
+    }))
+    .filter(({ kind }) => kind !== "other")
+    .map(
+      ({ filename, kind }) =>
+        `- ${filename}: ${KIND_DESCRIPTIONS[kind]}${kind !== "test" && !isInTestScope(kind, scope) ? " (out of scope, don't test)" : ""}`
+    )
+    .join("\n")
+}
+
+/**
+ * Describes which code the agent writes tests for.
+ *
+ * @param scope - The repository's tests.scope setting
+ * @returns The scope section of a prompt
+ */
+export function describeTestScope(scope: TestScope): string {
+  switch (scope) {
+    case "frontend":
+      return "You only generate tests for front-end code: React components, hooks and Next.js pages. You do not generate tests for back-end code such as route handlers, server actions or library modules."
+    case "backend":
+      return "You only generate tests for back-end code: Next.js route handlers, server actions, middleware and plain TypeScript/JavaScript modules. You do not generate tests for React components or pages."
+    case "all":
+      return "You generate tests for both front-end code (React components, hooks and Next.js pages) and back-end code (Next.js route handlers, server actions, middleware and plain TypeScript/JavaScript modules)."
+  }
+}
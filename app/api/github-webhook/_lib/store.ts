@@ -0,0 +1,110 @@
+/*
+<ai_context>
+This file contains small helpers for persisting agent state as JSON files on local disk.
+It is used by the job queue so that webhook deliveries survive restarts on a single box
+without needing an external database or queue service.
+</ai_context>
+*/
+
+import { promises as fs } from "fs"
+import path from "path"
+
+// How long we wait for another process to release a lock before giving up
+const LOCK_TIMEOUT_MS = 10000
+
+// Locks older than this are assumed to belong to a crashed process
+const STALE_LOCK_MS = 30000
+
+/**
+ * Returns the directory where agent state is stored.
+ * Defaults to ".agent-data" in the working directory, override with AGENT_DATA_DIR.
+ *
+ * @returns Absolute path to the data directory
+ */
+export function getDataDir(): string {
+  return path.resolve(process.env.AGENT_DATA_DIR || ".agent-data")
+}
+
+/**
+ * Reads and parses a JSON file.
+ *
+ * @param filePath - Path to the JSON file
+ * @param fallback - Value to return if the file doesn't exist yet
+ * @returns The parsed file content, or the fallback
+ */
+export async function readJsonFile<T>(
+  filePath: string,
+  fallback: T
+): Promise<T> {
+  try {
+    const raw = await fs.readFile(filePath, "utf8")
+    return JSON.parse(raw) as T
+  } catch (err: any) {
+    // A missing file just means nothing has been stored yet
+    if (err.code === "ENOENT") {
+      return fallback
+    }
+    throw err
+  }
+}
+
+/**
+ * Writes a value as JSON atomically (write to a temp file, then rename),
+ * so readers never see a half-written file.
+ *
+ * @param filePath - Path to the JSON file
+ * @param value - The value to store
+ */
+export async function writeJsonFile(filePath: string, value: unknown) {
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+  const tmpPath = `${filePath}.${process.pid}.${Date.now()}.tmp`
+  await fs.writeFile(tmpPath, JSON.stringify(value, null, 2), "utf8")
+  await fs.rename(tmpPath, filePath)
+}
+
+/**
+ * Runs a function while holding an exclusive lock on a file.
+ * The lock is a sibling "<file>.lock" created with O_EXCL, which works across
+ * processes (e.g. the Next.js server and the worker) on the same machine.
+ *
+ * @param filePath - The file to lock
+ * @param fn - The function to run while the lock is held
+ * @returns Whatever fn returns
+ */
+export async function withFileLock<T>(
+  filePath: string,
+  fn: () => Promise<T>
+): Promise<T> {
+  const lockPath = `${filePath}.lock`
+  const startedAt = Date.now()
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+
+  // Keep trying to create the lock file until we own it
+  while (true) {
+    try {
+      const handle = await fs.open(lockPath, "wx")
+      await handle.close()
+      break
+    } catch (err: any) {
+      if (err.code !== "EEXIST") throw err
+
+      // Break locks left behind by a process that died while holding them
+      const stat = await fs.stat(lockPath).catch(() => undefined)
+      if (stat && Date.now() - stat.mtimeMs > STALE_LOCK_MS) {
+        await fs.rm(lockPath, { force: true })
+        continue
+      }
+
+      if (Date.now() - startedAt > LOCK_TIMEOUT_MS) {
+        throw new Error(`Timed out waiting for lock on ${filePath}`)
+      }
+      await new Promise(resolve => setTimeout(resolve, 25))
+    }
+  }
+
+  try {
+    return await fn()
+  } finally {
+    await fs.rm(lockPath, { force: true })
+  }
+}
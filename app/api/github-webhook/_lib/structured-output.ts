@@ -0,0 +1,160 @@
+/*
+<ai_context>
+This file contains the structured-output helper shared by the agents.
+It asks the model for an object matching a zod schema (generateObject), repairs answers
+that are almost valid JSON, and re-asks with the validation errors when they don't match.
+The output mode follows the model's declared capabilities: a JSON mode if it has one,
+tool calls otherwise. Models with neither fall back to the XML prompts of each agent.
+</ai_context>
+*/
+
+import { generateObject, LanguageModel, NoObjectGeneratedError } from "ai"
+import { z } from "zod"
+import { getModelCapabilities } from "./llm"
+
+// How often the model is asked before giving up, including the first time
+const DEFAULT_MAX_ATTEMPTS = 3
+
+// How much of an invalid answer is quoted back to the model when re-asking
+const MAX_QUOTED_ANSWER_LENGTH = 4000
+
+/**
+ * Thrown when the model didn't produce a valid object in any attempt.
+ */
+export class StructuredOutputError extends Error {
+  constructor(
+    public readonly schemaName: string,
+    public readonly attempts: number,
+    public readonly problem: string
+  ) {
+    super(`No valid ${schemaName} after ${attempts} attempt(s): ${problem}`)
+    this.name = "StructuredOutputError"
+  }
+}
+
+/**
+ * Checks whether a model can produce structured output through tool calls or a JSON mode.
+ * Models that didn't come from the provider registry are asked what they support.
+ *
+ * @param model - The model
+ * @returns false for models that only produce free text
+ */
+export function supportsStructuredOutput(model: LanguageModel): boolean {
+  const capabilities = getModelCapabilities(model)
+  if (!capabilities) return model.defaultObjectGenerationMode !== undefined
+  return capabilities.structuredOutput || capabilities.toolCalling
+}
+
+/**
+ * Picks how generateObject gets the object out of a model: its JSON mode if it has one,
+ * else a tool call.
+ *
+ * @param model - The model
+ * @returns The generateObject mode
+ */
+function getObjectGenerationMode(
+  model: LanguageModel
+): "auto" | "json" | "tool" {
+  const capabilities = getModelCapabilities(model)
+  if (!capabilities) return "auto"
+  return capabilities.structuredOutput ? "json" : "tool"
+}
+
+/**
+ * Tries to recover an object from an answer that wasn't valid JSON as-is,
+ * e.g. JSON wrapped in a code fence or surrounded by prose.
+ *
+ * @param text - The model's answer
+ * @param schema - The schema the object must match
+ * @returns The object, or undefined if it can't be recovered
+ */
+export function repairObjectText<T>(
+  text: string | undefined,
+  schema: z.ZodType<T>
+): T | undefined {
+  if (!text) return undefined
+  const start = text.indexOf("{")
+  const end = text.lastIndexOf("}")
+  if (start === -1 || end <= start) return undefined
+
+  try {
+    const result = schema.safeParse(JSON.parse(text.slice(start, end + 1)))
+    return result.success ? result.data : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Describes why an answer was rejected, for the logs and for re-asking the model.
+ *
+ * @param err - The error from generateObject
+ * @returns A short description of the problem
+ */
+function describeProblem(err: NoObjectGeneratedError): string {
+  const cause = err.cause
+  if (cause instanceof Error && cause.message) return cause.message
+  return err.message
+}
+
+/**
+ * Asks the model for an object matching a schema. An invalid answer is repaired if
+ * possible, and otherwise the model is asked again with the validation errors.
+ * Errors from the API itself (rate limits, outages) are thrown as they are.
+ *
+ * @param options.model - The model to use
+ * @param options.schema - The zod schema the object must match
+ * @param options.schemaName - Name of the object, shown to the model
+ * @param options.schemaDescription - What the object is, shown to the model
+ * @param options.prompt - The prompt
+ * @param options.maxAttempts - How often to ask the model, including the first time
+ * @returns The validated object
+ * @throws StructuredOutputError if no attempt produced a valid object
+ */
+export async function generateValidatedObject<T>(options: {
+  model: LanguageModel
+  schema: z.ZodType<T>
+  schemaName: string
+  schemaDescription: string
+  prompt: string
+  maxAttempts?: number
+}): Promise<T> {
+  const { model, schema, schemaName, schemaDescription } = options
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS
+  let prompt = options.prompt
+  let problem = ""
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    try {
+      const { object } = await generateObject({
+        model,
+        schema,
+        schemaName,
+        schemaDescription,
+        mode: getObjectGenerationMode(model),
+        prompt,
+        maxRetries: 0 // Retried by the model's call policy
+      })
+      return object
+    } catch (err) {
+      if (!NoObjectGeneratedError.isInstance(err)) throw err
+
+      const repaired = repairObjectText(err.text, schema)
+      if (repaired !== undefined) return repaired
+
+      problem = describeProblem(err)
+      console.warn(
+        `Invalid ${schemaName} from the model (attempt ${attempt} of ${maxAttempts}): ${problem}`
+      )
+      prompt = `${options.prompt}
+
+Your previous answer could not be used: ${problem}
+Previous answer:
+${(err.text ?? "").slice(0, MAX_QUOTED_ANSWER_LENGTH)}
+
+Answer again with a ${schemaName} object that matches the schema exactly.`
+    }
+  }
+
+  throw new StructuredOutputError(schemaName, maxAttempts, problem)
+}
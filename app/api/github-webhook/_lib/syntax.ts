@@ -0,0 +1,71 @@
+/*
+<ai_context>
+This file contains helpers for parsing JavaScript and TypeScript with the TypeScript compiler API.
+The test agent uses them to tell whether a generated test contains JSX, and to check that
+a test file's content parses under the extension it is given (".ts" vs ".tsx").
+</ai_context>
+*/
+
+import ts from "typescript"
+
+/**
+ * Picks the script kind for a file, so JSX is only parsed in .tsx and .jsx files.
+ *
+ * @param filename - The file's name
+ * @returns The TypeScript script kind
+ */
+export function getScriptKind(filename: string): ts.ScriptKind {
+  if (/\.tsx$/.test(filename)) return ts.ScriptKind.TSX
+  if (/\.jsx$/.test(filename)) return ts.ScriptKind.JSX
+  if (/\.[cm]?js$/.test(filename)) return ts.ScriptKind.JS
+  return ts.ScriptKind.TS
+}
+
+/**
+ * Lists the syntax errors of a file's content, parsed the way its extension says.
+ * Only syntax is checked; imports aren't resolved and types aren't checked.
+ *
+ * @param filename - The file's name, which decides whether JSX is allowed
+ * @param content - The file's content
+ * @returns The error messages, empty if the content parses
+ */
+export function getSyntaxErrors(filename: string, content: string): string[] {
+  const { diagnostics = [] } = ts.transpileModule(content, {
+    fileName: filename,
+    reportDiagnostics: true,
+    compilerOptions: {
+      allowJs: true,
+      jsx: ts.JsxEmit.Preserve,
+      module: ts.ModuleKind.ESNext,
+      target: ts.ScriptTarget.ESNext
+    }
+  })
+  return diagnostics.map(d =>
+    ts.flattenDiagnosticMessageText(d.messageText, "\n")
+  )
+}
+
+/**
+ * Checks whether code contains JSX. Code that parses without JSX support doesn't,
+ * whatever it looks like: "<Props>value" is a type assertion there, not an element.
+ *
+ * @param content - The code
+ * @returns true if the code only parses with JSX support and has JSX elements
+ */
+export function containsJsx(content: string): boolean {
+  if (getSyntaxErrors("file.ts", content).length === 0) return false
+
+  const sourceFile = ts.createSourceFile(
+    "file.tsx",
+    content,
+    ts.ScriptTarget.Latest,
+    true,
+    ts.ScriptKind.TSX
+  )
+  const hasJsx = (node: ts.Node): boolean =>
+    ts.isJsxElement(node) ||
+    ts.isJsxSelfClosingElement(node) ||
+    ts.isJsxFragment(node) ||
+    ts.forEachChild(node, hasJsx) === true
+  return hasJsx(sourceFile)
+}
@@ -5,13 +5,81 @@ It analyzes changed files and generates appropriate unit or e2e tests.
 </ai_context>
 */
 
-import { generateObject, generateText } from "ai"
+import path from "path"
+import { generateText, LanguageModel } from "ai"
 import { parseStringPromise } from "xml2js"
 import { z } from "zod"
+import {
+  completeCheckRun,
+  startCheckRun,
+  TEST_GENERATION_CHECK_NAME
+} from "./checks"
 import { createPlaceholderComment, updateComment } from "./comments"
-import { octokit } from "./github"
+import { formatConfigErrors } from "./config"
+import {
+  ChangedLineCoverage,
+  describeUncoveredLines,
+  formatCoverageChange,
+  getChangedLines,
+  measureChangedLineCoverage
+} from "./coverage"
+import {
+  getPromptBudget,
+  logPromptComposition,
+  packChangedFiles,
+  packExistingTests
+} from "./context-builder"
+import { formatExcludedFiles } from "./file-filter"
+import { BranchMovedError, FileChange } from "./git-data"
+import { getInstallationToken, octokit } from "./github"
 import { PullRequestContextWithTests, removeLabel } from "./handlers"
-import { getLLMModel } from "./llm"
+import {
+  getRun,
+  RunCancelledError,
+  RunGuard,
+  setRunCheckRunId,
+  setRunCommentId,
+  setRunDelivered
+} from "./ledger"
+import { classifyLLMError, describeLLMError } from "./llm-call"
+import { runWithModelFallback } from "./model-router"
+import {
+  describeSurvivors,
+  formatMutationScores,
+  MutationScore,
+  runMutationTests
+} from "./mutation"
+import {
+  createWorkspace,
+  deleteWorkspaceFiles,
+  isPathInsideRepo,
+  removeWorkspace,
+  TestVerification,
+  verifyTestFiles,
+  WorkspaceFile,
+  writeWorkspaceFiles
+} from "./sandbox"
+import {
+  classifySourceFile,
+  describeChangedFileKinds,
+  describeTestScope,
+  isFrontEndKind,
+  isInTestScope
+} from "./source-kinds"
+import {
+  generateValidatedObject,
+  StructuredOutputError,
+  supportsStructuredOutput
+} from "./structured-output"
+import { containsJsx, getSyntaxErrors } from "./syntax"
+import { deliverTests, TestDelivery } from "./test-delivery"
+import {
+  describeBackEndTesting,
+  describeTestSetup,
+  getExampleTestFilename,
+  getTestFileEnding,
+  TestSetup
+} from "./test-frameworks"
 
 // Interface defining the structure of a test proposal from the AI
 interface TestProposal {
@@ -25,8 +93,25 @@ interface TestProposal {
   }
 }
 
-// Label that triggers the test generation process when added to a PR
-export const TEST_GENERATION_LABEL = "agent-generate-tests"
+// A generated test that wasn't committed because it failed verification
+interface DroppedTest {
+  filename: string
+  reason: string
+  output?: string // Compiler or test runner output
+}
+
+// The sandbox checkout shared by the coverage measurements and the verification,
+// or why it couldn't be set up
+interface TestWorkspace {
+  dir?: string
+  error?: string
+}
+
+// Coverage of the changed lines with the existing tests, and with the generated tests added
+interface CoverageChange {
+  before: ChangedLineCoverage
+  after?: ChangedLineCoverage
+}
 
 // Zod schema for validating the AI's decision about whether to generate tests
 const gatingSchema = z.object({
@@ -37,22 +122,57 @@ const gatingSchema = z.object({
   })
 })
 
+// Zod schema for the test proposals the AI returns as structured output
+const testProposalsSchema = z.object({
+  testProposals: z.array(
+    z.object({
+      filename: z
+        .string()
+        .describe("Path of the test file, relative to the repository root"),
+      testType: z.enum(["unit", "e2e"]),
+      testContent: z.string().describe("The complete content of the test file"),
+      action: z.enum(["create", "update", "rename"]),
+      oldFilename: z
+        .string()
+        .nullable()
+        .describe("For renames, the test file being replaced; otherwise null")
+    })
+  )
+})
+
+// How much of a dropped test's error output is shown in the PR comment
+const MAX_DROPPED_OUTPUT_LENGTH = 3000
+
+// Share of the prompt's file budget for changed files; existing tests get the rest
+const CHANGED_FILES_BUDGET_SHARE = 0.7
+
+// Matches the ending of a test file's name, e.g. ".test.tsx" or ".cy.js"
+const TEST_ENDING = /\.(test|spec|cy)\.[cm]?[jt]sx?$/
+
 /**
  * Parses the XML response from the AI model into structured test proposals
  *
  * @param xmlText - The XML string from the AI model
  * @returns Array of parsed test proposals
+ * @throws StructuredOutputError if the response ends before </tests>, e.g. it was cut off
  */
-async function parseTestXml(xmlText: string): Promise<TestProposal[]> {
+export async function parseTestXml(xmlText: string): Promise<TestProposal[]> {
   // Extract the tests XML portion from the response by locating <tests> ... </tests>
   const startTag = "<tests>"
   const endTag = "</tests>"
   const startIndex = xmlText.indexOf(startTag)
-  const endIndex = xmlText.indexOf(endTag) + endTag.length
-  if (startIndex === -1 || endIndex === -1) return []
+  const endTagIndex = xmlText.indexOf(endTag)
+  if (startIndex === -1) return []
+  if (endTagIndex === -1) {
+    throw new StructuredOutputError(
+      "tests",
+      1,
+      "the response ends before </tests>, it was likely cut off"
+    )
+  }
 
   // Parse the isolated XML using xml2js
-  const xmlPortion = xmlText.slice(startIndex, endIndex)
+  const xmlPortion = xmlText.slice(startIndex, endTagIndex + endTag.length)
   const parsed = await parseStringPromise(xmlPortion)
   const proposals: TestProposal[] = []
 
@@ -111,54 +231,209 @@ async function parseTestXml(xmlText: string): Promise<TestProposal[]> {
 }
 
 /**
- * Finalizes test proposals by ensuring correct file extensions based on whether the changed files
- * are React code or not.
+ * Describes the XML format test proposals must be returned in.
+ *
+ * @param setup - The repository's test setup, used in the example filenames
+ * @returns The format instructions for the prompt
+ */
+function buildTestXmlInstructions(setup: TestSetup) {
+  const example = getExampleTestFilename(setup)
+  return `Return ONLY valid XML in the following structure:
+<tests>
+  <testProposals>
+    <proposal>
+      <filename>${example}</filename>
+      <testType>unit or e2e</testType>
+      <testContent><![CDATA[
+YOUR TEST CODE HERE
+]]></testContent>
+      <actions>
+        <action>create</action> OR <action>update</action> OR <action>rename</action>
+        <!-- if rename -->
+        <oldFilename>${example}</oldFilename>
+      </actions>
+    </proposal>
+  </testProposals>
+</tests>
+
+ONLY return the <tests> XML with proposals. Do not add extra commentary.
+`
+}
+
+/**
+ * Describes the format test proposals must be returned in, for the model's output mode.
+ *
+ * @param setup - The repository's test setup, used in the example filenames
+ * @param structured - Whether the model answers with structured output instead of XML
+ * @returns The format instructions for the prompt
+ */
+function buildTestOutputInstructions(setup: TestSetup, structured: boolean) {
+  if (!structured) return buildTestXmlInstructions(setup)
+  return `Return the test proposals as an object with one entry per test file you create, update or rename,
+each with its complete content and a filename like "${getExampleTestFilename(setup)}".
+For a rename, set action to "rename" and oldFilename to the file being replaced; otherwise oldFilename is null.`
+}
+
+/**
+ * Sends a test generation prompt to the model and parses the proposals: as structured
+ * output validated against the schema, or as XML for models that only produce text.
+ *
+ * @param model - The model to use
+ * @param prompt - The full prompt, built for the model's output format
+ * @returns The proposals, without empty files
+ * @throws StructuredOutputError if the model didn't produce valid proposals after re-asking
+ */
+async function runTestPrompt(
+  model: LanguageModel,
+  prompt: string
+): Promise<TestProposal[]> {
+  if (!supportsStructuredOutput(model)) {
+    const { text } = await generateText({
+      model,
+      prompt,
+      maxRetries: 0 // Retried by the model's call policy
+    })
+    console.log("text", text)
+    return parseTestXml(text)
+  }
+
+  const { testProposals } = await generateValidatedObject({
+    model,
+    schema: testProposalsSchema,
+    schemaName: "tests",
+    schemaDescription: "Test files to create, update or rename",
+    prompt
+  })
+  return testProposals
+    .filter(p => p.filename && p.testContent)
+    .map(p => ({
+      filename: p.filename,
+      testType: p.testType,
+      testContent: p.testContent,
+      actions: {
+        action: p.action,
+        oldFilename: p.oldFilename ?? undefined
+      }
+    }))
+}
+
+/**
+ * Finds the changed source file a test proposal targets: the file at the same path
+ * (co-located, or mirrored under the test directory), or else one with the same name.
+ *
+ * @param proposal - The test proposal
+ * @param context - Pull request context (for the changed files and test setup)
+ * @returns The changed file, or undefined if the test doesn't match one
+ */
+function findTestedSource(
+  proposal: TestProposal,
+  context: PullRequestContextWithTests
+) {
+  const { changedFiles, testSetup } = context
+
+  let testedPath = proposal.filename.replace(TEST_ENDING, "")
+  for (const directory of [testSetup.unit.directory, testSetup.e2e.directory]) {
+    if (directory) testedPath = testedPath.replace(`${directory}/`, "")
+  }
+  const stem = (filename: string) => filename.split("/").pop()!.split(".")[0]
+  return (
+    changedFiles.find(
+      f => f.filename.replace(/\.[^./]+$/, "") === testedPath
+    ) ?? changedFiles.find(f => stem(f.filename) === stem(testedPath))
+  )
+}
+
+/**
+ * Finalizes test proposals by ensuring the file names end the way the repository
+ * names its tests (e.g. ".spec.js"), with a JSX extension when the test contains JSX.
+ * The extension is checked by parsing the test with the TypeScript compiler; if the test
+ * only parses under the other one, that one is used, and if it parses under neither
+ * the kind of source file it tests decides (verification reports the syntax errors).
+ * Existing test files that are being updated keep their names.
  *
  * @param proposals - Array of raw test proposals from parseTestXml
- * @param changedFiles - Information about files changed in the PR
+ * @param context - Pull request context (for the changed files, existing tests and test setup)
  * @returns Array of finalized test proposals (with properly adjusted file extensions)
  */
 function finalizeTestProposals(
   proposals: TestProposal[],
-  changedFiles: PullRequestContextWithTests["changedFiles"]
+  context: PullRequestContextWithTests
 ): TestProposal[] {
+  const { existingTestFiles, testSetup } = context
+
   return proposals.map(proposal => {
-    // Check if the test is for React-related code by scanning changed file content
-    const reactRelated = changedFiles.some(file => {
-      if (!file.content) return false
-      return (
-        file.filename ===
-          proposal.filename
-            .replace("__tests__/unit/", "")
-            .replace("__tests__/e2e/", "")
-            .replace(".test.tsx", "")
-            .replace(".test.ts", "") ||
-        file.filename.endsWith(".tsx") ||
-        file.content.includes("import React") ||
-        file.content.includes('from "react"') ||
-        file.filename.includes("app/")
+    if (
+      existingTestFiles.some(f => f.filename === proposal.filename) ||
+      !TEST_ENDING.test(proposal.filename)
+    ) {
+      return proposal
+    }
+
+    const withEnding = (jsx: boolean) =>
+      proposal.filename.replace(
+        TEST_ENDING,
+        getTestFileEnding(testSetup, proposal.testType ?? "unit", jsx)
       )
-    })
+    const parses = (filename: string) =>
+      getSyntaxErrors(filename, proposal.testContent).length === 0
 
-    // If it's React-related, ensure .test.tsx; otherwise ensure .test.ts
-    if (reactRelated) {
-      if (!proposal.filename.endsWith(".test.tsx")) {
-        proposal.filename = proposal.filename.replace(
-          /\.test\.ts$/,
-          ".test.tsx"
-        )
-      }
-    } else {
-      if (!proposal.filename.endsWith(".test.ts")) {
-        proposal.filename = proposal.filename.replace(
-          /\.test\.tsx$/,
-          ".test.ts"
+    const jsx = containsJsx(proposal.testContent)
+    let filename = withEnding(jsx)
+    if (!parses(filename)) {
+      if (parses(withEnding(!jsx))) {
+        filename = withEnding(!jsx)
+      } else {
+        const source = findTestedSource(proposal, context)
+        if (source) {
+          filename = withEnding(
+            isFrontEndKind(classifySourceFile(source.filename, source.content))
+          )
+        }
+        console.warn(
+          `Generated test ${filename} doesn't parse as TypeScript or TSX`
         )
       }
     }
 
-    return proposal
+    return { ...proposal, filename }
+  })
+}
+
+/**
+ * Packs the changed files and existing tests into a prompt that fits the model's
+ * context window. Changed files get most of the budget; existing tests get what's left.
+ *
+ * @param context - Pull request context with test information
+ * @param model - The model the prompt is for
+ * @param label - What the prompt is for, used when logging its composition
+ * @param buildPrompt - Builds the full prompt from the changed-file and existing-test sections
+ * @param budgetScale - Share of the prompt budget to use
+ * @returns The full prompt
+ */
+function packTestAgentPrompt(
+  context: PullRequestContextWithTests,
+  model: LanguageModel,
+  label: string,
+  buildPrompt: (
+    changedFilesPrompt: string,
+    existingTestsPrompt: string
+  ) => string,
+  budgetScale: number
+) {
+  const { modelId } = model
+  const budget = getPromptBudget(model, buildPrompt("", ""), budgetScale)
+  const changed = packChangedFiles(context.changedFiles, {
+    modelId,
+    budget: Math.floor(budget * CHANGED_FILES_BUDGET_SHARE),
+    relatedFilenames: context.existingTestFiles.map(f => f.filename)
   })
+  const tests = packExistingTests(
+    context.existingTestFiles,
+    context.changedFiles.map(f => f.filename),
+    { modelId, budget: budget - changed.tokens }
+  )
+  logPromptComposition(label, modelId, budget, [changed, tests])
+  return buildPrompt(changed.text, tests.text)
 }
 
 /**
@@ -166,54 +441,53 @@ function finalizeTestProposals(
  *
  * @param context - Pull request context with test information
  * @param recommendation - Optional recommendation from the gating step
+ * @param coverage - Coverage of the changed lines with the existing tests, if it was measured
  * @returns Array of test proposals describing which tests should be added or updated
+ * @throws The error of the last model if no routed model produced proposals
  */
 async function generateTestsForChanges(
   context: PullRequestContextWithTests,
-  recommendation?: string
+  recommendation?: string,
+  coverage?: ChangedLineCoverage
 ): Promise<TestProposal[]> {
-  const { title, changedFiles, commitMessages, existingTestFiles } = context
-
-  // Combine existing tests into a prompt snippet so the AI knows what's already tested
-  const existingTestsPrompt = existingTestFiles
-    .map(f => `Existing test file: ${f.filename}\n---\n${f.content}\n---\n`)
-    .join("\n")
-
-  // Summarize changed files for the AI
-  const changedFilesPrompt = changedFiles
-    .map(file => {
-      if (file.excluded) {
-        return `File: ${file.filename}\nStatus: ${file.status}\n[EXCLUDED FROM PROMPT]\n`
-      }
-      return `File: ${file.filename}\nStatus: ${file.status}\nPatch:\n${file.patch}\nCurrent Content:\n${file.content ?? "N/A"}\n`
-    })
-    .join("\n---\n")
+  const { title, commitMessages, config, testSetup } = context
+  const jsxEnding = getTestFileEnding(testSetup, "unit", true)
+  const plainEnding = getTestFileEnding(testSetup, "unit", false)
 
-  // Craft the final AI prompt
-  const prompt = `
+  // Whether the routed model supports structured output decides the answer format
+  return runWithModelFallback(
+    config,
+    "testGeneration",
+    async (model, scale) => {
+      // Craft the final AI prompt around the packed changed files and existing tests
+      const buildPrompt = (
+        changedFilesPrompt: string,
+        existingTestsPrompt: string
+      ) => `
 You are an expert software developer specializing in writing tests for a Next.js codebase.
 
 You may use the recommendation below and/or go beyond it.
 
 Recommendation: ${recommendation ?? ""}
 
-Remember - you only generate tests for front-end code. This includes things like React components, pages, hooks, etc. You do not generate tests for back-end code. This includes things like API routes, database models, etc.
+Remember - ${describeTestScope(config.tests.scope)}
 
+Kinds of the changed files:
+${describeChangedFileKinds(context.changedFiles, config.tests.scope)}
+${coverage ? `\n${describeUncoveredLines(coverage)}\n` : ""}
 Rules for naming test files:
-1) If a file is a React component (client or server) or a Next.js page, the test filename MUST end in ".test.tsx".
-2) If the file is purely back-end or non-React, use ".test.ts".
+1) If a file is a React component (client or server) or a Next.js page, the test filename MUST end in "${jsxEnding}".
+2) If the file is a route handler, server action, middleware or any other non-React module, use "${plainEnding}".
 3) If an existing test file has the wrong extension, propose removing/renaming it.
 4) If updating an existing test file that has the correct name, just update it in place.
 
-We have two test categories:
-(1) Unit tests (Jest + Testing Library) in \`__tests__/unit/\`
-(2) E2E tests (Playwright) in \`__tests__/e2e/\`
+${describeTestSetup(testSetup)}
 
 If an existing test already covers related functionality, prefer updating it rather than creating a new file. Return final content for each file you modify or create.
 
 Other rules:
 - If a React component is a Server Component, handle it asynchronously in tests. If it's a Client Component, test it normally.
-
+${config.tests.scope !== "frontend" ? `\n${describeBackEndTesting(testSetup)}\n` : ""}
 Title: ${title}
 Commits:
 ${commitMessages.map(m => `- ${m}`).join("\n")}
@@ -222,167 +496,586 @@ ${changedFilesPrompt}
 Existing Tests:
 ${existingTestsPrompt}
 
-Return ONLY valid XML in the following structure:
-<tests>
-  <testProposals>
-    <proposal>
-      <filename>__tests__/unit/... .test.ts[x]</filename>
-      <testType>unit or e2e</testType>
-      <testContent><![CDATA[
-YOUR TEST CODE HERE
-]]></testContent>
-      <actions>
-        <action>create</action> OR <action>update</action> OR <action>rename</action>
-        <!-- if rename -->
-        <oldFilename>__tests__/unit/... .test.ts</oldFilename>
-      </actions>
-    </proposal>
-  </testProposals>
-</tests>
+${buildTestOutputInstructions(testSetup, supportsStructuredOutput(model))}`
 
-ONLY return the <tests> XML with proposals. Do not add extra commentary.
-`
+      const prompt = packTestAgentPrompt(
+        context,
+        model,
+        "test generation",
+        buildPrompt,
+        scale
+      )
+
+      // Finalize the file extensions of the proposals
+      const rawProposals = await runTestPrompt(model, prompt)
+      return finalizeTestProposals(rawProposals, context)
+    }
+  )
+}
+
+/**
+ * Asks the model to fix test files that failed verification.
+ *
+ * @param context - Pull request context with test information
+ * @param failures - The failing proposals with the errors they produced
+ * @returns The fixed proposals (may be fewer than were asked for)
+ */
+async function repairTestProposals(
+  context: PullRequestContextWithTests,
+  failures: { proposal: TestProposal; verification: TestVerification }[]
+): Promise<TestProposal[]> {
+  const { title, changedFiles, config } = context
+
+  const failuresPrompt = failures
+    .map(
+      ({ proposal, verification }) =>
+        `Test file: ${proposal.filename}\nProblem: ${verification.reason}\nContent:\n${proposal.testContent}\nOutput:\n${verification.output ?? ""}\n`
+    )
+    .join("\n---\n")
 
   try {
-    // Use the configured LLM to generate text based on the prompt
-    const model = getLLMModel()
-    const { text } = await generateText({
-      model,
-      prompt
-    })
-    console.log("text", text)
+    return await runWithModelFallback(
+      config,
+      "testRepair",
+      async (model, scale) => {
+        const buildPrompt = (
+          changedFilesPrompt: string,
+          existingTestsPrompt: string
+        ) => `
+You are an expert software developer fixing tests you wrote for a pull request.
+The test files below were run against the pull request's code and did not pass, or passed without checking the changed code. Fix each of them so it compiles, passes and fails when the changed code is broken.
+Fix the tests, not the code under test: if a test expects behavior the code doesn't have, change or remove that test case.
+Keep each file's name and return the complete content of every file you fix.
+
+Title: ${title}
+Failing Tests:
+${failuresPrompt}
+Changed Files:
+${changedFilesPrompt}
+Existing Tests:
+${existingTestsPrompt}
+
+${buildTestOutputInstructions(context.testSetup, supportsStructuredOutput(model))}`
+
+        const prompt = packTestAgentPrompt(
+          context,
+          model,
+          "test repair",
+          buildPrompt,
+          scale
+        )
 
-    // Parse the generated XML and finalize file extensions
-    const rawProposals = await parseTestXml(text)
-    return finalizeTestProposals(rawProposals, changedFiles)
-  } catch {
-    // If there's an error (like parsing or network), return empty proposals
+        // Only accept fixes for the files that were asked about, keeping their original actions
+        const repaired = await runTestPrompt(model, prompt)
+        return failures.flatMap(({ proposal }) => {
+          const fix = repaired.find(r => r.filename === proposal.filename)
+          return fix ? [{ ...proposal, testContent: fix.testContent }] : []
+        })
+      }
+    )
+  } catch (err) {
+    // The failing tests are dropped; the ones that passed are still delivered
+    console.error(
+      `Error repairing test proposals (${classifyLLMError(err)}):`,
+      err
+    )
     return []
   }
 }
 
 /**
- * Commits generated or updated test files to the existing PR branch.
+ * Separates proposals whose paths the model may not write to: anything outside
+ * of the repository, and workflows and other files under .github/.
+ * Runs before any test is written, verified or delivered, whatever the config.
  *
- * @param owner - Repository owner
- * @param repo - Repository name
- * @param branchName - The branch the PR is based on (head branch)
- * @param proposals - Test files to be created or updated
+ * @param proposals - The generated test proposals
+ * @returns The proposals with safe paths and the ones that were dropped
  */
-async function commitTestsToExistingBranch(
-  owner: string,
-  repo: string,
-  branchName: string,
-  proposals: TestProposal[]
-) {
+function dropUnsafeProposals(proposals: TestProposal[]): {
+  safe: TestProposal[]
+  dropped: DroppedTest[]
+} {
+  const unsafeReason = (filename: string) =>
+    !isPathInsideRepo(filename)
+      ? "path is outside of the repository"
+      : path.posix.normalize(filename).startsWith(".github/")
+        ? "path is under .github/"
+        : undefined
+
+  const safe: TestProposal[] = []
+  const dropped: DroppedTest[] = []
   for (const proposal of proposals) {
-    const action = proposal.actions?.action ?? "create"
-    const oldFilename = proposal.actions?.oldFilename
+    const reason =
+      unsafeReason(proposal.filename) ??
+      (proposal.actions?.oldFilename !== undefined
+        ? unsafeReason(proposal.actions.oldFilename)
+        : undefined)
+    if (reason) dropped.push({ filename: proposal.filename, reason })
+    else safe.push(proposal)
+  }
+  return { safe, dropped }
+}
 
-    // If the AI wants to rename a file, we first remove the old file (if it exists) and then create the new one
-    if (
-      action === "rename" &&
-      oldFilename &&
-      oldFilename !== proposal.filename
-    ) {
-      try {
-        // Attempt to delete the old file from the branch
-        const { data: oldFile } = await octokit.repos.getContent({
-          owner,
-          repo,
-          path: oldFilename,
-          ref: branchName
-        })
-        if ("sha" in oldFile) {
-          await octokit.repos.deleteFile({
-            owner,
-            repo,
-            path: oldFilename,
-            message: `Rename ${oldFilename} to ${proposal.filename}`,
-            branch: branchName,
-            sha: oldFile.sha
-          })
-        }
-      } catch (err: any) {
-        // If the old file doesn't exist, it's not a blocking error
-        if (err.status !== 404) throw err
-      }
-    }
+/**
+ * Turns a test proposal into the file written to the workspace.
+ *
+ * @param proposal - The test proposal
+ * @returns The file, replacing the old one for renames
+ */
+function toWorkspaceFile(proposal: TestProposal): WorkspaceFile {
+  return {
+    filename: proposal.filename,
+    content: proposal.testContent,
+    deleteFilename:
+      proposal.actions?.action === "rename"
+        ? proposal.actions.oldFilename
+        : undefined
+  }
+}
 
-    try {
-      // Check if the file already exists on the branch
-      const { data: existingFile } = await octokit.repos.getContent({
+/**
+ * Checks out the PR's head commit into a temporary workspace and installs dependencies.
+ *
+ * @param context - Pull request context with test information
+ * @returns The workspace directory, or the error if it couldn't be set up
+ */
+async function openTestWorkspace(
+  context: PullRequestContextWithTests
+): Promise<TestWorkspace> {
+  const { owner, repo, headSha } = context
+  try {
+    return {
+      dir: await createWorkspace(
         owner,
         repo,
-        path: proposal.filename,
-        ref: branchName
-      })
-
-      // If it exists, update it. Otherwise, we'll go to the catch block to create it.
-      const contentBase64 = Buffer.from(proposal.testContent, "utf8").toString(
-        "base64"
+        headSha,
+        await getInstallationToken()
       )
+    }
+  } catch (err) {
+    console.error("Error creating test sandbox:", err)
+    return { error: err instanceof Error ? err.message : String(err) }
+  }
+}
 
-      await octokit.repos.createOrUpdateFileContents({
-        owner,
-        repo,
-        path: proposal.filename,
-        message: `Add/Update tests: ${proposal.filename}`,
-        content: contentBase64,
-        branch: branchName,
-        sha: "sha" in existingFile ? existingFile.sha : undefined
-      })
-    } catch (error: any) {
-      // If the file does not exist (404), we create it
-      if (error.status === 404) {
-        const contentBase64 = Buffer.from(
-          proposal.testContent,
-          "utf8"
-        ).toString("base64")
-        await octokit.repos.createOrUpdateFileContents({
-          owner,
-          repo,
-          path: proposal.filename,
-          message: `Add/Update tests: ${proposal.filename}`,
-          content: contentBase64,
-          branch: branchName
-        })
-      } else {
-        throw error
+/**
+ * Runs the proposed tests in a checkout of the PR and keeps only the ones that pass:
+ * 1. Write the proposals and run the type checker and test runner on just those files
+ * 2. Send failing tests back to the model with their errors, up to maxRepairRounds times
+ * 3. Drop tests that still fail, with the reason
+ *
+ * @param context - Pull request context with test information
+ * @param workspace - The checkout of the head commit, with dependencies installed
+ * @param proposals - The generated test proposals
+ * @param guard - Optional cancellation guard from the run ledger
+ * @returns The proposals that passed and the tests that were dropped
+ */
+async function verifyAndRepairTests(
+  context: PullRequestContextWithTests,
+  workspace: TestWorkspace,
+  proposals: TestProposal[],
+  guard?: RunGuard
+): Promise<{ passed: TestProposal[]; dropped: DroppedTest[] }> {
+  const { config } = context
+  const { verification } = config.tests
+  const timeoutMs = verification.timeoutSeconds * 1000
+
+  // Never write outside of the checkout, whatever filename the model came up with
+  const { safe, dropped: unsafeDropped } = dropUnsafeProposals(proposals)
+  proposals = safe
+
+  const { dir } = workspace
+  if (!dir) {
+    // Without a workspace nothing can be verified, so nothing is committed
+    const reason = `could not set up the sandbox: ${workspace.error}`
+    return {
+      passed: [],
+      dropped: [
+        ...unsafeDropped,
+        ...proposals.map(p => ({ filename: p.filename, reason }))
+      ]
+    }
+  }
+
+  const passed: TestProposal[] = []
+  // The latest failure of each test that hasn't passed yet
+  const failures = new Map<
+    string,
+    { proposal: TestProposal; verification: TestVerification }
+  >()
+  let pending = proposals
+
+  for (let round = 0; pending.length > 0; round++) {
+    await guard?.throwIfCancelled()
+
+    await writeWorkspaceFiles(dir, pending.map(toWorkspaceFile))
+    const results = await verifyTestFiles(
+      dir,
+      pending.map(p => ({
+        filename: p.filename,
+        runner:
+          p.testType === "e2e"
+            ? context.testSetup.e2e.framework
+            : context.testSetup.unit.framework
+      })),
+      timeoutMs
+    )
+
+    const failing = pending.filter((proposal, i) => {
+      if (results[i].passed) {
+        passed.push(proposal)
+        failures.delete(proposal.filename)
+        return false
       }
+      failures.set(proposal.filename, { proposal, verification: results[i] })
+      return true
+    })
+    console.log(
+      `Test verification round ${round + 1}: ${results.length - failing.length} passed, ${failing.length} failed`
+    )
+
+    if (failing.length === 0 || round >= verification.maxRepairRounds) break
+    pending = await repairTestProposals(
+      context,
+      failing.map(p => failures.get(p.filename)!)
+    )
+  }
+
+  // Anything still failing (or that the model couldn't fix) is dropped
+  const dropped = Array.from(failures.values()).map(f => ({
+    filename: f.proposal.filename,
+    reason: f.verification.reason ?? "failed",
+    output: f.verification.output
+  }))
+  return { passed, dropped: [...unsafeDropped, ...dropped] }
+}
+
+/**
+ * Checks whether the PR's code may be run in the sandbox at all.
+ * The sandbox is not isolated from the worker, so code from forks never runs:
+ * their tests are delivered unverified, as suggestions the author reviews.
+ *
+ * @param context - Pull request context with test information
+ * @returns true if the PR's head commit may be checked out and run
+ */
+function canRunSandbox(context: PullRequestContextWithTests): boolean {
+  return !context.isFork
+}
+
+/**
+ * Checks whether the coverage of the changed lines should be measured.
+ * Only jest is supported, and only changed files in the test scope count.
+ *
+ * @param context - Pull request context with test information
+ * @returns true if coverage is enabled and there is changed code to measure
+ */
+function isCoverageEnabled(context: PullRequestContextWithTests): boolean {
+  return (
+    canRunSandbox(context) &&
+    context.config.tests.coverage.enabled &&
+    context.testSetup.unit.framework === "jest" &&
+    getFilesInScope(context).length > 0
+  )
+}
+
+/**
+ * Measures how many of the changed lines in scope the workspace's unit tests run.
+ * Coverage only guides generation, so a failed measurement is logged and ignored.
+ *
+ * @param context - Pull request context with test information
+ * @param workspace - The checkout of the head commit
+ * @returns Coverage of the changed lines, or undefined if it couldn't be measured
+ */
+async function measureCoverage(
+  context: PullRequestContextWithTests,
+  workspace: TestWorkspace
+): Promise<ChangedLineCoverage | undefined> {
+  if (!workspace.dir) return undefined
+  try {
+    const coverage = await measureChangedLineCoverage(
+      workspace.dir,
+      getChangedLines(getFilesInScope(context)),
+      context.config.tests.verification.timeoutSeconds * 1000
+    )
+    if (coverage) {
+      console.log(
+        `Changed-line coverage: ${coverage.covered} of ${coverage.total} lines`
+      )
+    }
+    return coverage
+  } catch (err) {
+    console.error("Error measuring coverage:", err)
+    return undefined
+  }
+}
+
+/**
+ * Puts the workspace's test files back to the head commit's version plus the tests
+ * that passed, so dropped tests don't count towards the coverage after generation.
+ *
+ * @param dir - The workspace directory
+ * @param context - Pull request context with test information
+ * @param generated - Every generated test proposal
+ * @param passed - The proposals that passed verification
+ */
+async function resetWorkspaceTests(
+  dir: string,
+  context: PullRequestContextWithTests,
+  generated: TestProposal[],
+  passed: TestProposal[]
+) {
+  const original = (filename: string) =>
+    context.existingTestFiles.find(f => f.filename === filename)
+
+  // Files a dropped proposal may have written over or removed
+  const touched = generated
+    .filter(p => !passed.some(q => q.filename === p.filename))
+    .flatMap(p =>
+      p.actions?.action === "rename" && p.actions.oldFilename
+        ? [p.filename, p.actions.oldFilename]
+        : [p.filename]
+    )
+    .filter(isPathInsideRepo)
+
+  await deleteWorkspaceFiles(
+    dir,
+    touched.filter(f => !original(f))
+  )
+  await writeWorkspaceFiles(dir, [
+    ...touched.flatMap(f => {
+      const file = original(f)
+      return file ? [{ filename: f, content: file.content }] : []
+    }),
+    ...passed
+      .filter(
+        p =>
+          isPathInsideRepo(p.filename) &&
+          (p.actions?.oldFilename === undefined ||
+            isPathInsideRepo(p.actions.oldFilename))
+      )
+      .map(toWorkspaceFile)
+  ])
+}
+
+/**
+ * Scores the generated unit tests by running them against mutants of the changed functions.
+ * Tests that kill no mutant are sent back to the model once with the surviving mutants;
+ * the new versions are verified and scored again, and tests that still kill none are dropped.
+ * Mutation testing only grades the tests, so if it fails the tests are kept unscored.
+ *
+ * @param context - Pull request context with test information
+ * @param workspace - The checkout of the head commit
+ * @param generated - Every generated test proposal
+ * @param passed - The proposals that passed verification
+ * @param guard - Optional cancellation guard from the run ledger
+ * @returns The proposals to keep, the ones dropped and the mutation score of each source file
+ */
+async function mutationTestingStep(
+  context: PullRequestContextWithTests,
+  workspace: TestWorkspace,
+  generated: TestProposal[],
+  passed: TestProposal[],
+  guard?: RunGuard
+): Promise<{
+  passed: TestProposal[]
+  dropped: DroppedTest[]
+  scores: MutationScore[]
+}> {
+  const { dir } = workspace
+  const { mutation, verification } = context.config.tests
+  // E2E tests run against a server, not the mutated modules
+  const unitTests = (proposals: TestProposal[]) =>
+    proposals
+      .filter(p => p.testType !== "e2e")
+      .map(p => ({
+        filename: p.filename,
+        runner: context.testSetup.unit.framework
+      }))
+  if (!dir || unitTests(passed).length === 0) {
+    return { passed, dropped: [], scores: [] }
+  }
+
+  const sources = getFilesInScope(context).flatMap(f => {
+    const changedLines = getChangedLines([f]).get(f.filename)
+    return f.content && changedLines
+      ? [{ filename: f.filename, content: f.content, changedLines }]
+      : []
+  })
+  const run = async (proposals: TestProposal[]) => {
+    await resetWorkspaceTests(dir, context, generated, proposals)
+    return runMutationTests(dir, sources, unitTests(proposals), {
+      maxMutantsPerFile: mutation.maxMutantsPerFile,
+      timeoutMs: verification.timeoutSeconds * 1000
+    })
+  }
+  const isIdle = (kills: Map<string, number>) => (p: TestProposal) =>
+    kills.get(p.filename) === 0
+
+  try {
+    let report = await run(passed)
+    const idle = passed.filter(isIdle(report.kills))
+    const total = report.scores.reduce((sum, s) => sum + s.total, 0)
+    console.log(
+      `Mutation testing: ${total} mutants, ${idle.length} test file(s) killed none`
+    )
+    if (total === 0 || idle.length === 0) {
+      return { passed, dropped: [], scores: report.scores }
+    }
+
+    await guard?.throwIfCancelled()
+    const survivors = describeSurvivors(report.scores.flatMap(s => s.survivors))
+    const regenerated = await repairTestProposals(
+      context,
+      idle.map(proposal => ({
+        proposal,
+        verification: {
+          filename: proposal.filename,
+          passed: false,
+          reason: `passes, but fails on none of the ${total} mutants of the changed code, so its assertions don't check the changes`,
+          output:
+            survivors &&
+            `Mutants no test caught:
+${survivors}`
+        }
+      }))
+    )
+    const verified =
+      regenerated.length > 0
+        ? await verifyAndRepairTests(context, workspace, regenerated, guard)
+        : { passed: [], dropped: [] }
+    await guard?.throwIfCancelled()
+
+    // Score again with the new versions; the ones that still kill nothing are dropped
+    report = await run([
+      ...passed.filter(p => !idle.includes(p)),
+      ...verified.passed
+    ])
+    const kept = [
+      ...passed.filter(p => !idle.includes(p)),
+      ...verified.passed.filter(p => !isIdle(report.kills)(p))
+    ]
+    // New versions that failed verification are reported with why they failed
+    const failed = new Set(verified.dropped.map(d => d.filename))
+    return {
+      passed: kept,
+      dropped: [
+        ...verified.dropped,
+        ...idle
+          .filter(
+            p =>
+              !kept.some(k => k.filename === p.filename) &&
+              !failed.has(p.filename)
+          )
+          .map(p => ({
+            filename: p.filename,
+            reason: `killed none of the ${total} mutants`,
+            output: survivors
+          }))
+      ],
+      scores: report.scores
     }
+  } catch (err) {
+    if (err instanceof RunCancelledError) throw err
+    console.error("Error in mutation testing:", err)
+    return { passed, dropped: [], scores: [] }
   }
 }
 
 /**
- * Updates the PR comment with the list of test files that were generated or updated.
+ * Turns test proposals into the file changes of a commit.
+ *
+ * @param proposals - Test files to be created, updated or renamed
+ * @returns One change per proposal
+ */
+function toFileChanges(proposals: TestProposal[]): FileChange[] {
+  return proposals.map(proposal => ({
+    filename: proposal.filename,
+    content: proposal.testContent,
+    previousFilename:
+      proposal.actions?.action === "rename"
+        ? proposal.actions.oldFilename
+        : undefined
+  }))
+}
+
+/**
+ * Updates the PR comment with the list of test files that were generated or updated,
+ * and the generated tests that were dropped because they failed verification.
  *
- * @param owner - Repository owner
- * @param repo - Repository name
  * @param commentId - ID of the comment used to track test generation status
- * @param headRef - The name of the branch where tests were committed
+ * @param context - Pull request context (for config errors and excluded files)
  * @param testProposals - Array of test proposals that were committed
+ * @param dropped - Generated tests that weren't committed, with the reason
+ * @param delivery - Where the tests were committed, if any were
+ * @param coverage - Coverage of the changed lines before and after, if it was measured
+ * @param mutationScores - Mutation score of each changed source file, if mutation testing ran
+ * @returns The markdown posted in the comment
  */
 async function updateCommentWithResults(
-  owner: string,
-  repo: string,
   commentId: number,
-  headRef: string,
-  testProposals: TestProposal[]
+  context: PullRequestContextWithTests,
+  testProposals: TestProposal[],
+  dropped: DroppedTest[],
+  delivery?: TestDelivery,
+  coverage?: CoverageChange,
+  mutationScores: MutationScore[] = []
 ) {
+  const { owner, repo } = context
+
   // Create a bulleted list of test files for the comment
   const testList = testProposals.map(t => `- **${t.filename}**`).join("\n")
+  const droppedSection =
+    dropped.length > 0
+      ? `\n\n❌ Dropped ${dropped.length} generated test file(s) that didn't pass:\n${dropped
+          .map(
+            d =>
+              `<details>\n<summary><code>${d.filename}</code>: ${d.reason}</summary>\n\n\`\`\`\n${(d.output ?? "").slice(-MAX_DROPPED_OUTPUT_LENGTH)}\n\`\`\`\n\n</details>`
+          )
+          .join("\n")}`
+      : ""
   const body = `### AI Test Generator
 
-${
-  testProposals.length > 0
-    ? `✅ Added/updated these test files on branch \`${headRef}\`:
+${formatConfigErrors(context.configErrors)}${
+    delivery?.review
+      ? `✅ Suggested these test files in a [review](${delivery.review.url}):
+${testList}
+
+*(Accept the suggestions or copy the attached files to take them.)*`
+      : delivery?.pullRequest
+        ? `✅ Opened #${delivery.pullRequest.number} with these test files, targeting \`${delivery.pullRequest.base}\`:
+${testList}
+
+*(Review and merge that PR to take them.)*`
+        : delivery
+          ? `✅ Added/updated these test files on branch \`${delivery.branch}\`:
 ${testList}
 
 *(Pull from that branch to see & modify them.)*`
-    : `⚠️ No test proposals were generated.`
-}`
+          : dropped.length > 0
+            ? `⚠️ None of the generated tests passed, so nothing was committed.`
+            : `⚠️ No test proposals were generated.`
+  }${droppedSection}${coverage ? `\n\n${formatCoverageChange(coverage.before, coverage.after)}` : ""}${mutationScores.length > 0 ? `\n\n${formatMutationScores(mutationScores)}` : ""}
+
+${formatExcludedFiles(context.changedFiles)}`
   await updateComment(owner, repo, commentId, body)
+  return body
+}
+
+/**
+ * Picks the changed files tests may be generated for under the repository's tests.scope.
+ *
+ * @param context - Pull request context including file changes
+ * @returns The changed files that weren't removed and are in scope
+ */
+function getFilesInScope(context: PullRequestContextWithTests) {
+  return context.changedFiles.filter(
+    f =>
+      f.status !== "removed" &&
+      isInTestScope(
+        classifySourceFile(f.filename, f.content),
+        context.config.tests.scope
+      )
+  )
 }
 
 /**
@@ -390,37 +1083,39 @@ ${testList}
  * based on the changed files and existing tests.
  *
  * @param context - Pull request context including file changes
+ * @param coverage - Coverage of the changed lines with the existing tests, if it was measured
  * @returns Object containing a boolean decision and reasoning
  */
-async function gatingStep(context: PullRequestContextWithTests) {
-  const { title, changedFiles, commitMessages, existingTestFiles } = context
-
-  // Format existing tests for the prompt
-  const existingTestsPrompt = existingTestFiles
-    .map(
-      f => `
-Existing test file: ${f.filename}
----
-${f.content}
----
-`
-    )
-    .join("\n")
+async function gatingStep(
+  context: PullRequestContextWithTests,
+  coverage?: ChangedLineCoverage
+): Promise<{
+  shouldGenerate: boolean
+  reason: string
+  recommendation?: string
+}> {
+  const { title, commitMessages, changedFiles, config } = context
+  const { scope } = config.tests
 
-  // Format changed files for the prompt
-  const changedFilesPrompt = changedFiles
-    .map(file => {
-      if (file.excluded) {
-        return `File: ${file.filename}\nStatus: ${file.status}\n[EXCLUDED]\n`
-      }
-      return `File: ${file.filename}\nStatus: ${file.status}\nPatch:\n${file.patch}\nContent:\n${file.content ?? "N/A"}\n`
-    })
-    .join("\n---\n")
+  // No need to ask the model when nothing it may test has changed
+  if (getFilesInScope(context).length === 0) {
+    return {
+      shouldGenerate: false,
+      reason: `None of the changed files are in the test scope (${scope}).`
+    }
+  }
 
-  // Construct the prompt for the AI model
-  const prompt = `
-You are an expert in deciding if front-end tests are needed for these changes.
+  // Construct the prompt for the AI model around the packed changed files and existing tests
+  const buildPrompt = (
+    changedFilesPrompt: string,
+    existingTestsPrompt: string
+  ) => `
+You are an expert in deciding if tests are needed for these changes.
+${describeTestScope(scope)} Only recommend tests for changed files that are in scope.
 
+Kinds of the changed files:
+${describeChangedFileKinds(changedFiles, scope)}
+${coverage ? `\n${describeUncoveredLines(coverage)}\n` : ""}
 You have the PR title, commits, and file diffs/content. Only return the object in JSON format: {"decision":{"shouldGenerateTests":true or false,"reasoning":"some text","recommendation":"some text"}}
 
 Title: ${title}
@@ -433,97 +1128,299 @@ ${existingTestsPrompt}
 `
 
   try {
-    // Use the configured LLM model for a gating decision
-    const model = getLLMModel()
-    const result = await generateObject({
-      model,
-      schema: gatingSchema,
-      schemaName: "decision",
-      schemaDescription: "Decision for test generation",
-      prompt
-    })
+    // Use the models routed to gating, usually a cheaper one
+    return await runWithModelFallback(
+      config,
+      "testGating",
+      async (model, scale) => {
+        const prompt = packTestAgentPrompt(
+          context,
+          model,
+          "test gating",
+          buildPrompt,
+          scale
+        )
+        const { decision } = await generateValidatedObject({
+          model,
+          schema: gatingSchema,
+          schemaName: "decision",
+          schemaDescription: "Decision for test generation",
+          prompt
+        })
 
-    console.log(
-      "shouldGenerate",
-      result.object.decision.shouldGenerateTests,
-      result.object.decision.reasoning,
-      result.object.decision.recommendation
-    )
+        console.log(
+          "shouldGenerate",
+          decision.shouldGenerateTests,
+          decision.reasoning,
+          decision.recommendation
+        )
 
+        return {
+          shouldGenerate: decision.shouldGenerateTests,
+          reason: decision.reasoning,
+          recommendation: decision.recommendation
+        }
+      }
+    )
+  } catch (err) {
+    // Without a usable decision, skip test generation; provider errors are reported by the caller
+    if (!(err instanceof StructuredOutputError)) throw err
+    console.error("Error in gating check:", err)
     return {
-      shouldGenerate: result.object.decision.shouldGenerateTests,
-      reason: result.object.decision.reasoning,
-      recommendation: result.object.decision.recommendation
+      shouldGenerate: false,
+      reason: "The gating decision didn't match the expected format."
     }
-  } catch {
-    // Default to skipping test generation if there's an error in the gating step
-    return { shouldGenerate: false, reason: "Error in gating check" }
   }
 }
 
 /**
  * Main handler that orchestrates the test generation flow:
- * 1. Creates a placeholder comment
- * 2. Decides whether to generate tests (gating)
- * 3. If yes, generates and commits them
- * 4. Updates the comment with results
+ * 1. Creates a placeholder comment and an in-progress check run on the head commit
+ * 2. Measures which changed lines the existing tests run (jest only) and
+ *    decides whether to generate tests (gating)
+ * 3. If yes, generates them aimed at the uncovered lines, runs them in a sandbox
+ *    (repairing failures with the model), optionally scores them against mutants of
+ *    the changed code, measures the coverage again and delivers
+ *    the ones that pass: as a single commit to the PR's branch or a stacked PR,
+ *    or as suggested changes in a review
+ * 4. Updates the comment and completes the check run with results
  * 5. Removes the "agent-generate-tests" label
  *
+ * Between steps we check the run guard, so we never commit tests generated
+ * for a commit that has since been superseded.
+ *
  * @param context - Pull request context with test-related data
+ * @param guard - Optional cancellation guard from the run ledger
  */
 export async function handleTestGeneration(
-  context: PullRequestContextWithTests
+  context: PullRequestContextWithTests,
+  guard?: RunGuard
 ) {
-  const { owner, repo, pullNumber, headRef } = context
+  const { owner, repo, pullNumber, headSha } = context
   let commentId: number | undefined
+  let checkRunId: number | undefined
+  // The sandbox checkout is set up on first use and shared by every step that needs it
+  let workspace: Promise<TestWorkspace> | undefined
+  const getWorkspace = () => (workspace ??= openTestWorkspace(context))
 
   try {
-    // 1. Create placeholder comment
+    await guard?.throwIfCancelled()
+
+    // A retried job reuses the check run and comment its earlier attempts posted
+    const run = guard && (await getRun(guard.runId))
+
+    // An earlier attempt delivered the tests before it failed; delivering them
+    // again would push a second commit, review or PR
+    if (run?.deliveredAt) {
+      await completeCheckRun(owner, repo, run.checkRunId, {
+        conclusion: "success",
+        title: "Tests delivered",
+        summary: "🧪 The generated tests were delivered by an earlier attempt."
+      })
+      await removeLabel(
+        owner,
+        repo,
+        pullNumber,
+        context.config.labels.testGeneration
+      )
+      return
+    }
+
+    // 1. Create placeholder comment and show the run in the PR checks UI
+    checkRunId = await startCheckRun(
+      owner,
+      repo,
+      headSha,
+      TEST_GENERATION_CHECK_NAME,
+      run?.checkRunId
+    )
+    if (guard && checkRunId !== undefined) {
+      await setRunCheckRunId(guard.runId, checkRunId)
+    }
     commentId = await createPlaceholderComment(
       owner,
       repo,
       pullNumber,
-      "🧪 AI Test Generation in progress..."
+      "🧪 AI Test Generation in progress...",
+      run?.commentId
     )
+    if (guard) await setRunCommentId(guard.runId, commentId)
 
-    // 2. Decide if we should generate tests
-    const { shouldGenerate, reason, recommendation } = await gatingStep(context)
+    // 2. Measure the coverage of the changed lines and decide if we should generate tests
+    const before = isCoverageEnabled(context)
+      ? await measureCoverage(context, await getWorkspace())
+      : undefined
+    const coverage: CoverageChange | undefined = before && { before }
+    await guard?.throwIfCancelled()
+    const { shouldGenerate, reason, recommendation } = await gatingStep(
+      context,
+      before
+    )
+    await guard?.throwIfCancelled()
     if (!shouldGenerate) {
       await updateComment(
         owner,
         repo,
         commentId,
-        `⏭️ Skipping test generation: ${reason}`
+        `${formatConfigErrors(context.configErrors)}⏭️ Skipping test generation: ${reason}`
       )
+      await completeCheckRun(owner, repo, checkRunId, {
+        conclusion: "skipped",
+        title: "No tests needed",
+        summary: `⏭️ Skipping test generation: ${reason}`
+      })
       return
     }
 
-    // 3. Generate and commit tests
-    const testProposals = await generateTestsForChanges(context, recommendation)
-    if (testProposals.length > 0) {
-      await commitTestsToExistingBranch(owner, repo, headRef, testProposals)
+    // 3. Generate tests, verify them in a sandbox and commit the ones that pass
+    const { safe: generated, dropped: unsafe } = dropUnsafeProposals(
+      await generateTestsForChanges(context, recommendation, before)
+    )
+    await guard?.throwIfCancelled()
+    let { passed: testProposals, dropped } =
+      generated.length > 0 &&
+      context.config.tests.verification.enabled &&
+      canRunSandbox(context)
+        ? await verifyAndRepairTests(
+            context,
+            await getWorkspace(),
+            generated,
+            guard
+          )
+        : { passed: generated, dropped: [] as DroppedTest[] }
+    dropped = [...unsafe, ...dropped]
+    await guard?.throwIfCancelled()
+    let mutationScores: MutationScore[] = []
+    if (
+      context.config.tests.mutation.enabled &&
+      canRunSandbox(context) &&
+      testProposals.length > 0
+    ) {
+      const mutation = await mutationTestingStep(
+        context,
+        await getWorkspace(),
+        generated,
+        testProposals,
+        guard
+      )
+      testProposals = mutation.passed
+      dropped = [...dropped, ...mutation.dropped]
+      mutationScores = mutation.scores
+    }
+    if (coverage && testProposals.length > 0) {
+      const { dir } = await getWorkspace()
+      if (dir) {
+        await resetWorkspaceTests(dir, context, generated, testProposals)
+        coverage.after = await measureCoverage(context, { dir })
+        await guard?.throwIfCancelled()
+      }
+    }
+    const delivery =
+      testProposals.length > 0
+        ? await deliverTests(context, toFileChanges(testProposals), {
+            reason,
+            recommendation
+          })
+        : undefined
+
+    // 4. Update comment and check run with results. The tests are delivered: a retry
+    // would deliver them again, so from here on failures are reported instead of rethrown
+    let resultsBody: string
+    try {
+      if (guard && delivery) await setRunDelivered(guard.runId)
+      resultsBody = await updateCommentWithResults(
+        commentId,
+        context,
+        testProposals,
+        dropped,
+        delivery,
+        coverage,
+        mutationScores
+      )
+    } catch (err) {
+      if (!delivery) throw err
+      console.error("Error reporting delivered tests:", err)
+      resultsBody = `The tests were delivered, but the results comment couldn't be updated: ${err instanceof Error ? err.message : String(err)}`
     }
+    await completeCheckRun(owner, repo, checkRunId, {
+      conclusion: testProposals.length > 0 ? "success" : "neutral",
+      title:
+        testProposals.length > 0
+          ? `${testProposals.length} test file(s) ${delivery?.review ? "suggested" : "added or updated"}${dropped.length > 0 ? `, ${dropped.length} dropped` : ""}`
+          : dropped.length > 0
+            ? `${dropped.length} generated test file(s) failed verification`
+            : "No test proposals were generated",
+      summary: resultsBody
+    })
 
-    // 4. Update comment with results
-    await updateCommentWithResults(
+    // 5. Remove the generation label to indicate we're done
+    await removeLabel(
       owner,
       repo,
-      commentId,
-      headRef,
-      testProposals
+      pullNumber,
+      context.config.labels.testGeneration
     )
-
-    // 5. Remove the generation label to indicate we're done
-    await removeLabel(owner, repo, pullNumber, TEST_GENERATION_LABEL)
   } catch (err) {
+    if (err instanceof RunCancelledError) {
+      // Superseded by a newer commit, say so instead of reporting an error
+      if (typeof commentId !== "undefined") {
+        await updateComment(
+          owner,
+          repo,
+          commentId,
+          `⏹️ Test generation cancelled: ${err.message}.`
+        )
+      }
+      await completeCheckRun(owner, repo, checkRunId, {
+        conclusion: "cancelled",
+        title: "Test generation cancelled",
+        summary: `⏹️ ${err.message}.`
+      })
+      throw err
+    }
+
+    if (err instanceof BranchMovedError) {
+      // New commits were pushed while we worked; the tests may no longer fit them,
+      // and retrying the job would only generate them for the old commit again
+      const message = `⏭️ Tests were not committed: ${err.message} while they were being generated. Add the \`${context.config.labels.testGeneration}\` label again to generate tests for the latest commit.`
+      if (typeof commentId !== "undefined") {
+        await updateComment(owner, repo, commentId, message)
+      }
+      await completeCheckRun(owner, repo, checkRunId, {
+        conclusion: "neutral",
+        title: "Branch changed during test generation",
+        summary: message
+      })
+      await removeLabel(
+        owner,
+        repo,
+        pullNumber,
+        context.config.labels.testGeneration
+      )
+      return
+    }
+
     console.error("Error in handleTestGeneration:", err)
     if (typeof commentId !== "undefined") {
       await updateComment(
         owner,
         repo,
         commentId,
-        "❌ Error generating tests. Please check the logs."
+        `❌ Error generating tests. ${describeLLMError(err) ?? "Please check the logs."}`
       )
     }
+    await completeCheckRun(owner, repo, checkRunId, {
+      conclusion: "failure",
+      title: "Test generation failed",
+      summary: `❌ Error generating tests: ${err instanceof Error ? err.message : String(err)}`
+    })
+    // Retrying the job can't fix missing credentials or a PR too large for the model
+    const kind = classifyLLMError(err)
+    if (kind === "auth" || kind === "context-length") return
+    // Re-throw so the worker can retry the job
+    throw err
+  } finally {
+    const dir = workspace && (await workspace).dir
+    if (dir) await removeWorkspace(dir)
   }
 }
@@ -0,0 +1,447 @@
+/*
+<ai_context>
+This file contains the ways generated tests are delivered to a pull request.
+"push" commits them to the PR's own branch. "stacked-pr" commits them to a new
+ai-tests/<pr>-<sha> branch off the PR's head and opens a PR against the PR's branch,
+so the author decides whether to take them. Fork PRs always get suggestions: we can't push
+to a fork, and a stacked PR would have to target the base branch with the fork's unreviewed code.
+"suggestions" doesn't commit anything: edits to test files in the PR's diff are posted as
+suggested changes in a review, and every other file is attached to the review in full.
+The mode comes from the repo config, and labels on the PR can pick another one.
+</ai_context>
+*/
+
+import path from "path"
+import { TestDeliveryMode } from "./config"
+import { anchorRangeExactly, DiffAnchor, diffLines } from "./diff"
+import { commitFiles, CommitSummary, FileChange } from "./git-data"
+import { octokit } from "./github"
+import { PullRequestContext, PullRequestContextWithTests } from "./handlers"
+
+// GitHub rejects review bodies over 65536 characters; leave room for the text around the files
+const MAX_REVIEW_BODY_LENGTH = 60000
+
+/**
+ * An inline review comment, as the Reviews API expects it.
+ */
+type ReviewComment = DiffAnchor & { path: string; body: string }
+
+/**
+ * Why the gating step decided the PR needs tests, shown in stacked PRs.
+ */
+export interface GatingDecision {
+  reason: string
+  recommendation?: string
+}
+
+/**
+ * Where the tests ended up.
+ */
+export interface TestDelivery {
+  mode: TestDeliveryMode
+  branch?: string // The branch the tests were committed to, unless they were only suggested
+  summary?: CommitSummary
+  pullRequest?: { number: number; url: string; base: string } // Set for stacked PRs
+  review?: { url: string; suggested: string[]; attached: string[] } // Set for suggestions
+}
+
+/**
+ * Picks how tests are delivered for a PR: a delivery label on the PR wins over
+ * the configured mode, and fork PRs always get suggestions.
+ *
+ * @param context - Pull request context (for the config, labels and fork status)
+ * @returns The delivery mode
+ */
+export function resolveDeliveryMode(
+  context: PullRequestContext
+): TestDeliveryMode {
+  const { mode, labels } = context.config.tests.delivery
+  const labelled = context.labels.find(label => labels[label] !== undefined)
+  const resolved = labelled ? labels[labelled] : mode
+  return context.isFork ? "suggestions" : resolved
+}
+
+/**
+ * Returns the branch a stacked PR is opened from, e.g. "ai-tests/12-1a2b3c4".
+ *
+ * @param pullNumber - The PR the tests are for
+ * @param headSha - The head commit the tests were generated for
+ * @returns The branch name
+ */
+export function getStackedBranchName(pullNumber: number, headSha: string) {
+  return `ai-tests/${pullNumber}-${headSha.slice(0, 7)}`
+}
+
+/**
+ * Returns the title used for the commit and for stacked PRs.
+ *
+ * @param pullNumber - The PR the tests are for
+ */
+function getDeliveryTitle(pullNumber: number) {
+  return `Add AI-generated tests for #${pullNumber}`
+}
+
+/**
+ * Builds the description of a stacked PR: a link back to the original PR,
+ * the gating step's reasoning and the files it changes.
+ *
+ * @param context - Pull request context of the original PR
+ * @param base - The branch the stacked PR targets
+ * @param summary - What the commit did to each file
+ * @param gating - Why the PR needs tests
+ * @returns Markdown for the PR body
+ */
+export function buildStackedPullRequestBody(
+  context: PullRequestContext,
+  base: string,
+  summary: CommitSummary,
+  gating: GatingDecision
+): string {
+  const { pullNumber, headSha } = context
+  const intro = `Tests generated for #${pullNumber} at ${headSha.slice(0, 7)}. Merging this PR adds them to \`${base}\`, the branch of #${pullNumber}.`
+
+  const files = [
+    ...summary.created.map(f => `- Created \`${f}\``),
+    ...summary.updated.map(f => `- Updated \`${f}\``),
+    ...summary.renamed.map(r => `- Renamed \`${r.from}\` to \`${r.to}\``),
+    ...summary.deleted.map(f => `- Deleted \`${f}\``)
+  ].join("\n")
+
+  return `${intro}
+
+### Why these tests
+${gating.reason}${gating.recommendation ? `\n\n**Recommendation:** ${gating.recommendation}` : ""}
+
+### Files
+${files}`
+}
+
+/**
+ * Points a branch at a commit, creating it if needed. A branch left over
+ * from an earlier run for the same commit is reset.
+ *
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param branch - The branch name
+ * @param sha - The commit to point it at
+ */
+async function createOrResetBranch(
+  owner: string,
+  repo: string,
+  branch: string,
+  sha: string
+) {
+  try {
+    await octokit.git.createRef({
+      owner,
+      repo,
+      ref: `refs/heads/${branch}`,
+      sha
+    })
+  } catch (err: any) {
+    // 422 means the branch already exists
+    if (err.status !== 422) throw err
+    await octokit.git.updateRef({
+      owner,
+      repo,
+      ref: `heads/${branch}`,
+      sha,
+      force: true
+    })
+  }
+}
+
+/**
+ * Commits the tests to a new branch off the PR's head and opens a PR for them,
+ * or updates the PR opened by an earlier run for the same commit.
+ *
+ * @param context - Pull request context of the original PR
+ * @param changes - The test files
+ * @param gating - Why the PR needs tests
+ * @returns Where the tests ended up
+ */
+async function openStackedPullRequest(
+  context: PullRequestContext,
+  changes: FileChange[],
+  gating: GatingDecision
+): Promise<TestDelivery> {
+  const { owner, repo, pullNumber, headSha } = context
+  const branch = getStackedBranchName(pullNumber, headSha)
+  const base = context.headRef
+
+  await createOrResetBranch(owner, repo, branch, headSha)
+  const summary = await commitFiles(owner, repo, {
+    branch,
+    expectedHeadSha: headSha,
+    title: getDeliveryTitle(pullNumber),
+    changes
+  })
+  const body = buildStackedPullRequestBody(context, base, summary, gating)
+
+  const { data: open } = await octokit.pulls.list({
+    owner,
+    repo,
+    head: `${owner}:${branch}`,
+    state: "open"
+  })
+  if (open.length > 0) {
+    await octokit.pulls.update({
+      owner,
+      repo,
+      pull_number: open[0].number,
+      body
+    })
+    return {
+      mode: "stacked-pr",
+      branch,
+      summary,
+      pullRequest: { number: open[0].number, url: open[0].html_url, base }
+    }
+  }
+
+  const { data: created } = await octokit.pulls.create({
+    owner,
+    repo,
+    title: getDeliveryTitle(pullNumber),
+    head: branch,
+    base,
+    body
+  })
+  return {
+    mode: "stacked-pr",
+    branch,
+    summary,
+    pullRequest: { number: created.number, url: created.html_url, base }
+  }
+}
+
+/**
+ * Returns a code fence longer than any run of backticks in the content,
+ * so generated code containing ``` can't end the block early.
+ *
+ * @param content - The code to fence
+ * @returns The fence
+ */
+function getFence(content: string): string {
+  const longest = (content.match(/`+/g) ?? []).reduce(
+    (max, run) => Math.max(max, run.length),
+    0
+  )
+  return "`".repeat(Math.max(3, longest + 1))
+}
+
+/**
+ * Turns the edits to a file in the PR's diff into suggested-change comments.
+ * All or nothing: if any edit touches lines outside the diff, no comments are
+ * returned, since accepting only some of them would leave a broken file.
+ *
+ * @param filename - The test file
+ * @param patch - The file's patch in the PR
+ * @param oldContent - The file at the PR's head commit
+ * @param newContent - The generated file
+ * @returns The comments, or undefined if the edits can't be suggested inline
+ */
+export function buildSuggestionComments(
+  filename: string,
+  patch: string,
+  oldContent: string,
+  newContent: string
+): ReviewComment[] | undefined {
+  const oldLines = oldContent.replace(/\n$/, "").split("\n")
+  const comments: ReviewComment[] = []
+
+  for (const change of diffLines(oldContent, newContent)) {
+    let { startLine, endLine } = change
+    let lines = change.lines
+
+    // A suggestion replaces lines, so a pure insertion also replaces the line next to it
+    if (endLine < startLine) {
+      if (startLine > 1) {
+        startLine -= 1
+        lines = [oldLines[startLine - 1], ...lines]
+      } else {
+        endLine = startLine
+        lines = [...lines, oldLines[0]]
+      }
+    }
+
+    const anchor = anchorRangeExactly(patch, startLine, endLine)
+    if (!anchor) return undefined
+
+    const suggestion = lines.map(line => `${line}\n`).join("")
+    const fence = getFence(suggestion)
+    comments.push({
+      path: filename,
+      body: `${fence}suggestion\n${suggestion}${fence}`,
+      ...anchor
+    })
+  }
+
+  return comments
+}
+
+/**
+ * Renders a test file as a collapsible block for the review body.
+ *
+ * @param change - The test file
+ * @param note - What the file is, e.g. "new file"
+ * @returns Markdown for the file
+ */
+function formatAttachedFile(change: FileChange, note: string): string {
+  const content = change.content ?? ""
+  const fence = getFence(content)
+  const language = path.extname(change.filename).slice(1)
+  return `<details>\n<summary><code>${change.filename}</code> (${note})</summary>\n\n${fence}${language}\n${content.replace(/\n$/, "")}\n${fence}\n\n</details>`
+}
+
+/**
+ * Posts the tests as one review on the PR's head commit. Edits to test files that
+ * are part of the PR's diff become suggested changes the author can accept with one click;
+ * new files and files outside the diff are attached to the review body in full.
+ *
+ * @param context - Pull request context with the changed files and existing tests
+ * @param changes - The test files
+ * @returns Where the tests ended up
+ */
+async function postSuggestionReview(
+  context: PullRequestContextWithTests,
+  changes: FileChange[]
+): Promise<TestDelivery> {
+  const { owner, repo, pullNumber, headSha } = context
+  const comments: ReviewComment[] = []
+  const suggested: string[] = []
+  const attached: { change: FileChange; note: string }[] = []
+
+  for (const change of changes) {
+    const file = context.changedFiles.find(f => f.filename === change.filename)
+    const renamed =
+      change.previousFilename && change.previousFilename !== change.filename
+    const fileComments =
+      !renamed &&
+      change.content !== null &&
+      file?.patch &&
+      file.content !== undefined
+        ? buildSuggestionComments(
+            change.filename,
+            file.patch,
+            file.content,
+            change.content
+          )
+        : undefined
+
+    if (fileComments && fileComments.length > 0) {
+      comments.push(...fileComments)
+      suggested.push(change.filename)
+    } else if (!fileComments) {
+      const exists =
+        !!file ||
+        context.existingTestFiles.some(f => f.filename === change.filename)
+      attached.push({
+        change,
+        note: renamed
+          ? `renamed from ${change.previousFilename}`
+          : exists
+            ? "replaces the existing file"
+            : "new file"
+      })
+    }
+  }
+
+  const buildBody = (inline: boolean) => {
+    const files = inline
+      ? attached
+      : [
+          ...attached,
+          ...changes
+            .filter(c => suggested.includes(c.filename))
+            .map(change => ({ change, note: "replaces the existing file" }))
+        ]
+
+    // Attach files while they fit; GitHub would reject the whole review otherwise
+    let length = 0
+    const blocks = files.map(({ change, note }) => {
+      const block = formatAttachedFile(change, note)
+      length += block.length
+      return length <= MAX_REVIEW_BODY_LENGTH
+        ? block
+        : `- \`${change.filename}\` (${note}): too large to include here`
+    })
+
+    return `### AI Test Generator
+
+🧪 Suggested tests for #${pullNumber}. Nothing was committed to your branch.${
+      inline && suggested.length > 0
+        ? `\n\nEdits to ${suggested.length} test file(s) are suggested inline; use **Commit suggestion** to accept them.`
+        : ""
+    }${blocks.length > 0 ? `\n\nAdd these files to your branch to use them:\n\n${blocks.join("\n")}` : ""}`
+  }
+
+  const createReview = (inline: boolean) =>
+    octokit.pulls.createReview({
+      owner,
+      repo,
+      pull_number: pullNumber,
+      commit_id: headSha,
+      event: "COMMENT",
+      body: buildBody(inline),
+      comments: inline ? comments : []
+    })
+
+  let review
+  try {
+    review = await createReview(true)
+  } catch (err) {
+    // E.g. a line GitHub considers outside the diff; attach those files in full instead
+    if (comments.length === 0) throw err
+    console.error("Error posting suggested changes, attaching files:", err)
+    review = await createReview(false)
+    attached.push(
+      ...suggested.map(filename => ({
+        change: changes.find(c => c.filename === filename)!,
+        note: "replaces the existing file"
+      }))
+    )
+    suggested.length = 0
+  }
+
+  return {
+    mode: "suggestions",
+    review: {
+      url: review.data.html_url,
+      suggested,
+      attached: attached.map(a => a.change.filename)
+    }
+  }
+}
+
+/**
+ * Delivers test files to a PR in the mode picked by resolveDeliveryMode.
+ *
+ * @param context - Pull request context
+ * @param changes - The test files
+ * @param gating - Why the PR needs tests
+ * @returns Where the tests ended up
+ * @throws BranchMovedError if commits were pushed to the PR's branch in the meantime
+ */
+export async function deliverTests(
+  context: PullRequestContextWithTests,
+  changes: FileChange[],
+  gating: GatingDecision
+): Promise<TestDelivery> {
+  const mode = resolveDeliveryMode(context)
+  if (mode === "stacked-pr") {
+    return openStackedPullRequest(context, changes, gating)
+  }
+  if (mode === "suggestions") {
+    return postSuggestionReview(context, changes)
+  }
+
+  const { owner, repo, pullNumber, headRef, headSha } = context
+  const summary = await commitFiles(owner, repo, {
+    branch: headRef,
+    expectedHeadSha: headSha,
+    title: getDeliveryTitle(pullNumber),
+    changes
+  })
+  return { mode, branch: headRef, summary }
+}
@@ -0,0 +1,342 @@
+/*
+<ai_context>
+This file contains the detection of a repository's test setup.
+It reads package.json, looks for test runner config files and looks at where the
+existing test files live, to find the unit test framework (Jest, Vitest, Mocha or node:test),
+the E2E framework (Playwright or Cypress), whether unit tests live in a test directory or
+next to the code they test, and whether they are named *.test.* or *.spec.*.
+Anything set in the repo config wins over what is detected.
+The test agent uses the result for its prompts (including how to test back-end code
+with each framework), the names of generated files and the test runner.
+</ai_context>
+*/
+
+import path from "path"
+import { AgentConfig } from "./config"
+
+export type UnitFramework = "jest" | "vitest" | "mocha" | "node-test"
+
+export type E2EFramework = "playwright" | "cypress"
+
+/**
+ * How a repository's tests are set up.
+ */
+export interface TestSetup {
+  unit: {
+    framework: UnitFramework
+    directory?: string // Where unit tests live; undefined if they sit next to the code they test
+    suffix: "test" | "spec" // e.g. "spec" for Button.spec.tsx
+  }
+  e2e: {
+    framework: E2EFramework
+    directory: string
+    suffix: "test" | "spec" | "cy"
+  }
+  typescript: boolean // Whether tests are written in TypeScript
+  evidence: string[] // How each part was detected, for the logs
+}
+
+// Directory names that hold tests rather than code
+const TEST_DIRECTORY_NAMES = ["__tests__", "test", "tests", "spec"]
+
+// Matches test files, e.g. "a.test.ts", "Button.spec.tsx", "login.cy.js"
+const TEST_FILE_PATTERN = /\.(test|spec|cy)\.[cm]?[jt]sx?$/
+
+// Matches E2E test files by name or location
+const E2E_FILE_PATTERN = /\.cy\.[cm]?[jt]sx?$|(^|\/)(e2e|cypress|playwright)\//
+
+// How each test framework is described to the model
+const FRAMEWORK_GUIDANCE: Record<UnitFramework | E2EFramework, string> = {
+  jest: "Jest + Testing Library. Use the global describe/it/expect and jest.fn()/jest.mock() for mocks",
+  vitest:
+    'Vitest + Testing Library. Import describe, it, expect and vi from "vitest" and use vi.fn()/vi.mock() for mocks',
+  mocha:
+    'Mocha. Use the global describe/it with assertions from "node:assert/strict", or chai if the repo depends on it',
+  "node-test":
+    'the built-in node:test runner. Import describe and it from "node:test" and assert from "node:assert/strict"',
+  playwright: 'Playwright. Import test and expect from "@playwright/test"',
+  cypress:
+    "Cypress. Use the global describe/it and cy commands such as cy.visit and cy.get"
+}
+
+/**
+ * Checks whether a path looks like a test file.
+ *
+ * @param filename - Path relative to the repo root
+ * @returns true for test files outside of node_modules
+ */
+export function isTestFilename(filename: string): boolean {
+  return TEST_FILE_PATTERN.test(filename) && !filename.includes("node_modules/")
+}
+
+/**
+ * Returns the most common value in a list.
+ *
+ * @param values - The values to count
+ * @returns The most common value, or undefined for an empty list
+ */
+function mostCommon<T>(values: T[]): T | undefined {
+  const counts = new Map<T, number>()
+  for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1)
+  let best: T | undefined
+  let bestCount = 0
+  for (const [value, count] of counts) {
+    if (count > bestCount) {
+      best = value
+      bestCount = count
+    }
+  }
+  return best
+}
+
+/**
+ * Returns the test directory a unit test file lives in, e.g. "__tests__/unit"
+ * for "__tests__/unit/components/Button.test.tsx".
+ *
+ * @param filename - Path of the test file
+ * @returns The directory, or undefined if the test sits next to the code
+ */
+function getTestRoot(filename: string): string | undefined {
+  const parts = filename.split("/").slice(0, -1)
+  const index = parts.findIndex(part => TEST_DIRECTORY_NAMES.includes(part))
+  if (index === -1) return undefined
+  return parts
+    .slice(0, parts[index + 1] === "unit" ? index + 2 : index + 1)
+    .join("/")
+}
+
+/**
+ * Returns the directory an E2E test file lives in, e.g. "cypress/e2e".
+ *
+ * @param filename - Path of the test file
+ * @returns The directory
+ */
+function getE2ERoot(filename: string): string {
+  const parts = filename.split("/").slice(0, -1)
+  const index = parts.findIndex(part => part === "e2e" || part === "playwright")
+  return index === -1
+    ? path.posix.dirname(filename)
+    : parts.slice(0, index + 1).join("/")
+}
+
+/**
+ * Detects the unit test framework from config files, the test script and dependencies.
+ *
+ * @param hasConfigFile - Checks for a "<name>.config.*" file
+ * @param filenames - Every file in the repository
+ * @param pkg - The parsed package.json
+ * @returns The framework and how it was detected, or undefined if nothing points to one
+ */
+function detectUnitFramework(
+  hasConfigFile: (name: string) => boolean,
+  filenames: string[],
+  pkg: any
+): [UnitFramework, string] | undefined {
+  const deps = { ...pkg.dependencies, ...pkg.devDependencies }
+  const testScript = String(pkg.scripts?.test ?? "")
+
+  if (hasConfigFile("vitest")) return ["vitest", "vitest.config"]
+  if (hasConfigFile("jest") || pkg.jest) return ["jest", "jest config"]
+  if (filenames.some(f => /(^|\/)\.mocharc(\.[a-z]+)?$/.test(f))) {
+    return ["mocha", ".mocharc"]
+  }
+
+  if (/\bvitest\b/.test(testScript)) return ["vitest", "test script"]
+  if (/\bjest\b/.test(testScript)) return ["jest", "test script"]
+  if (/\bmocha\b/.test(testScript)) return ["mocha", "test script"]
+  if (/\bnode\b.*--test\b/.test(testScript)) return ["node-test", "test script"]
+
+  if (deps.vitest) return ["vitest", "dependency"]
+  if (deps.jest) return ["jest", "dependency"]
+  if (deps.mocha) return ["mocha", "dependency"]
+  return undefined
+}
+
+/**
+ * Detects a repository's test setup from its files and package.json.
+ * Settings in the repo config win; anything not detected falls back to
+ * Jest in __tests__/unit and Playwright in __tests__/e2e.
+ *
+ * @param filenames - Every file in the repository at the PR's head commit
+ * @param packageJson - The root package.json, if there is one
+ * @param tests - The tests section of the repo config
+ * @returns The test setup
+ */
+export function detectTestSetup(
+  filenames: string[],
+  packageJson: string | undefined,
+  tests: AgentConfig["tests"]
+): TestSetup {
+  let pkg: any = {}
+  try {
+    pkg = packageJson ? JSON.parse(packageJson) : {}
+  } catch {
+    // A broken package.json just means we detect from files only
+  }
+  const deps = { ...pkg.dependencies, ...pkg.devDependencies }
+  const evidence: string[] = []
+
+  const sourceFiles = filenames.filter(f => !f.includes("node_modules/"))
+  const hasConfigFile = (name: string) =>
+    sourceFiles.some(f =>
+      new RegExp(`(^|/)${name}\\.config\\.[cm]?[jt]s$`).test(f)
+    )
+
+  // Unit test framework
+  let unitFramework: UnitFramework = "jest"
+  const detectedUnit = detectUnitFramework(hasConfigFile, sourceFiles, pkg)
+  if (tests.unit.framework) {
+    unitFramework = tests.unit.framework
+    evidence.push(`unit framework ${unitFramework} from config`)
+  } else if (detectedUnit) {
+    unitFramework = detectedUnit[0]
+    evidence.push(`unit framework ${unitFramework} from ${detectedUnit[1]}`)
+  }
+
+  // E2E framework
+  let e2eFramework: E2EFramework = "playwright"
+  if (tests.e2e.framework) {
+    e2eFramework = tests.e2e.framework
+    evidence.push(`e2e framework ${e2eFramework} from config`)
+  } else if (
+    hasConfigFile("cypress") ||
+    (deps.cypress && !deps["@playwright/test"])
+  ) {
+    e2eFramework = "cypress"
+    evidence.push("e2e framework cypress from cypress config or dependency")
+  }
+
+  // Where tests live and how they are named
+  const testFiles = sourceFiles.filter(isTestFilename)
+  const unitFiles = testFiles.filter(f => !E2E_FILE_PATTERN.test(f))
+  const e2eFiles = testFiles.filter(f => E2E_FILE_PATTERN.test(f))
+
+  const roots = unitFiles.map(getTestRoot)
+  const colocated = roots.filter(root => root === undefined).length
+  let unitDirectory: string | undefined = tests.unit.directory
+  if (!unitDirectory) {
+    if (unitFiles.length > 0 && colocated > unitFiles.length / 2) {
+      evidence.push(
+        `${colocated} of ${unitFiles.length} unit tests sit next to their code`
+      )
+    } else {
+      unitDirectory =
+        mostCommon(roots.filter((r): r is string => r !== undefined)) ??
+        "__tests__/unit"
+    }
+  }
+
+  const specCount = unitFiles.filter(f => /\.spec\./.test(f)).length
+  const unitSuffix = specCount > unitFiles.length / 2 ? "spec" : "test"
+
+  const e2eSuffix =
+    e2eFramework === "cypress"
+      ? "cy"
+      : e2eFiles.filter(f => /\.test\./.test(f)).length > e2eFiles.length / 2
+        ? "test"
+        : "spec"
+  const e2eDirectory =
+    tests.e2e.directory ??
+    mostCommon(e2eFiles.map(getE2ERoot)) ??
+    (e2eFramework === "cypress" ? "cypress/e2e" : "__tests__/e2e")
+
+  const typescript =
+    sourceFiles.includes("tsconfig.json") || deps.typescript !== undefined
+
+  return {
+    unit: {
+      framework: unitFramework,
+      directory: unitDirectory,
+      suffix: unitSuffix
+    },
+    e2e: {
+      framework: e2eFramework,
+      directory: e2eDirectory,
+      suffix: e2eSuffix
+    },
+    typescript,
+    evidence
+  }
+}
+
+/**
+ * Returns the ending of a generated test file's name, e.g. ".test.tsx" or ".cy.js".
+ *
+ * @param setup - The repository's test setup
+ * @param testType - Whether it's a unit or an E2E test
+ * @param jsx - Whether the test renders JSX
+ * @returns The ending, including the leading dot
+ */
+export function getTestFileEnding(
+  setup: TestSetup,
+  testType: "unit" | "e2e",
+  jsx: boolean
+): string {
+  const suffix = testType === "e2e" ? setup.e2e.suffix : setup.unit.suffix
+  const extension = setup.typescript ? "ts" : "js"
+  return `.${suffix}.${extension}${jsx && testType === "unit" ? "x" : ""}`
+}
+
+/**
+ * Returns an example path for a new unit test, used in the prompts.
+ *
+ * @param setup - The repository's test setup
+ * @returns e.g. "__tests__/unit/utils.test.ts" or "lib/utils.spec.ts"
+ */
+export function getExampleTestFilename(setup: TestSetup): string {
+  const ending = getTestFileEnding(setup, "unit", false)
+  return setup.unit.directory
+    ? `${setup.unit.directory}/utils${ending}`
+    : `lib/utils${ending}`
+}
+
+/**
+ * Describes the test setup to the model: the frameworks, where tests go and how they are named.
+ *
+ * @param setup - The repository's test setup
+ * @returns The test setup section of a prompt
+ */
+export function describeTestSetup(setup: TestSetup): string {
+  const { unit, e2e } = setup
+  const unitEnding = getTestFileEnding(setup, "unit", false)
+  const jsxEnding = getTestFileEnding(setup, "unit", true)
+  const unitLocation = unit.directory
+    ? `They live in \`${unit.directory}/\` and are named \`<name>${unitEnding}\` (\`<name>${jsxEnding}\` for tests that render React components).`
+    : `They live next to the file they test and are named after it, e.g. \`lib/utils.ts\` is tested in \`lib/utils${unitEnding}\` (\`${jsxEnding}\` for tests that render React components).`
+
+  return `We have two test categories:
+(1) Unit tests, written with ${FRAMEWORK_GUIDANCE[unit.framework]}. ${unitLocation}
+(2) E2E tests, written with ${FRAMEWORK_GUIDANCE[e2e.framework]}. They live in \`${e2e.directory}/\` and are named \`<name>${getTestFileEnding(setup, "e2e", false)}\`.
+Tests are written in ${setup.typescript ? "TypeScript" : "JavaScript"}.`
+}
+
+/**
+ * Describes how to test back-end code with the repository's unit test framework:
+ * route handlers are called with a NextRequest, and GitHub and LLM clients are mocked.
+ *
+ * @param setup - The repository's test setup
+ * @returns The back-end section of a prompt
+ */
+export function describeBackEndTesting(setup: TestSetup): string {
+  const mocking: Record<UnitFramework, string> = {
+    jest: 'jest.mock("<module>", () => ({ ... }))',
+    vitest: 'vi.mock("<module>", () => ({ ... }))',
+    mocha:
+      "sinon stubs if the repo depends on sinon, otherwise by passing fakes in",
+    "node-test":
+      'mock.module("<module>", { namedExports: { ... } }) from "node:test"'
+  }
+  const environment: Record<UnitFramework, string> = {
+    jest: "Back-end tests must run in Node, not jsdom: start each back-end test file with a `/** @jest-environment node */` docblock.",
+    vitest:
+      "Back-end tests must run in Node, not jsdom: start each back-end test file with a `// @vitest-environment node` comment.",
+    mocha: "Tests already run in Node.",
+    "node-test": "Tests already run in Node."
+  }
+
+  return `How to test back-end code:
+- Route handlers: import the exported HTTP method handlers (GET, POST, ...) from the route file and call them with a request built with \`new NextRequest("http://localhost/api/...", { method: "POST", headers: { "content-type": "application/json" }, body: JSON.stringify(payload) })\` (NextRequest comes from "next/server"). Assert on \`response.status\` and \`await response.json()\`.
+- Server actions and plain modules: import the exported functions and call them directly.
+- Never call real services. Mock modules that talk to GitHub (Octokit, or a local module that creates the Octokit client) and the AI SDK (the "ai" package and providers like "@ai-sdk/openai") with ${mocking[setup.unit.framework]}, and control what the mocks return in each test.
+- ${environment[setup.unit.framework]}`
+}
@@ -0,0 +1,168 @@
+/*
+<ai_context>
+This file contains the worker that processes agent jobs from the queue.
+It runs each job's agent, retries failures with exponential backoff,
+and moves jobs that keep failing to the dead-letter state.
+</ai_context>
+*/
+
+import {
+  handlePullRequestBase,
+  handlePullRequestForTestAgent,
+  handlePullRequestIncremental
+} from "./handlers"
+import {
+  createRunGuard,
+  getPreviousCompletedRun,
+  RunCancelledError,
+  RunGuard,
+  updateRunStatus
+} from "./ledger"
+import { AgentJob, AgentName, getJobQueue, JobQueue } from "./queue"
+import { handleReviewAgent } from "./review-agent"
+import { handleTestGeneration } from "./test-agent"
+
+// Function that runs one agent for a webhook payload
+export type AgentRunner = (job: AgentJob, guard?: RunGuard) => Promise<void>
+
+// Backoff settings for failed jobs: 30s, 1m, 2m, 4m ... capped at 30 minutes
+const BASE_RETRY_DELAY_MS = 30 * 1000
+const MAX_RETRY_DELAY_MS = 30 * 60 * 1000
+
+// How often the worker loop checks for new jobs when the queue is empty
+const DEFAULT_POLL_INTERVAL_MS = 2000
+
+/**
+ * Maps each agent to the code that builds its context and runs it.
+ */
+const defaultRunners: Record<AgentName, AgentRunner> = {
+  review: async (job, guard) => {
+    // On new pushes, only review what changed since the last completed review
+    const previousRun =
+      job.payload.action === "synchronize" && job.runId
+        ? await getPreviousCompletedRun(job.runId)
+        : undefined
+
+    const context = previousRun
+      ? await handlePullRequestIncremental(job.payload, {
+          headSha: previousRun.headSha,
+          commentId: previousRun.commentId
+        })
+      : await handlePullRequestBase(job.payload)
+
+    // The agent remembers its comment on the run, so the next push can append to it
+    await handleReviewAgent(context, guard)
+  },
+  "test-generation": async (job, guard) => {
+    const context = await handlePullRequestForTestAgent(job.payload)
+    await handleTestGeneration(context, guard)
+  }
+}
+
+/**
+ * Computes how long to wait before retrying a job.
+ *
+ * @param attempts - How many attempts have been made so far (1 after the first failure)
+ * @returns The delay in milliseconds
+ */
+export function getRetryDelayMs(attempts: number): number {
+  const delay = BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1)
+  return Math.min(delay, MAX_RETRY_DELAY_MS)
+}
+
+/**
+ * Claims and runs a single job from the queue.
+ *
+ * @param queue - The queue to read from
+ * @param runners - The agent runners to dispatch to
+ * @returns The job that was processed, or undefined if nothing was ready
+ */
+export async function processNextJob(
+  queue: JobQueue = getJobQueue(),
+  runners: Record<AgentName, AgentRunner> = defaultRunners
+): Promise<AgentJob | undefined> {
+  const job = await queue.claimNext()
+  if (!job) return undefined
+
+  console.log(
+    `Running ${job.agent} job ${job.id} (attempt ${job.attempts}/${job.maxAttempts})`
+  )
+
+  // Jobs created through the ledger can be cancelled while they wait or run
+  const guard = job.runId ? createRunGuard(job.runId) : undefined
+
+  try {
+    await guard?.throwIfCancelled()
+    if (job.runId) await updateRunStatus(job.runId, "running")
+
+    await runners[job.agent](job, guard)
+
+    await queue.complete(job.id)
+    if (job.runId) await updateRunStatus(job.runId, "completed")
+  } catch (error) {
+    // A cancelled run is finished as far as the queue is concerned, don't retry it
+    if (error instanceof RunCancelledError) {
+      console.log(`Job ${job.id} cancelled: ${error.message}`)
+      await queue.complete(job.id)
+      return job
+    }
+
+    const message = error instanceof Error ? error.message : String(error)
+
+    // Out of attempts: park the job in the dead-letter state for a human to look at
+    if (job.attempts >= job.maxAttempts) {
+      console.error(`Job ${job.id} failed permanently:`, error)
+      await queue.fail(job.id, message)
+      if (job.runId) await updateRunStatus(job.runId, "failed")
+    } else {
+      const retryAt = new Date(Date.now() + getRetryDelayMs(job.attempts))
+      console.warn(
+        `Job ${job.id} failed, retrying at ${retryAt.toISOString()}:`,
+        error
+      )
+      await queue.fail(job.id, message, retryAt)
+      if (job.runId) await updateRunStatus(job.runId, "pending")
+    }
+  }
+
+  return job
+}
+
+/**
+ * Processes jobs until none are ready to run.
+ *
+ * @param queue - The queue to read from
+ * @returns The number of jobs processed
+ */
+export async function drainJobQueue(
+  queue: JobQueue = getJobQueue()
+): Promise<number> {
+  let processed = 0
+  while (await processNextJob(queue)) {
+    processed++
+  }
+  return processed
+}
+
+/**
+ * Runs the worker loop, polling the queue until the signal is aborted.
+ *
+ * @param options.pollIntervalMs - How long to sleep when there's nothing to do
+ * @param options.signal - Stops the loop when aborted
+ */
+export async function runWorker(
+  options: { pollIntervalMs?: number; signal?: AbortSignal } = {}
+) {
+  const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS
+  const queue = getJobQueue()
+
+  while (!options.signal?.aborted) {
+    try {
+      await drainJobQueue(queue)
+    } catch (error) {
+      // Errors here come from the queue itself (e.g. disk issues), keep the loop alive
+      console.error("Error while processing job queue:", error)
+    }
+    await new Promise(resolve => setTimeout(resolve, pollIntervalMs))
+  }
+}
@@ -1,64 +1,209 @@
 /*
 <ai_context>
 This route contains the main logic for handling GitHub webhook events.
-It acts as the entry point for all GitHub webhook requests and routes them
-to the appropriate handlers based on the event type and action.
+It acts as the entry point for all GitHub webhook requests and enqueues jobs
+for the appropriate agents based on the event type and action.
 </ai_context>
 */
 
 import { NextRequest, NextResponse } from "next/server"
 import {
-  handlePullRequestBase,
-  handlePullRequestForTestAgent
-} from "./_lib/handlers"
-import { handleReviewAgent, REVIEW_LABEL } from "./_lib/review-agent"
-import { handleTestGeneration, TEST_GENERATION_LABEL } from "./_lib/test-agent"
+  AgentConfig,
+  AgentTrigger,
+  getDefaultConfig,
+  isAgentTrigger,
+  loadRepoConfig
+} from "./_lib/config"
+import {
+  cancelSupersededRuns,
+  claimDelivery,
+  releaseDelivery,
+  startRun,
+  updateRunStatus
+} from "./_lib/ledger"
+import { AgentName, getJobQueue } from "./_lib/queue"
+import { verifyWebhookSignature } from "./_lib/signature"
+
+// How long reading the repo's config may take before the defaults are used;
+// GitHub gives up on a delivery after 10 seconds
+const CONFIG_TIMEOUT_MS = 3000
+
+/**
+ * Loads the repo's config for deciding which agents to enqueue, without risking
+ * the delivery: a slow or failing read falls back to the default config.
+ * The worker loads the config again when it runs the agent.
+ *
+ * @param payload - The parsed pull_request webhook payload
+ * @returns The repository's config, or the defaults
+ */
+async function loadTriggerConfig(payload: any): Promise<AgentConfig> {
+  try {
+    const { config } = await loadRepoConfig(
+      payload.repository.owner.login,
+      payload.repository.name,
+      payload.pull_request.base.ref,
+      { timeoutMs: CONFIG_TIMEOUT_MS }
+    )
+    return config
+  } catch (error) {
+    console.warn("Could not load the repository config, using defaults:", error)
+    return getDefaultConfig()
+  }
+}
+
+/**
+ * Decides which agents should run for a pull request event, based on the
+ * trigger events and labels in the repository's config.
+ *
+ * @param payload - The parsed pull_request webhook payload
+ * @param config - The repository's agent config
+ * @returns The agents to enqueue (empty if the event isn't relevant)
+ */
+function getAgentsForPullRequestEvent(
+  payload: any,
+  config: AgentConfig
+): AgentName[] {
+  const action = payload.action as AgentTrigger
+  const agents: AgentName[] = []
+
+  // Labels only trigger the agent they belong to
+  const isTriggered = (triggers: AgentTrigger[], label: string) =>
+    triggers.includes(action) &&
+    (action !== "labeled" || payload.label?.name === label)
+
+  // e.g. opened/synchronize, or the review label being added
+  if (isTriggered(config.triggers.review, config.labels.review)) {
+    agents.push("review")
+  }
+
+  // e.g. the test generation label being added
+  if (
+    isTriggered(config.triggers.testGeneration, config.labels.testGeneration)
+  ) {
+    agents.push("test-generation")
+  }
+
+  return agents
+}
 
 /**
  * Handles POST requests from GitHub webhooks.
- * Depending on the event type and action, calls the appropriate agent or handler.
+ * Depending on the event type and action, enqueues jobs for the appropriate agents.
+ * Every delivery must carry a valid X-Hub-Signature-256 header, otherwise we return 401.
+ *
+ * The agents themselves run in the worker (see _lib/worker.ts), so we can answer
+ * GitHub well within its 10-second delivery timeout.
+ *
+ * Redelivered webhooks (same X-GitHub-Delivery) are acknowledged without doing anything,
+ * and agents that already have a run for the PR's head commit are not enqueued again.
  *
  * @param request - The incoming webhook request from GitHub
- * @returns A response indicating success or failure
+ * @returns 202 if jobs were enqueued, 200 if the event was ignored, or an error status
  */
 export async function POST(request: NextRequest) {
   try {
     // Extract the raw body from the request
     const rawBody = await request.text()
+
+    // Reject anything that isn't signed with our webhook secret before doing any work
+    const signature = request.headers.get("x-hub-signature-256")
+    if (!verifyWebhookSignature(rawBody, signature)) {
+      console.warn(
+        "Rejected webhook delivery with invalid or missing signature"
+      )
+      return NextResponse.json({ error: "Invalid signature" }, { status: 401 })
+    }
+
     // Parse it as JSON (GitHub sends JSON payload)
     const payload = JSON.parse(rawBody)
 
     // Determine what kind of GitHub event this is
     const eventType = request.headers.get("x-github-event")
+    const deliveryId = request.headers.get("x-github-delivery") ?? undefined
 
-    // Handle pull request events
-    if (eventType === "pull_request") {
-      // If a PR is newly opened, automatically run the review agent
-      if (payload.action === "opened") {
-        const context = await handlePullRequestBase(payload)
-        await handleReviewAgent(context)
-      }
+    // Only pull request events can trigger agents, and only some of their actions
+    if (eventType !== "pull_request" || !isAgentTrigger(payload.action)) {
+      return NextResponse.json({ message: "OK" })
+    }
 
-      // If a label is added to the PR, check which label it is
-      if (payload.action === "labeled") {
-        const labelName = payload.label?.name
+    // A new push supersedes the runs of every agent for older commits,
+    // not only of the agents it triggers
+    if (payload.action === "synchronize") {
+      await cancelSupersededRuns({
+        owner: payload.repository.owner.login,
+        repo: payload.repository.name,
+        pullNumber: payload.pull_request.number,
+        headSha: payload.pull_request.head.sha
+      })
+    }
+
+    // Which agents run depends on the repo's config on the base branch
+    const config = await loadTriggerConfig(payload)
+    const agents = getAgentsForPullRequestEvent(payload, config)
 
-        // If the label is for review, run the review agent
-        if (labelName === REVIEW_LABEL) {
-          const context = await handlePullRequestBase(payload)
-          await handleReviewAgent(context)
+    if (agents.length === 0) {
+      return NextResponse.json({ message: "OK" })
+    }
+
+    // Ignore redeliveries of a webhook we've already accepted
+    if (
+      deliveryId &&
+      !(await claimDelivery({
+        deliveryId,
+        event: eventType ?? "unknown",
+        action: payload.action
+      }))
+    ) {
+      return NextResponse.json({ message: "Duplicate delivery" })
+    }
+
+    try {
+      const queue = getJobQueue()
+      const jobIds: string[] = []
+
+      for (const agent of agents) {
+        // Deduplicate per PR + head commit + agent, cancelling runs for older commits
+        const { run, duplicate } = await startRun({
+          owner: payload.repository.owner.login,
+          repo: payload.repository.name,
+          pullNumber: payload.pull_request.number,
+          agent,
+          headSha: payload.pull_request.head.sha,
+          deliveryId
+        })
+        if (duplicate) {
+          console.log(
+            `Skipping ${agent}: run ${run.id} already covers ${run.headSha}`
+          )
+          continue
         }
 
-        // If the label is for test generation, run the test agent
-        if (labelName === TEST_GENERATION_LABEL) {
-          const context = await handlePullRequestForTestAgent(payload)
-          await handleTestGeneration(context)
+        // Enqueue the job and let the worker pick it up
+        try {
+          const job = await queue.enqueue({
+            agent,
+            payload,
+            deliveryId,
+            runId: run.id
+          })
+          jobIds.push(job.id)
+        } catch (error) {
+          // A run without a job would block every future delivery for this commit
+          await updateRunStatus(run.id, "failed")
+          throw error
         }
       }
-    }
 
-    // Return a success response to GitHub
-    return NextResponse.json({ message: "OK" })
+      // Acknowledge the delivery right away
+      return NextResponse.json(
+        { message: jobIds.length > 0 ? "Accepted" : "Duplicate run", jobIds },
+        { status: jobIds.length > 0 ? 202 : 200 }
+      )
+    } catch (error) {
+      // Let GitHub's redelivery be processed since we didn't enqueue anything
+      if (deliveryId) await releaseDelivery(deliveryId)
+      throw error
+    }
   } catch (error) {
     // Log any errors that occur and return a 500 status
     console.error("Error in webhook route:", error)
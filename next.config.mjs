@@ -6,6 +6,8 @@ Configures Next.js for the app.
 
 /** @type {import('next').NextConfig} */
 const nextConfig = {
+  // The test agent parses source files with the TypeScript compiler at runtime
+  serverExternalPackages: ["typescript"],
   images: {
     remotePatterns: [{ hostname: "localhost" }]
   }
@@ -0,0 +1,23 @@
+import dotenv from "dotenv"
+
+// Load environment variables from .env.local file before the agents read them
+dotenv.config({ path: ".env.local" })
+
+async function main() {
+  // Import after dotenv so the GitHub and LLM clients see the environment
+  const { runWorker } = await import("../app/api/github-webhook/_lib/worker")
+
+  // Stop polling cleanly on Ctrl+C or when the process manager stops us
+  const controller = new AbortController()
+  process.on("SIGINT", () => controller.abort())
+  process.on("SIGTERM", () => controller.abort())
+
+  console.log("Agent worker started")
+  await runWorker({ signal: controller.signal })
+  console.log("Agent worker stopped")
+}
+
+main().catch(error => {
+  console.error("Agent worker crashed:", error)
+  process.exit(1)
+})